@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'WAITLIST_OFFER';
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" UUID NOT NULL,
+    "eventId" UUID NOT NULL,
+    "ticketId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "offerToken" TEXT,
+    "offeredAt" TIMESTAMP(3),
+    "offerExpiresAt" TIMESTAMP(3),
+    "claimedOrderId" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_offerToken_key" ON "WaitlistEntry"("offerToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_claimedOrderId_key" ON "WaitlistEntry"("claimedOrderId");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_ticketId_status_joinedAt_idx" ON "WaitlistEntry"("ticketId", "status", "joinedAt");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_eventId_status_idx" ON "WaitlistEntry"("eventId", "status");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_status_offerExpiresAt_idx" ON "WaitlistEntry"("status", "offerExpiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_ticketId_userId_key" ON "WaitlistEntry"("ticketId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_claimedOrderId_fkey" FOREIGN KEY ("claimedOrderId") REFERENCES "BookingOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "RefundPolicyType" AS ENUM ('NONE', 'FULL', 'PARTIAL');
+
+-- CreateEnum
+CREATE TYPE "RefundRequestStatus" AS ENUM ('PENDING', 'PROCESSING', 'REFUNDED', 'DENIED', 'FAILED');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "NotificationType" ADD VALUE 'REFUND_REQUESTED';
+ALTER TYPE "NotificationType" ADD VALUE 'REFUND_APPROVED';
+ALTER TYPE "NotificationType" ADD VALUE 'REFUND_DENIED';
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "refundDeadlineDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refundPercent" INTEGER,
+ADD COLUMN     "refundPolicy" "RefundPolicyType" NOT NULL DEFAULT 'NONE';
+
+-- AlterTable
+ALTER TABLE "BookingOrder" ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: orders refunded before amounts were tracked were refunded in full
+UPDATE "BookingOrder" SET "refundedAmount" = "total" WHERE "status" = 'REFUNDED';
+
+-- CreateTable
+CREATE TABLE "RefundRequest" (
+    "id" UUID NOT NULL,
+    "orderId" UUID NOT NULL,
+    "eventId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "status" "RefundRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "refundPercent" INTEGER NOT NULL,
+    "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "reviewedById" UUID,
+    "reviewedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RefundRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RefundRequest_orderId_key" ON "RefundRequest"("orderId");
+
+-- CreateIndex
+CREATE INDEX "RefundRequest_eventId_status_idx" ON "RefundRequest"("eventId", "status");
+
+-- CreateIndex
+CREATE INDEX "RefundRequest_userId_idx" ON "RefundRequest"("userId");
+
+-- AddForeignKey
+ALTER TABLE "RefundRequest" ADD CONSTRAINT "RefundRequest_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "BookingOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RefundRequest" ADD CONSTRAINT "RefundRequest_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RefundRequest" ADD CONSTRAINT "RefundRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RefundRequest" ADD CONSTRAINT "RefundRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "RefundSource" AS ENUM ('ATTENDEE', 'EVENT_CANCELLATION');
+
+-- AlterTable
+ALTER TABLE "RefundRequest" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "source" "RefundSource" NOT NULL DEFAULT 'ATTENDEE';
+
+-- CreateIndex
+CREATE INDEX "RefundRequest_eventId_source_idx" ON "RefundRequest"("eventId", "source");
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "TicketTransferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED', 'EXPIRED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TICKET_TRANSFER';
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN     "allowTransfers" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "transferCutoffHours" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Attendee" ADD COLUMN     "holderId" UUID,
+ADD COLUMN     "transferredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TicketTransfer" (
+    "id" UUID NOT NULL,
+    "attendeeId" UUID NOT NULL,
+    "eventId" UUID NOT NULL,
+    "fromUserId" UUID NOT NULL,
+    "toEmail" TEXT NOT NULL,
+    "toName" TEXT,
+    "toUserId" UUID,
+    "token" TEXT NOT NULL,
+    "status" "TicketTransferStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "oldTicketCode" TEXT NOT NULL,
+    "newTicketCode" TEXT,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TicketTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Attendee_holderId_idx" ON "Attendee"("holderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketTransfer_token_key" ON "TicketTransfer"("token");
+
+-- CreateIndex
+CREATE INDEX "TicketTransfer_attendeeId_status_idx" ON "TicketTransfer"("attendeeId", "status");
+
+-- CreateIndex
+CREATE INDEX "TicketTransfer_toEmail_status_idx" ON "TicketTransfer"("toEmail", "status");
+
+-- AddForeignKey
+ALTER TABLE "Attendee" ADD CONSTRAINT "Attendee_holderId_fkey" FOREIGN KEY ("holderId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketTransfer" ADD CONSTRAINT "TicketTransfer_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "Attendee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketTransfer" ADD CONSTRAINT "TicketTransfer_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketTransfer" ADD CONSTRAINT "TicketTransfer_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
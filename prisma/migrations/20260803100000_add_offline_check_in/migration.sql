@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "CheckInScanOutcome" AS ENUM ('ACCEPTED', 'DUPLICATE', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Attendee" ADD COLUMN     "checkInDevice" TEXT;
+
+-- CreateTable
+CREATE TABLE "CheckInScan" (
+    "id" UUID NOT NULL,
+    "eventId" UUID NOT NULL,
+    "attendeeId" UUID,
+    "deviceId" TEXT NOT NULL,
+    "deviceName" TEXT,
+    "clientScanId" TEXT NOT NULL,
+    "ticketCode" TEXT,
+    "scannedById" UUID NOT NULL,
+    "scannedAt" TIMESTAMP(3) NOT NULL,
+    "syncedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "outcome" "CheckInScanOutcome" NOT NULL,
+    "reason" TEXT,
+
+    CONSTRAINT "CheckInScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckInScan_deviceId_clientScanId_key" ON "CheckInScan"("deviceId", "clientScanId");
+
+-- CreateIndex
+CREATE INDEX "CheckInScan_eventId_deviceId_idx" ON "CheckInScan"("eventId", "deviceId");
+
+-- CreateIndex
+CREATE INDEX "CheckInScan_attendeeId_idx" ON "CheckInScan"("attendeeId");
+
+-- AddForeignKey
+ALTER TABLE "CheckInScan" ADD CONSTRAINT "CheckInScan_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckInScan" ADD CONSTRAINT "CheckInScan_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "Attendee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckInScan" ADD CONSTRAINT "CheckInScan_scannedById_fkey" FOREIGN KEY ("scannedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "paymentProvider" TEXT;
+
+-- AlterTable
+ALTER TABLE "BookingOrder" ADD COLUMN     "paymentProvider" TEXT;
+
+-- AlterTable
+ALTER TABLE "InstallmentPayment" ADD COLUMN     "paymentProvider" TEXT;
+
+-- Backfill: every payment taken so far went through Paystack
+UPDATE "BookingOrder" SET "paymentProvider" = 'paystack' WHERE "paymentReference" IS NOT NULL;
+UPDATE "InstallmentPayment" SET "paymentProvider" = 'paystack' WHERE "paymentReference" IS NOT NULL;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "PaymentDiscrepancyType" AS ENUM ('WEBHOOK_MISSED', 'PAID_AFTER_EXPIRY', 'AMOUNT_MISMATCH', 'VERIFY_FAILED');
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'webhook';
+
+-- CreateTable
+CREATE TABLE "PaymentDiscrepancy" (
+    "id" UUID NOT NULL,
+    "type" "PaymentDiscrepancyType" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "orderId" UUID,
+    "installmentPaymentId" UUID,
+    "expectedAmount" DOUBLE PRECISION,
+    "actualAmount" DOUBLE PRECISION,
+    "currency" TEXT,
+    "providerStatus" TEXT,
+    "details" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" UUID,
+    "resolutionNote" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentDiscrepancy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentDiscrepancy_detectedAt_idx" ON "PaymentDiscrepancy"("detectedAt");
+
+-- CreateIndex
+CREATE INDEX "PaymentDiscrepancy_resolvedAt_idx" ON "PaymentDiscrepancy"("resolvedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentDiscrepancy_reference_type_key" ON "PaymentDiscrepancy"("reference", "type");
+
+-- AddForeignKey
+ALTER TABLE "PaymentDiscrepancy" ADD CONSTRAINT "PaymentDiscrepancy_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "BookingOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
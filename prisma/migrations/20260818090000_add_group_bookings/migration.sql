@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "GroupBookingStatus" AS ENUM ('OPEN', 'COMPLETED', 'CLOSED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "GroupShareStatus" AS ENUM ('PENDING', 'PAID', 'FAILED', 'RELEASED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'GROUP_BOOKING';
+
+-- AlterTable
+ALTER TABLE "PaymentDiscrepancy" ADD COLUMN     "groupShareId" UUID;
+
+-- CreateTable
+CREATE TABLE "GroupBooking" (
+    "id" UUID NOT NULL,
+    "bookingOrderId" UUID NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "status" "GroupBookingStatus" NOT NULL DEFAULT 'OPEN',
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupBooking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GroupBookingShare" (
+    "id" UUID NOT NULL,
+    "groupBookingId" UUID NOT NULL,
+    "ticketId" UUID NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "token" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "serviceFee" DOUBLE PRECISION NOT NULL,
+    "status" "GroupShareStatus" NOT NULL DEFAULT 'PENDING',
+    "paymentProvider" TEXT,
+    "paymentReference" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "attendeeId" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupBookingShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupBooking_bookingOrderId_key" ON "GroupBooking"("bookingOrderId");
+
+-- CreateIndex
+CREATE INDEX "GroupBooking_status_deadline_idx" ON "GroupBooking"("status", "deadline");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupBookingShare_token_key" ON "GroupBookingShare"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupBookingShare_attendeeId_key" ON "GroupBookingShare"("attendeeId");
+
+-- CreateIndex
+CREATE INDEX "GroupBookingShare_groupBookingId_idx" ON "GroupBookingShare"("groupBookingId");
+
+-- CreateIndex
+CREATE INDEX "GroupBookingShare_paymentReference_idx" ON "GroupBookingShare"("paymentReference");
+
+-- CreateIndex
+CREATE INDEX "GroupBookingShare_email_idx" ON "GroupBookingShare"("email");
+
+-- AddForeignKey
+ALTER TABLE "GroupBooking" ADD CONSTRAINT "GroupBooking_bookingOrderId_fkey" FOREIGN KEY ("bookingOrderId") REFERENCES "BookingOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingShare" ADD CONSTRAINT "GroupBookingShare_groupBookingId_fkey" FOREIGN KEY ("groupBookingId") REFERENCES "GroupBooking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingShare" ADD CONSTRAINT "GroupBookingShare_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingShare" ADD CONSTRAINT "GroupBookingShare_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "Attendee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
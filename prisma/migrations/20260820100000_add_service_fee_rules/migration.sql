@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ServiceFeeMode" AS ENUM ('PASS_ON', 'ABSORB', 'SPLIT');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "serviceFeeMode" "ServiceFeeMode" NOT NULL DEFAULT 'PASS_ON';
+
+-- AlterTable
+ALTER TABLE "BookingOrder" ADD COLUMN     "absorbedFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "GroupBookingShare" ADD COLUMN     "absorbedFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PayoutRequest" ADD COLUMN     "absorbedFees" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ServiceFeeRule" (
+    "id" UUID NOT NULL,
+    "organizerId" UUID,
+    "category" "EventCategory",
+    "currency" TEXT,
+    "percent" DOUBLE PRECISION NOT NULL,
+    "flatFee" DOUBLE PRECISION,
+    "note" TEXT,
+    "createdById" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServiceFeeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ServiceFeeRule_organizerId_idx" ON "ServiceFeeRule"("organizerId");
+
+-- CreateIndex
+CREATE INDEX "ServiceFeeRule_category_idx" ON "ServiceFeeRule"("category");
+
+-- AddForeignKey
+ALTER TABLE "ServiceFeeRule" ADD CONSTRAINT "ServiceFeeRule_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "TicketPricePhase" (
+    "id" UUID NOT NULL,
+    "ticketId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "soldLimit" INTEGER,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketPricePhase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TicketPricePhase_ticketId_idx" ON "TicketPricePhase"("ticketId");
+
+-- AddForeignKey
+ALTER TABLE "TicketPricePhase" ADD CONSTRAINT "TicketPricePhase_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN     "minDonation" DOUBLE PRECISION,
+ADD COLUMN     "suggestedAmounts" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[];
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "isDonation" BOOLEAN NOT NULL DEFAULT false;
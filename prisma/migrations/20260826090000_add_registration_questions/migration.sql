@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "RegistrationQuestionType" AS ENUM ('TEXT', 'SELECT', 'MULTI_SELECT', 'CHECKBOX', 'DATE');
+
+-- CreateTable
+CREATE TABLE "RegistrationQuestion" (
+    "id" UUID NOT NULL,
+    "eventId" UUID NOT NULL,
+    "label" TEXT NOT NULL,
+    "helpText" TEXT,
+    "type" "RegistrationQuestionType" NOT NULL,
+    "options" TEXT[],
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "maxLength" INTEGER,
+    "ticketIds" UUID[],
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RegistrationQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RegistrationAnswer" (
+    "id" UUID NOT NULL,
+    "attendeeId" UUID NOT NULL,
+    "questionId" UUID NOT NULL,
+    "value" TEXT[],
+
+    CONSTRAINT "RegistrationAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RegistrationQuestion_eventId_idx" ON "RegistrationQuestion"("eventId");
+
+-- CreateIndex
+CREATE INDEX "RegistrationAnswer_questionId_idx" ON "RegistrationAnswer"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RegistrationAnswer_attendeeId_questionId_key" ON "RegistrationAnswer"("attendeeId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "RegistrationQuestion" ADD CONSTRAINT "RegistrationQuestion_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegistrationAnswer" ADD CONSTRAINT "RegistrationAnswer_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "Attendee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegistrationAnswer" ADD CONSTRAINT "RegistrationAnswer_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "RegistrationQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
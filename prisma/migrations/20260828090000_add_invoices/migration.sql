@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "InvoiceKind" AS ENUM ('ORDER', 'INSTALLMENT');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "invoiceSequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" UUID NOT NULL,
+    "organizerId" UUID NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "number" TEXT NOT NULL,
+    "kind" "InvoiceKind" NOT NULL,
+    "orderId" UUID NOT NULL,
+    "installmentPaymentId" UUID,
+    "currency" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "serviceFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "vatRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "vatAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total" DOUBLE PRECISION NOT NULL,
+    "paymentReference" TEXT,
+    "details" JSONB NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_installmentPaymentId_key" ON "Invoice"("installmentPaymentId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_orderId_idx" ON "Invoice"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_organizerId_sequence_key" ON "Invoice"("organizerId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "BookingOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_installmentPaymentId_fkey" FOREIGN KEY ("installmentPaymentId") REFERENCES "InstallmentPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "PayoutAccount" ADD COLUMN     "recipientCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "PayoutRequest" ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "transferAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "transferCode" TEXT,
+ADD COLUMN     "transferProvider" TEXT;
+
+-- CreateIndex
+CREATE INDEX "PayoutRequest_paymentReference_idx" ON "PayoutRequest"("paymentReference");
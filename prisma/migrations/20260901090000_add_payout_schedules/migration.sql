@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "PayoutFrequency" AS ENUM ('AFTER_EVENT', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "PayoutRequest" ADD COLUMN     "automatic" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reserveHeld" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PayoutSchedule" (
+    "id" UUID NOT NULL,
+    "organizerId" UUID NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "frequency" "PayoutFrequency" NOT NULL DEFAULT 'AFTER_EVENT',
+    "delayDays" INTEGER NOT NULL DEFAULT 3,
+    "weekday" INTEGER NOT NULL DEFAULT 1,
+    "reservePercent" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayoutSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayoutAllocation" (
+    "id" UUID NOT NULL,
+    "payoutRequestId" UUID NOT NULL,
+    "eventId" UUID NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "PayoutAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutSchedule_organizerId_key" ON "PayoutSchedule"("organizerId");
+
+-- CreateIndex
+CREATE INDEX "PayoutSchedule_enabled_idx" ON "PayoutSchedule"("enabled");
+
+-- CreateIndex
+CREATE INDEX "PayoutAllocation_payoutRequestId_idx" ON "PayoutAllocation"("payoutRequestId");
+
+-- CreateIndex
+CREATE INDEX "PayoutAllocation_eventId_idx" ON "PayoutAllocation"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "PayoutSchedule" ADD CONSTRAINT "PayoutSchedule_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutAllocation" ADD CONSTRAINT "PayoutAllocation_payoutRequestId_fkey" FOREIGN KEY ("payoutRequestId") REFERENCES "PayoutRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutAllocation" ADD CONSTRAINT "PayoutAllocation_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
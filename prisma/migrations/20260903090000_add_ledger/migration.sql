@@ -0,0 +1,160 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('TICKET_SALE', 'SERVICE_FEE', 'REFUND', 'CHARGEBACK', 'PAYOUT', 'ADJUSTMENT');
+
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('ORGANIZER', 'PLATFORM', 'PROCESSOR', 'PAYOUT_CLEARING');
+
+-- CreateTable
+CREATE TABLE "LedgerTransaction" (
+    "id" UUID NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "organizerId" UUID NOT NULL,
+    "currency" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "orderId" UUID,
+    "payoutRequestId" UUID,
+    "createdById" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" UUID NOT NULL,
+    "transactionId" UUID NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "organizerId" UUID NOT NULL,
+    "eventId" UUID,
+    "currency" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerTransaction_key_key" ON "LedgerTransaction"("key");
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_organizerId_createdAt_idx" ON "LedgerTransaction"("organizerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_orderId_idx" ON "LedgerTransaction"("orderId");
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_payoutRequestId_idx" ON "LedgerTransaction"("payoutRequestId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_transactionId_idx" ON "LedgerEntry"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_organizerId_account_currency_idx" ON "LedgerEntry"("organizerId", "account", "currency");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_eventId_account_currency_idx" ON "LedgerEntry"("eventId", "account", "currency");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "LedgerTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: book the orders and payouts that existing balances are made of, with the
+-- same keys the application uses, so nothing is posted twice afterwards.
+
+-- Paid orders that were confirmed (imported orders never took payment through EventFi)
+CREATE TEMP TABLE "_ledger_orders" AS
+SELECT o."id", o."eventId", e."organizerId", o."currency", o."total", o."serviceFee", o."absorbedFee", o."refundedAmount",
+       COALESCE(o."confirmedAt", o."paidAt", o."createdAt") AS "soldAt", o."updatedAt" AS "refundedAt",
+       gen_random_uuid() AS "saleTx", gen_random_uuid() AS "feeTx", gen_random_uuid() AS "refundTx"
+FROM "BookingOrder" o
+JOIN "Event" e ON e."id" = o."eventId"
+WHERE (o."status" = 'CONFIRMED' OR (o."status" = 'REFUNDED' AND o."confirmedAt" IS NOT NULL))
+  AND o."paymentStatus" IN ('COMPLETED', 'REFUNDED')
+  AND o."total" > 0
+  AND o."paymentMethod" IS DISTINCT FROM 'imported';
+
+INSERT INTO "LedgerTransaction" ("id", "key", "type", "organizerId", "currency", "description", "orderId", "createdAt")
+SELECT "saleTx", 'order:' || "id" || ':sale', 'TICKET_SALE', "organizerId", "currency", 'Ticket sale', "id", "soldAt"
+FROM "_ledger_orders";
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "type", "organizerId", "eventId", "currency", "amount", "createdAt")
+SELECT gen_random_uuid(), o."saleTx", leg."account"::"LedgerAccount", 'TICKET_SALE', o."organizerId", o."eventId", o."currency", leg."amount", o."soldAt"
+FROM "_ledger_orders" o
+CROSS JOIN LATERAL (VALUES
+    ('ORGANIZER', o."total" - o."serviceFee"),
+    ('PLATFORM', o."serviceFee"),
+    ('PROCESSOR', -o."total")
+) AS leg("account", "amount")
+WHERE leg."amount" <> 0;
+
+INSERT INTO "LedgerTransaction" ("id", "key", "type", "organizerId", "currency", "description", "orderId", "createdAt")
+SELECT "feeTx", 'order:' || "id" || ':fee', 'SERVICE_FEE', "organizerId", "currency", 'Platform fee absorbed', "id", "soldAt"
+FROM "_ledger_orders"
+WHERE "absorbedFee" > 0;
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "type", "organizerId", "eventId", "currency", "amount", "createdAt")
+SELECT gen_random_uuid(), o."feeTx", leg."account"::"LedgerAccount", 'SERVICE_FEE', o."organizerId", o."eventId", o."currency", leg."amount", o."soldAt"
+FROM "_ledger_orders" o
+CROSS JOIN LATERAL (VALUES
+    ('ORGANIZER', -o."absorbedFee"),
+    ('PLATFORM', o."absorbedFee")
+) AS leg("account", "amount")
+WHERE o."absorbedFee" > 0;
+
+-- Refunds come out of the ticket price first; anything beyond it was the buyer-paid fee
+INSERT INTO "LedgerTransaction" ("id", "key", "type", "organizerId", "currency", "description", "orderId", "createdAt")
+SELECT "refundTx", 'order:' || "id" || ':refund', 'REFUND', "organizerId", "currency", 'Refund to buyer', "id", "refundedAt"
+FROM "_ledger_orders"
+WHERE "refundedAmount" > 0;
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "type", "organizerId", "eventId", "currency", "amount", "createdAt")
+SELECT gen_random_uuid(), o."refundTx", leg."account"::"LedgerAccount", 'REFUND', o."organizerId", o."eventId", o."currency", leg."amount", o."refundedAt"
+FROM "_ledger_orders" o
+CROSS JOIN LATERAL (VALUES
+    ('ORGANIZER', -LEAST(o."refundedAmount", o."total" - o."serviceFee")),
+    ('PLATFORM', -(o."refundedAmount" - LEAST(o."refundedAmount", o."total" - o."serviceFee"))),
+    ('PROCESSOR', o."refundedAmount")
+) AS leg("account", "amount")
+WHERE o."refundedAmount" > 0 AND leg."amount" <> 0;
+
+-- Payouts that still hold the organizer's money: requested, and sent once completed
+CREATE TEMP TABLE "_ledger_payouts" AS
+SELECT p."id", p."organizerId", p."eventId", p."currency", p."status", p."createdAt",
+       COALESCE((SELECT SUM(a."amount") FROM "PayoutAllocation" a WHERE a."payoutRequestId" = p."id"), p."netAmount") AS "netAmount",
+       COALESCE(p."completedAt", p."updatedAt") AS "sentAt", COALESCE(p."paymentReference", p."id"::text) AS "reference",
+       gen_random_uuid() AS "requestTx", gen_random_uuid() AS "sentTx"
+FROM "PayoutRequest" p
+WHERE p."status" IN ('PENDING', 'APPROVED', 'PROCESSING', 'COMPLETED');
+
+INSERT INTO "LedgerTransaction" ("id", "key", "type", "organizerId", "currency", "description", "payoutRequestId", "createdAt")
+SELECT "requestTx", 'payout:' || "id" || ':requested', 'PAYOUT', "organizerId", "currency", 'Payout requested', "id", "createdAt"
+FROM "_ledger_payouts";
+
+-- A weekly rollup is taken from each of its events' balances
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "type", "organizerId", "eventId", "currency", "amount", "createdAt")
+SELECT gen_random_uuid(), p."requestTx", 'ORGANIZER', 'PAYOUT', p."organizerId", COALESCE(a."eventId", p."eventId"), p."currency",
+       -COALESCE(a."amount", p."netAmount"), p."createdAt"
+FROM "_ledger_payouts" p
+LEFT JOIN "PayoutAllocation" a ON a."payoutRequestId" = p."id";
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "type", "organizerId", "eventId", "currency", "amount", "createdAt")
+SELECT gen_random_uuid(), p."requestTx", 'PAYOUT_CLEARING', 'PAYOUT', p."organizerId", p."eventId", p."currency", p."netAmount", p."createdAt"
+FROM "_ledger_payouts" p;
+
+INSERT INTO "LedgerTransaction" ("id", "key", "type", "organizerId", "currency", "description", "payoutRequestId", "createdAt")
+SELECT "sentTx", 'payout:' || "id" || ':sent:' || "reference", 'PAYOUT', "organizerId", "currency", 'Payout sent to bank', "id", "sentAt"
+FROM "_ledger_payouts"
+WHERE "status" = 'COMPLETED';
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "type", "organizerId", "eventId", "currency", "amount", "createdAt")
+SELECT gen_random_uuid(), p."sentTx", leg."account"::"LedgerAccount", 'PAYOUT', p."organizerId", p."eventId", p."currency", leg."amount", p."sentAt"
+FROM "_ledger_payouts" p
+CROSS JOIN LATERAL (VALUES
+    ('PAYOUT_CLEARING', -p."netAmount"),
+    ('PROCESSOR', p."netAmount")
+) AS leg("account", "amount")
+WHERE p."status" = 'COMPLETED';
+
+DROP TABLE "_ledger_orders";
+DROP TABLE "_ledger_payouts";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EventTeamMember" ADD COLUMN     "revenueSharePercent" DOUBLE PRECISION NOT NULL DEFAULT 0;
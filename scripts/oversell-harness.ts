@@ -0,0 +1,154 @@
+/**
+ * Concurrency harness: fire parallel bookings at a low-stock ticket and assert the
+ * reservation step never oversells.
+ *
+ * Creates a throwaway organizer, event, ticket and buyer accounts, runs
+ * BookingService.initiateOrder for every buyer at once, checks the resulting
+ * inventory, then deletes everything it created. Run it against a dev database only.
+ *
+ * Usage:
+ *   npx ts-node scripts/oversell-harness.ts
+ *   npx ts-node scripts/oversell-harness.ts --stock 5 --buyers 40 --qty 2
+ *
+ * Exits non-zero if any oversell is detected.
+ */
+
+import path from 'path';
+import { config as loadEnv } from 'dotenv';
+loadEnv({ path: path.resolve(__dirname, '../.env') });
+
+import { prisma } from '../src/v1/config/database';
+import { BookingService } from '../src/v1/services/booking.service';
+
+// ── CLI args ──────────────────────────────────────────────────────────────────
+const args = process.argv.slice(2);
+function numberArg(name: string, fallback: number): number {
+    const idx = args.indexOf(`--${name}`);
+    const value = idx >= 0 ? parseInt(args[idx + 1], 10) : NaN;
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+const STOCK  = numberArg('stock', 5);
+const BUYERS = numberArg('buyers', 25);
+const QTY    = numberArg('qty', 1);
+
+// ── Terminal colour helpers ───────────────────────────────────────────────────
+const bold  = (s: string) => `\x1b[1m${s}\x1b[0m`;
+const dim   = (s: string) => `\x1b[2m${s}\x1b[0m`;
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const red   = (s: string) => `\x1b[31m${s}\x1b[0m`;
+
+const runId = Date.now().toString(36);
+
+async function setup() {
+    const organizer = await prisma.user.create({
+        data: { email: `oversell-org-${runId}@example.test`, passwordHash: '', displayName: 'Oversell Harness' },
+    });
+
+    const startDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    const event = await prisma.event.create({
+        data: {
+            title: `Oversell harness ${runId}`,
+            description: 'Temporary event created by scripts/oversell-harness.ts',
+            category: 'TECH',
+            locationType: 'ONLINE',
+            startDate,
+            endDate: new Date(startDate.getTime() + 2 * 60 * 60 * 1000),
+            startTime: '18:00',
+            endTime: '20:00',
+            timezone: 'Africa/Lagos',
+            coverImage: '',
+            organizerId: organizer.id,
+        },
+    });
+
+    const ticket = await prisma.ticket.create({
+        data: {
+            name: 'Harness GA',
+            type: 'PAID',
+            price: 5000,
+            currency: 'NGN',
+            quantity: STOCK,
+            remaining: STOCK,
+            eventId: event.id,
+        },
+    });
+
+    const buyers = await Promise.all(
+        Array.from({ length: BUYERS }, (_, i) =>
+            prisma.user.create({
+                data: { email: `oversell-buyer-${runId}-${i}@example.test`, passwordHash: '' },
+                select: { id: true },
+            })
+        )
+    );
+
+    return { organizer, event, ticket, buyers };
+}
+
+async function teardown(ctx: Awaited<ReturnType<typeof setup>>) {
+    await prisma.bookingOrder.deleteMany({ where: { eventId: ctx.event.id } });
+    await prisma.ticket.deleteMany({ where: { eventId: ctx.event.id } });
+    await prisma.event.delete({ where: { id: ctx.event.id } });
+    await prisma.user.deleteMany({ where: { id: { in: [ctx.organizer.id, ...ctx.buyers.map(b => b.id)] } } });
+}
+
+async function main() {
+    console.log(bold(`\nOversell harness — stock ${STOCK}, ${BUYERS} buyers × ${QTY} ticket(s)\n`));
+
+    const ctx = await setup();
+    let failed = false;
+
+    try {
+        const results = await Promise.allSettled(
+            ctx.buyers.map(buyer =>
+                BookingService.initiateOrder(buyer.id, ctx.event.id, [{ ticketTypeId: ctx.ticket.id, quantity: QTY }])
+            )
+        );
+
+        const succeeded = results.filter(r => r.status === 'fulfilled').length;
+        const soldOut = results.filter(r => r.status === 'rejected' && /Not enough tickets/.test(r.reason?.message)).length;
+        const unexpected = results.filter(
+            (r): r is PromiseRejectedResult => r.status === 'rejected' && !/Not enough tickets/.test(r.reason?.message)
+        );
+
+        const ticket = await prisma.ticket.findUniqueOrThrow({ where: { id: ctx.ticket.id } });
+        const orders = await prisma.bookingOrder.count({ where: { eventId: ctx.event.id } });
+        const reserved = await prisma.orderItem.aggregate({
+            where: { ticketId: ctx.ticket.id },
+            _sum: { quantity: true },
+        });
+        const reservedQty = reserved._sum.quantity ?? 0;
+
+        console.log(`  ${dim('orders created      ')} ${succeeded}`);
+        console.log(`  ${dim('rejected (sold out) ')} ${soldOut}`);
+        console.log(`  ${dim('rejected (other)    ')} ${unexpected.length}`);
+        console.log(`  ${dim('tickets reserved    ')} ${reservedQty} / ${STOCK}`);
+        console.log(`  ${dim('remaining           ')} ${ticket.remaining}\n`);
+
+        for (const r of unexpected.slice(0, 5)) console.log(dim(`  ↳ ${r.reason?.message ?? r.reason}`));
+
+        const checks: [string, boolean][] = [
+            ['remaining never goes negative', ticket.remaining >= 0],
+            ['reserved tickets never exceed stock', reservedQty <= STOCK],
+            ['inventory matches reservations', ticket.remaining === STOCK - reservedQty],
+            ['no order persisted without its reservation', orders === succeeded],
+            ['stock is fully sold when demand exceeds it', BUYERS * QTY < STOCK || reservedQty > STOCK - QTY || unexpected.length > 0],
+        ];
+
+        for (const [label, ok] of checks) {
+            console.log(`  ${ok ? green('✔') : red('✘')} ${label}`);
+            if (!ok) failed = true;
+        }
+    } finally {
+        await teardown(ctx);
+        await prisma.$disconnect();
+    }
+
+    console.log(failed ? red('\nOversell detected\n') : green('\nNo oversell\n'));
+    process.exit(failed ? 1 : 0);
+}
+
+main().catch(err => {
+    console.error(red('Harness crashed:'), err);
+    process.exit(1);
+});
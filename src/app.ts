@@ -29,8 +29,12 @@ app.use(cors({
         : ['https://eventfi.live', 'https://www.eventfi.live', 'http://localhost:3000', 'http://localhost:3001'],
 }));
 
-// Body parsing with size limits
-app.use(express.json({ limit: '10mb' }));
+// Body parsing with size limits. The raw body is kept for webhook signature checks,
+// which must hash exactly the bytes the provider sent.
+app.use(express.json({
+    limit: '10mb',
+    verify: (req, _res, buf) => { (req as any).rawBody = buf.toString('utf8'); },
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Global rate limiter: 500 requests per 15 minutes per IP
@@ -9,10 +9,16 @@ import {
 import { initializeChatSocket } from './v1/websocket/chat.socket';
 import { startReminderScheduler } from './v1/jobs/reminder.scheduler';
 import { startInstallmentScheduler } from './v1/jobs/installment.scheduler';
+import { startOrderExpiryScheduler } from './v1/jobs/orderExpiry.scheduler';
+import { startWaitlistScheduler } from './v1/jobs/waitlist.scheduler';
+import { startReconciliationScheduler } from './v1/jobs/reconciliation.scheduler';
+import { startGroupBookingScheduler } from './v1/jobs/groupBooking.scheduler';
+import { startPayoutScheduler } from './v1/jobs/payout.scheduler';
 import { connectRedis, disconnectRedis } from './v1/config/redis';
 import { emailWorker } from './v1/jobs/email.worker';
 import { emailQueue } from './v1/jobs/email.queue';
 import { smsWorker } from './v1/jobs/sms.worker';
+import { refundWorker } from './v1/jobs/refund.worker';
 import { smsQueue } from './v1/jobs/sms.queue';
 
 const DEFAULT_PORT = 8000;
@@ -90,6 +96,7 @@ const gracefulShutdown = (signal: NodeJS.Signals) => {
           disconnectRedis(),
           emailWorker.close(),
           smsWorker.close(),
+          refundWorker.close(),
         ]);
       } catch (shutdownError) {
         console.error('Error during shutdown', shutdownError);
@@ -109,10 +116,16 @@ const bootstrap = async () => {
     server.listen(port);
     startReminderScheduler();
     startInstallmentScheduler();
+    startOrderExpiryScheduler();
+    startWaitlistScheduler();
+    startReconciliationScheduler();
+    startGroupBookingScheduler();
+    startPayoutScheduler();
     console.log(`📧 Email worker active (concurrency: ${emailWorker.concurrency})`);
     console.log(`📬 Email queue ready: ${emailQueue.name}`);
     console.log(`📱 SMS worker active (concurrency: ${smsWorker.concurrency})`);
     console.log(`📬 SMS queue ready: ${smsQueue.name}`);
+    console.log(`💸 Refund worker active (concurrency: ${refundWorker.concurrency})`);
   } catch (error) {
     console.error('Failed to bootstrap services', error);
     process.exit(1);
@@ -1,8 +1,14 @@
 import { Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { AdminRequest } from '../middlewares/admin.middleware';
+import { WebhookService } from '../services/webhook.service';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { FeeService } from '../services/fee.service';
+import { LedgerService } from '../services/ledger.service';
+import { BASE_CURRENCY, isSupportedCurrency, formatMoney } from '../utils/currency';
 
 // ─── helpers ─────────────────────────────────────────────────────────────────
 
@@ -19,6 +25,33 @@ function pageMeta(total: number, page: number, limit: number) {
     return { total, page, limit, totalPages: Math.ceil(total / limit) };
 }
 
+// Orders are priced in different currencies, so revenue is only ever summed within one.
+// serviceFees is everything the platform earned: the buyer-paid part plus what organizers absorbed.
+async function revenueByCurrency(where: Prisma.BookingOrderWhereInput) {
+    const groups = await prisma.bookingOrder.groupBy({
+        by:     ['currency'],
+        where,
+        _sum:   { total: true, serviceFee: true, absorbedFee: true },
+        _count: { _all: true },
+    });
+    return groups
+        .map(g => ({
+            currency:      g.currency,
+            revenue:       g._sum.total       ?? 0,
+            serviceFees:   (g._sum.serviceFee ?? 0) + (g._sum.absorbedFee ?? 0),
+            absorbedFees:  g._sum.absorbedFee ?? 0,
+            orders:        g._count._all,
+        }))
+        .sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+function sumByCurrency(orders: { total: number; currency: string }[]): Record<string, number> {
+    return orders.reduce<Record<string, number>>((acc, o) => {
+        acc[o.currency] = (acc[o.currency] ?? 0) + o.total;
+        return acc;
+    }, {});
+}
+
 // Naive CSV serialiser — keeps it dependency-free
 function toCSV(rows: Record<string, unknown>[]): string {
     if (!rows.length) return '';
@@ -116,10 +149,7 @@ export class AdminDashboardController {
             ] = await Promise.all([
                 prisma.user.count({ where: { deletedAt: null } }),
                 prisma.event.count(),
-                prisma.bookingOrder.aggregate({
-                    _sum: { total: true },
-                    where: { paymentStatus: 'COMPLETED' },
-                }),
+                revenueByCurrency({ paymentStatus: 'COMPLETED' }),
                 prisma.attendee.count(),
                 prisma.attendee.count({ where: { checkedIn: true } }),
                 prisma.activityEntry.count(),
@@ -136,7 +166,9 @@ export class AdminDashboardController {
                     totalEvents,
                     liveEvents,
                     endedEvents,
-                    totalRevenue:        totalRevenue._sum.total ?? 0,
+                    // Headline figure is in the base currency; every currency is broken out below
+                    totalRevenue:        totalRevenue.find(r => r.currency === BASE_CURRENCY)?.revenue ?? 0,
+                    revenueByCurrency:   totalRevenue,
                     totalRegistrations,
                     totalScannedIn,
                     turnoutRate:         totalRegistrations > 0
@@ -151,12 +183,16 @@ export class AdminDashboardController {
     }
 
     /**
-     * GET /admin/dashboard/revenue-chart?period=daily|weekly|monthly
-     * Returns an array of { label, revenue } for the sparkline / forecast chart.
+     * GET /admin/dashboard/revenue-chart?period=daily|weekly|monthly&currency=NGN
+     * Returns an array of { label, revenue } for the sparkline / forecast chart, in one currency.
      */
     static async getRevenueChart(req: Request, res: Response) {
         try {
             const period = (req.query.period as string) || 'monthly';
+            const currency = ((req.query.currency as string) || BASE_CURRENCY).toUpperCase();
+            if (!isSupportedCurrency(currency)) {
+                return res.status(400).json({ status: 'error', message: `Unsupported currency: ${currency}` });
+            }
             const now    = new Date();
 
             // Determine window and bucket
@@ -179,6 +215,7 @@ export class AdminDashboardController {
                     SUM(total)::float                                       AS revenue
                 FROM "BookingOrder"
                 WHERE "paymentStatus" = 'COMPLETED'
+                  AND "currency" = ${currency}
                   AND "paidAt" >= ${since}
                 GROUP BY DATE_TRUNC(${trunc}, "paidAt")
                 ORDER BY DATE_TRUNC(${trunc}, "paidAt") ASC
@@ -213,7 +250,7 @@ export class AdminDashboardController {
                     },
                     orders: {
                         where:   { paymentStatus: 'COMPLETED' },
-                        select:  { total: true },
+                        select:  { total: true, currency: true },
                     },
                 },
             });
@@ -226,7 +263,8 @@ export class AdminDashboardController {
                 category:       e.category,
                 startDate:      e.startDate,
                 registrations:  e.attendeesCount,
-                revenue:        e.orders.reduce((s, o) => s + o.total, 0),
+                revenue:        sumByCurrency(e.orders)[BASE_CURRENCY] ?? 0,
+                revenueByCurrency: sumByCurrency(e.orders),
                 organizer:      e.organizer,
             }));
 
@@ -472,14 +510,15 @@ export class AdminEventsController {
                 return res.status(404).json({ status: 'error', message: 'Event not found' });
             }
 
-            const revenue = await prisma.bookingOrder.aggregate({
-                _sum:  { total: true },
-                where: { eventId: req.params.id, paymentStatus: 'COMPLETED' },
-            });
+            const revenue = await revenueByCurrency({ eventId: req.params.id, paymentStatus: 'COMPLETED' });
 
             return res.status(200).json({
                 status: 'success',
-                data:   { ...event, totalRevenue: revenue._sum.total ?? 0 },
+                data:   {
+                    ...event,
+                    totalRevenue:      revenue.find(r => r.currency === BASE_CURRENCY)?.revenue ?? 0,
+                    revenueByCurrency: revenue,
+                },
             });
         } catch (error: any) {
             return res.status(500).json({ status: 'error', message: error.message });
@@ -567,6 +606,7 @@ export class AdminTransactionsController {
                         total:            true,
                         subtotal:         true,
                         serviceFee:       true,
+                        absorbedFee:      true,
                         currency:         true,
                         status:           true,
                         paymentStatus:    true,
@@ -595,14 +635,14 @@ export class AdminTransactionsController {
     /** GET /admin/transactions/stats */
     static async stats(_req: Request, res: Response) {
         try {
-            const [completed, pending, failed, refunded, totalRev, totalFees] = await Promise.all([
+            const [completed, pending, failed, refunded, byCurrency] = await Promise.all([
                 prisma.bookingOrder.count({ where: { paymentStatus: 'COMPLETED' } }),
                 prisma.bookingOrder.count({ where: { paymentStatus: 'PENDING' } }),
                 prisma.bookingOrder.count({ where: { paymentStatus: 'FAILED' } }),
                 prisma.bookingOrder.count({ where: { paymentStatus: 'REFUNDED' } }),
-                prisma.bookingOrder.aggregate({ _sum: { total: true },      where: { paymentStatus: 'COMPLETED' } }),
-                prisma.bookingOrder.aggregate({ _sum: { serviceFee: true }, where: { paymentStatus: 'COMPLETED' } }),
+                revenueByCurrency({ paymentStatus: 'COMPLETED' }),
             ]);
+            const base = byCurrency.find(r => r.currency === BASE_CURRENCY);
 
             return res.status(200).json({
                 status: 'success',
@@ -611,8 +651,9 @@ export class AdminTransactionsController {
                     pending,
                     failed,
                     refunded,
-                    totalRevenue:    totalRev._sum.total      ?? 0,
-                    totalServiceFees: totalFees._sum.serviceFee ?? 0,
+                    totalRevenue:     base?.revenue     ?? 0,
+                    totalServiceFees: base?.serviceFees ?? 0,
+                    revenueByCurrency: byCurrency,
                 },
             });
         } catch (error: any) {
@@ -656,10 +697,14 @@ export class AdminTransactionsController {
                 return res.status(400).json({ status: 'error', message: 'Only completed orders can be refunded' });
             }
 
-            const updated = await prisma.bookingOrder.update({
-                where: { id: req.params.id },
-                data:  { status: 'REFUNDED', paymentStatus: 'REFUNDED' },
-                select: { id: true, status: true, paymentStatus: true },
+            const updated = await prisma.$transaction(async (tx) => {
+                const refunded = await tx.bookingOrder.update({
+                    where: { id: order.id },
+                    data:  { status: 'REFUNDED', paymentStatus: 'REFUNDED', refundedAmount: order.total },
+                    select: { id: true, status: true, paymentStatus: true },
+                });
+                await LedgerService.recordRefund(tx, order.id, order.total, `order:${order.id}:admin-refund`);
+                return refunded;
             });
 
             return res.status(200).json({ status: 'success', data: updated });
@@ -759,21 +804,26 @@ export class AdminVendorsController {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 export class AdminReportsController {
-    /** GET /admin/reports/revenue?from=ISO&to=ISO */
+    /** GET /admin/reports/revenue?from=ISO&to=ISO&currency= */
     static async revenue(req: Request, res: Response) {
         try {
             const from = req.query.from ? new Date(req.query.from as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
             const to   = req.query.to   ? new Date(req.query.to   as string) : new Date();
+            const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : undefined;
 
-            const orders = await prisma.bookingOrder.findMany({
-                where: {
-                    paymentStatus: 'COMPLETED',
-                    paidAt:        { gte: from, lte: to },
-                },
+            const where: Prisma.BookingOrderWhereInput = {
+                paymentStatus: 'COMPLETED',
+                paidAt:        { gte: from, lte: to },
+                ...(currency && { currency }),
+            };
+
+            const [orders, totals] = await Promise.all([prisma.bookingOrder.findMany({
+                where,
                 select: {
                     id:               true,
                     total:            true,
                     serviceFee:       true,
+                    absorbedFee:      true,
                     currency:         true,
                     paymentMethod:    true,
                     paidAt:           true,
@@ -781,9 +831,9 @@ export class AdminReportsController {
                     user:  { select: { email: true } },
                 },
                 orderBy: { paidAt: 'desc' },
-            });
+            }), revenueByCurrency(where)]);
 
-            return res.status(200).json({ status: 'success', data: orders });
+            return res.status(200).json({ status: 'success', data: orders, totals });
         } catch (error: any) {
             return res.status(500).json({ status: 'error', message: error.message });
         }
@@ -867,7 +917,7 @@ export class AdminReportsController {
                             attendeesCount: true,
                             orders: {
                                 where:  { paymentStatus: 'COMPLETED' },
-                                select: { total: true },
+                                select: { total: true, currency: true },
                             },
                         },
                     },
@@ -875,7 +925,7 @@ export class AdminReportsController {
             });
 
             const data = organizers.map(u => {
-                const revenue = u.events.flatMap(e => e.orders).reduce((s, o) => s + o.total, 0);
+                const revenue = sumByCurrency(u.events.flatMap(e => e.orders));
                 const regs    = u.events.reduce((s, e) => s + e.attendeesCount, 0);
                 return {
                     id:          u.id,
@@ -884,7 +934,8 @@ export class AdminReportsController {
                     joinedAt:    u.createdAt,
                     totalEvents: u.events.length,
                     liveEvents:  u.events.filter(e => e.status === 'PUBLISHED').length,
-                    totalRevenue: revenue,
+                    totalRevenue: revenue[BASE_CURRENCY] ?? 0,
+                    revenueByCurrency: revenue,
                     totalRegistrations: regs,
                 };
             });
@@ -909,7 +960,7 @@ export class AdminReportsController {
                 const orders = await prisma.bookingOrder.findMany({
                     where:   { paymentStatus: 'COMPLETED' },
                     orderBy: { paidAt: 'desc' },
-                    select:  { id: true, total: true, serviceFee: true, currency: true, paymentMethod: true, paidAt: true, event: { select: { title: true } }, user: { select: { email: true } } },
+                    select:  { id: true, total: true, serviceFee: true, absorbedFee: true, currency: true, paymentMethod: true, paidAt: true, event: { select: { title: true } }, user: { select: { email: true } } },
                 });
                 rows = orders.map(o => ({
                     order_id:       o.id,
@@ -917,6 +968,7 @@ export class AdminReportsController {
                     buyer_email:    o.user.email,
                     total:          o.total,
                     service_fee:    o.serviceFee,
+                    absorbed_fee:   o.absorbedFee,
                     currency:       o.currency,
                     payment_method: o.paymentMethod ?? '',
                     paid_at:        o.paidAt?.toISOString() ?? '',
@@ -995,8 +1047,8 @@ export class AdminAIController {
                 recentGames,
             ] = await Promise.all([
                 prisma.user.count({ where: { deletedAt: null } }),
-                prisma.bookingOrder.aggregate({ _sum: { total: true }, where: { paymentStatus: 'COMPLETED', paidAt: { gte: thirtyDaysAgo } } }),
-                prisma.bookingOrder.aggregate({ _sum: { total: true }, where: { paymentStatus: 'COMPLETED', paidAt: { gte: sixtyDaysAgo, lt: thirtyDaysAgo } } }),
+                prisma.bookingOrder.aggregate({ _sum: { total: true }, where: { paymentStatus: 'COMPLETED', currency: BASE_CURRENCY, paidAt: { gte: thirtyDaysAgo } } }),
+                prisma.bookingOrder.aggregate({ _sum: { total: true }, where: { paymentStatus: 'COMPLETED', currency: BASE_CURRENCY, paidAt: { gte: sixtyDaysAgo, lt: thirtyDaysAgo } } }),
                 prisma.attendee.count({ where: { createdAt: { gte: thirtyDaysAgo } } }),
                 prisma.attendee.count({ where: { createdAt: { gte: sixtyDaysAgo, lt: thirtyDaysAgo } } }),
                 prisma.user.count({ where: { deletedAt: null, lastLoginAt: { lt: thirtyDaysAgo } } }),
@@ -1033,7 +1085,7 @@ export class AdminAIController {
                     title: revChangePct >= 0
                         ? `Revenue up ${revChangePct}% vs last month`
                         : `Revenue down ${Math.abs(revChangePct)}% vs last month`,
-                    description: `Total revenue this month: $${(revenueThisMonth / 1000).toFixed(1)}k. Top category: ${topCategory[0]?.category ?? 'N/A'}.`,
+                    description: `Total ${BASE_CURRENCY} revenue this month: ${formatMoney(Math.round(revenueThisMonth / 100) / 10, BASE_CURRENCY)}k. Top category: ${topCategory[0]?.category ?? 'N/A'}.`,
                     tag: 'Revenue',
                     tagColor: '#10B981',
                     time: 'Just now',
@@ -1145,3 +1197,222 @@ export class AdminAIController {
         }
     }
 }
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PAYMENT WEBHOOKS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class AdminWebhooksController {
+    /** GET /admin/webhooks?status=FAILED&provider=paystack&reference= */
+    static async list(req: Request, res: Response) {
+        try {
+            const { page, limit } = paginationParams(req.query);
+            const result = await WebhookService.list({
+                status:    req.query.status    as string | undefined,
+                provider:  req.query.provider  as string | undefined,
+                reference: req.query.reference as string | undefined,
+                page,
+                limit,
+            });
+            return res.status(200).json({ status: 'success', ...result });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') ? 400 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** GET /admin/webhooks/:webhookId — includes the stored payload */
+    static async getOne(req: Request, res: Response) {
+        try {
+            const event = await WebhookService.get(req.params.webhookId as string);
+            return res.status(200).json({ status: 'success', data: event });
+        } catch (error: any) {
+            const code = error.message.includes('not found') ? 404 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** POST /admin/webhooks/:webhookId/replay */
+    static async replay(req: AdminRequest, res: Response) {
+        try {
+            const event = await WebhookService.replay(req.params.webhookId as string, req.admin!.id);
+            return res.status(200).json({ status: 'success', data: event });
+        } catch (error: any) {
+            const code = error.message.includes('not found') ? 404 :
+                error.message.includes('already being processed') ? 409 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PAYMENT RECONCILIATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class AdminReconciliationController {
+    /** GET /admin/reconciliation/report?date=YYYY-MM-DD (default: last 24 hours) */
+    static async report(req: Request, res: Response) {
+        try {
+            const report = await ReconciliationService.getReport(req.query.date as string | undefined);
+            return res.status(200).json({ status: 'success', data: report });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') ? 400 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** GET /admin/reconciliation/discrepancies?type=PAID_AFTER_EXPIRY&resolved=false */
+    static async listDiscrepancies(req: Request, res: Response) {
+        try {
+            const { page, limit } = paginationParams(req.query);
+            const resolved = req.query.resolved === undefined ? undefined : req.query.resolved === 'true';
+            const result = await ReconciliationService.listDiscrepancies({
+                type: req.query.type as string | undefined,
+                resolved,
+                page,
+                limit,
+            });
+            return res.status(200).json({ status: 'success', ...result });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') ? 400 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** PATCH /admin/reconciliation/discrepancies/:discrepancyId/resolve  { note? } */
+    static async resolveDiscrepancy(req: AdminRequest, res: Response) {
+        try {
+            const discrepancy = await ReconciliationService.resolveDiscrepancy(
+                req.params.discrepancyId as string,
+                req.admin!.id,
+                req.body?.note
+            );
+            return res.status(200).json({ status: 'success', data: discrepancy });
+        } catch (error: any) {
+            const code = error.message.includes('not found') ? 404 :
+                error.message.includes('already resolved') ? 409 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** POST /admin/reconciliation/run — reconcile now instead of waiting for the next scheduled run */
+    static async run(_req: Request, res: Response) {
+        try {
+            const stats = await ReconciliationService.run();
+            return res.status(200).json({ status: 'success', data: stats });
+        } catch (error: any) {
+            return res.status(500).json({ status: 'error', message: error.message });
+        }
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SERVICE FEE OVERRIDES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class AdminFeeRulesController {
+    /** GET /admin/fee-rules?organizerId=&category= */
+    static async list(req: Request, res: Response) {
+        try {
+            const { page, limit } = paginationParams(req.query);
+            const result = await FeeService.listRules({
+                organizerId: req.query.organizerId as string | undefined,
+                category: req.query.category as string | undefined,
+                page,
+                limit,
+            });
+            return res.status(200).json({ status: 'success', ...result });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') ? 400 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** POST /admin/fee-rules  { organizerId | category, currency?, percent, flatFee?, note? } */
+    static async create(req: AdminRequest, res: Response) {
+        try {
+            const rule = await FeeService.createRule(req.admin!.id, req.body ?? {});
+            return res.status(201).json({ status: 'success', data: rule });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') ? 400 :
+                error.message.includes('not found') ? 404 :
+                error.message.includes('already exists') ? 409 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** PATCH /admin/fee-rules/:ruleId */
+    static async update(req: Request, res: Response) {
+        try {
+            const rule = await FeeService.updateRule(req.params.ruleId as string, req.body ?? {});
+            return res.status(200).json({ status: 'success', data: rule });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') ? 400 :
+                error.message.includes('not found') ? 404 :
+                error.message.includes('already exists') ? 409 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** DELETE /admin/fee-rules/:ruleId — events fall back to the category rule or platform default */
+    static async remove(req: Request, res: Response) {
+        try {
+            await FeeService.deleteRule(req.params.ruleId as string);
+            return res.status(200).json({ status: 'success', message: 'Fee rule deleted' });
+        } catch (error: any) {
+            const code = error.message.includes('not found') ? 404 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// LEDGER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class AdminLedgerController {
+    /** GET /admin/ledger/statement?organizerId&currency&eventId&from&to&page&limit */
+    static async statement(req: Request, res: Response) {
+        try {
+            const { organizerId, currency, eventId, from, to } = req.query as Record<string, string | undefined>;
+            if (!organizerId) return res.status(400).json({ status: 'error', message: 'organizerId is required' });
+            const { page, limit } = paginationParams(req.query);
+            const statement = await LedgerService.statement(organizerId, {
+                currency: currency ?? BASE_CURRENCY,
+                eventId,
+                from: from ? new Date(from) : undefined,
+                to: to ? new Date(to) : undefined,
+                page,
+                limit,
+            });
+            return res.status(200).json({ status: 'success', data: statement });
+        } catch (error: any) {
+            const code = error.message.startsWith('Unsupported') || error.message.startsWith('Invalid') ? 400 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** POST /admin/ledger/adjustments  { organizerId, eventId?, currency, amount, reason } */
+    static async adjust(req: AdminRequest, res: Response) {
+        try {
+            const transaction = await LedgerService.recordAdjustment(req.admin!.id, req.body ?? {});
+            return res.status(201).json({ status: 'success', data: transaction });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') ? 400 :
+                error.message.includes('not found') ? 404 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+
+    /** POST /admin/ledger/chargebacks  { orderId, amount, reference, note? } */
+    static async chargeback(req: AdminRequest, res: Response) {
+        try {
+            const transaction = await LedgerService.recordChargeback(req.admin!.id, req.body ?? {});
+            return res.status(201).json({ status: 'success', data: transaction });
+        } catch (error: any) {
+            const code = error.message.startsWith('Invalid') || error.message.includes('no sale') ? 400 :
+                error.message.includes('not found') ? 404 : 500;
+            return res.status(code).json({ status: 'error', message: error.message });
+        }
+    }
+}
@@ -1,6 +1,22 @@
 import { Request, Response } from 'express';
-import { BookingService } from '../services/booking.service';
+import { BookingService, TicketPurchaseError } from '../services/booking.service';
 import { PaymentService } from '../services/payment.service';
+import { WebhookService } from '../services/webhook.service';
+import { TicketQrService } from '../services/ticketQr.service';
+
+function qrFormat(value: unknown): 'png' | 'svg' | null {
+    if (value === undefined) return 'png';
+    return value === 'png' || value === 'svg' ? value : null;
+}
+
+async function sendQr(res: Response, payload: string, format: 'png' | 'svg') {
+    const image = await TicketQrService.render(payload, format);
+    // Served to <img> tags on other origins and in email clients
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.type(format === 'svg' ? 'image/svg+xml' : 'image/png');
+    return res.status(200).send(image);
+}
 
 export class BookingController {
     /**
@@ -9,7 +25,7 @@ export class BookingController {
     static async initiateOrder(req: Request, res: Response) {
         try {
             const userId = (req as any).user?.id;
-            const { eventId, items, guestEmail, installmentPlan } = req.body;
+            const { eventId, items, guestEmail, installmentPlan, groupBooking } = req.body;
 
             if (!eventId || !items || !items.length) {
                 return res.status(400).json({
@@ -25,17 +41,25 @@ export class BookingController {
                 });
             }
 
-            const order = await BookingService.initiateOrder(userId, eventId, items, guestEmail, installmentPlan);
+            const order = await BookingService.initiateOrder(userId, eventId, items, guestEmail, installmentPlan, undefined, groupBooking);
 
             return res.status(201).json({
                 status: 'success',
                 data: order,
             });
         } catch (error: any) {
+            if (error instanceof TicketPurchaseError) {
+                return res.status(error.code === 'TICKET_NOT_FOUND' ? 404 : 400).json({
+                    status: 'error',
+                    code: error.code,
+                    ticketId: error.ticketId,
+                    message: error.message,
+                });
+            }
             const statusCode = error.message.includes('not found') ? 404 :
-                error.message.includes('Not enough') || error.message.includes('Maximum') ||
                 error.message.includes('installment') || error.message.includes('Installment') ||
-                error.message.includes('too soon') ? 400 : 500;
+                error.message.includes('group booking') || error.message.includes('Group booking') ||
+                error.message.includes('same currency') || error.message.includes('too soon') ? 400 : 500;
             return res.status(statusCode).json({
                 status: 'error',
                 message: error.message || 'Failed to create order',
@@ -84,7 +108,8 @@ export class BookingController {
             });
         } catch (error: any) {
             const statusCode = error.message.includes('not found') ? 404 :
-                error.message.includes('Unauthorized') ? 403 : 500;
+                error.message.includes('Unauthorized') ? 403 :
+                error.message.startsWith('Invalid answer') ? 400 : 500;
             return res.status(statusCode).json({
                 status: 'error',
                 message: error.message || 'Failed to update attendees',
@@ -108,13 +133,39 @@ export class BookingController {
                 data: order,
             });
         } catch (error: any) {
-            return res.status(400).json({
+            const statusCode = error.message.includes('Order not found') ? 404 :
+                error.message.includes('Unauthorized') ? 403 : 400;
+            return res.status(statusCode).json({
                 status: 'error',
                 message: error.message || 'Failed to apply promo code',
             });
         }
     }
 
+    /**
+     * DELETE /bookings/:orderId/promo - Remove applied promo code
+     */
+    static async removePromoCode(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const { orderId } = req.params;
+
+            const order = await BookingService.removePromoCode(orderId, userId);
+
+            return res.status(200).json({
+                status: 'success',
+                data: order,
+            });
+        } catch (error: any) {
+            const statusCode = error.message.includes('not found') ? 404 :
+                error.message.includes('Unauthorized') ? 403 : 400;
+            return res.status(statusCode).json({
+                status: 'error',
+                message: error.message || 'Failed to remove promo code',
+            });
+        }
+    }
+
     /**
      * DELETE /bookings/:orderId - Cancel pending order
      */
@@ -158,7 +209,7 @@ export class BookingController {
             const message = error.message ?? error?.response?.data?.message ?? 'Failed to initialize payment';
             console.error('[initializePayment] error:', message, error);
             const statusCode = message.includes('not found') ? 404 :
-                message.includes('free') ? 400 : 500;
+                message.includes('free') || message.includes('Cannot pay') ? 400 : 500;
             return res.status(statusCode).json({
                 status: 'error',
                 message,
@@ -245,6 +296,104 @@ export class BookingController {
         }
     }
 
+    /**
+     * GET /bookings/:orderId/group - Get the shares of a group booking
+     */
+    static async getGroupBooking(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const { orderId } = req.params;
+
+            const result = await BookingService.getGroupBooking(orderId, userId);
+
+            return res.status(200).json({
+                status: 'success',
+                data: result,
+            });
+        } catch (error: any) {
+            const statusCode = error.message.includes('not found') ? 404 :
+                error.message.includes('Unauthorized') ? 403 :
+                error.message.includes('not a group booking') ? 400 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch group booking',
+            });
+        }
+    }
+
+    /**
+     * POST /bookings/:orderId/group/shares/:shareId/pay - Initialize payment for a share on the initiator's behalf
+     */
+    static async payGroupShareForOrder(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const { orderId, shareId } = req.params;
+            const { callbackUrl } = req.body;
+
+            const result = await BookingService.payGroupShareForOrder(orderId, shareId, userId, callbackUrl);
+
+            return res.status(200).json({
+                status: 'success',
+                data: result,
+            });
+        } catch (error: any) {
+            const message = error.message ?? 'Failed to initialize share payment';
+            const statusCode = message.includes('not found') ? 404 :
+                message.includes('Unauthorized') ? 403 :
+                message.includes('already been paid') || message.includes('no longer accepting') ||
+                message.includes('not a group booking') || message.includes('cancelled') ? 400 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message,
+            });
+        }
+    }
+
+    /**
+     * GET /bookings/group-shares/:token - Get a group booking share from its invite link
+     */
+    static async getGroupShare(req: Request, res: Response) {
+        try {
+            const result = await BookingService.getGroupShare(req.params.token);
+
+            return res.status(200).json({
+                status: 'success',
+                data: result,
+            });
+        } catch (error: any) {
+            const statusCode = error.message.includes('not found') ? 404 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch share',
+            });
+        }
+    }
+
+    /**
+     * POST /bookings/group-shares/:token/pay - Initialize payment for a share from its invite link
+     */
+    static async payGroupShare(req: Request, res: Response) {
+        try {
+            const { callbackUrl } = req.body;
+
+            const result = await BookingService.payGroupShare(req.params.token, callbackUrl);
+
+            return res.status(200).json({
+                status: 'success',
+                data: result,
+            });
+        } catch (error: any) {
+            const message = error.message ?? 'Failed to initialize share payment';
+            const statusCode = message.includes('not found') ? 404 :
+                message.includes('already been paid') || message.includes('no longer accepting') ||
+                message.includes('cancelled') ? 400 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message,
+            });
+        }
+    }
+
     /**
      * POST /bookings/:orderId/confirm - Confirm order (free tickets)
      */
@@ -262,7 +411,8 @@ export class BookingController {
             });
         } catch (error: any) {
             const statusCode = error.message.includes('not found') ? 404 :
-                error.message.includes('Payment') ? 402 : 500;
+                error.message.includes('Payment') ? 402 :
+                error.message.startsWith('Invalid answer') ? 400 : 500;
             return res.status(statusCode).json({
                 status: 'error',
                 message: error.message || 'Failed to confirm order',
@@ -271,29 +421,30 @@ export class BookingController {
     }
 
     /**
-     * POST /webhooks/payment - Paystack payment webhook
-     * Verifies HMAC-SHA512 signature before processing.
-     * Header: x-paystack-signature: {hex_digest}
+     * POST /webhooks/:provider - Payment provider webhook (paystack, flutterwave, fake)
+     * POST /webhooks/payment   - Legacy Paystack URL
+     * The provider verifies its own signature scheme; the event is then logged and processed once.
      */
     static async paymentWebhook(req: Request, res: Response) {
+        let provider;
         try {
-            const signatureHeader = req.headers['x-paystack-signature'] as string;
-            if (!signatureHeader) {
-                return res.status(401).json({ status: 'error', message: 'Missing webhook signature' });
-            }
+            provider = PaymentService.provider((req.params.provider as string | undefined) ?? 'paystack');
+        } catch (error: any) {
+            return res.status(404).json({ status: 'error', message: error.message });
+        }
 
-            const rawBody = JSON.stringify(req.body);
-            const isValid = PaymentService.verifyWebhookSignature(rawBody, signatureHeader);
-            if (!isValid) {
+        try {
+            const rawBody: string = (req as any).rawBody ?? JSON.stringify(req.body);
+            if (!provider.verifyWebhook(rawBody, req.headers)) {
                 return res.status(401).json({ status: 'error', message: 'Invalid webhook signature' });
             }
 
-            const { event, data } = req.body;
-            const result = await BookingService.handlePaymentWebhook(event, data);
+            const result = await WebhookService.receive(provider, req.body);
 
             return res.status(200).json(result);
         } catch (error: any) {
-            // Always return 200 to prevent Paystack retry storms on internal errors
+            // Always return 200 to prevent provider retry storms on internal errors —
+            // the failure is on the webhook log, where an admin can replay it
             console.error('Webhook processing error:', error.message);
             return res.status(200).json({ received: true });
         }
@@ -370,4 +521,70 @@ export class BookingController {
             });
         }
     }
+
+    /**
+     * GET /tickets/:ticketId/qr - Render the ticket's signed QR code (?format=png|svg)
+     */
+    static async getTicketQr(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const format = qrFormat(req.query.format);
+            if (!format) return res.status(400).json({ status: 'error', message: 'format must be png or svg' });
+
+            const ticket = await BookingService.getTicketDetails(req.params.ticketId, userId);
+            if (!ticket.qrPayload) {
+                return res.status(400).json({ status: 'error', message: 'This ticket is no longer valid' });
+            }
+
+            return sendQr(res, ticket.qrPayload, format);
+        } catch (error: any) {
+            const statusCode = error.message.includes('not found') ? 404 :
+                error.message.includes('Unauthorized') ? 403 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message: error.message || 'Failed to render ticket QR code',
+            });
+        }
+    }
+
+    /**
+     * GET /tickets/qr?payload=&format= - Render a signed payload as an image (for emails)
+     */
+    static async renderQr(req: Request, res: Response) {
+        try {
+            const format = qrFormat(req.query.format);
+            if (!format) return res.status(400).json({ status: 'error', message: 'format must be png or svg' });
+            if (typeof req.query.payload !== 'string') {
+                return res.status(400).json({ status: 'error', message: 'payload is required' });
+            }
+
+            // Only payloads we signed are rendered, so this can't be used as an open QR generator
+            TicketQrService.verify(req.query.payload);
+
+            return sendQr(res, req.query.payload, format);
+        } catch (error: any) {
+            const statusCode = error.message.includes('Invalid') || error.message.includes('expired') ? 400 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message: error.message || 'Failed to render QR code',
+            });
+        }
+    }
+
+    /**
+     * GET /tickets/qr/verification-key - Public key scanner apps use to verify tickets offline
+     */
+    static async getVerificationKey(req: Request, res: Response) {
+        try {
+            return res.status(200).json({
+                status: 'success',
+                data: TicketQrService.getVerificationKey(),
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch verification key',
+            });
+        }
+    }
 }
@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { CheckInScanOutcome } from '@prisma/client';
+import { CheckInService } from '../services/checkIn.service';
+
+function statusFromError(error: any): number {
+    const message: string = error.message || '';
+    if (message.includes('not found')) return 404;
+    if (message.includes('Unauthorized') || message.includes('permissions')) return 403;
+    return 500;
+}
+
+const SCAN_OUTCOMES = Object.values(CheckInScanOutcome) as string[];
+
+export class CheckInController {
+    /**
+     * GET /events/:eventId/check-in/manifest - Attendee manifest for offline scanners
+     */
+    static async manifest(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await CheckInService.getManifest(req.params.eventId, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to build check-in manifest'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/check-in/sync - Upload a batch of offline scans from one device
+     */
+    static async sync(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { deviceId, deviceName, scans } = req.body;
+            const data = await CheckInService.syncScans(req.params.eventId, userId, { deviceId, deviceName }, scans);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to sync check-ins'
+            });
+        }
+    }
+
+    /**
+     * GET /events/:eventId/check-in/devices - Scan totals per scanner device
+     */
+    static async devices(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await CheckInService.listDevices(req.params.eventId, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch scanner devices'
+            });
+        }
+    }
+
+    /**
+     * GET /events/:eventId/check-in/scans - Scan audit trail (?deviceId=&outcome=&page=&limit=)
+     */
+    static async scans(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const rawOutcome = typeof req.query.outcome === 'string' ? req.query.outcome.toUpperCase() : undefined;
+            if (rawOutcome && !SCAN_OUTCOMES.includes(rawOutcome)) {
+                return res.status(400).json({ status: 'error', message: `outcome must be one of: ${SCAN_OUTCOMES.join(', ').toLowerCase()}` });
+            }
+
+            const data = await CheckInService.listScans(req.params.eventId, userId, {
+                deviceId: typeof req.query.deviceId === 'string' ? req.query.deviceId : undefined,
+                outcome: rawOutcome as CheckInScanOutcome | undefined,
+                page: parseInt(req.query.page as string) || 1,
+                limit: Math.min(parseInt(req.query.limit as string) || 50, 200),
+            });
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch check-in scans'
+            });
+        }
+    }
+}
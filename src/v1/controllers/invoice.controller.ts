@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { InvoiceService } from '../services/invoice.service';
+
+function statusFromError(error: any): number {
+    const message: string = error.message || '';
+    if (message.includes('not found')) return 404;
+    if (message.includes('Unauthorized')) return 403;
+    return 500;
+}
+
+export class InvoiceController {
+    /**
+     * GET /users/me/orders/:orderId/invoices - Receipts issued for an order
+     */
+    static async listForOrder(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+
+            const data = await InvoiceService.listForOrder(req.params.orderId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch receipts'
+            });
+        }
+    }
+
+    /**
+     * GET /users/me/orders/:orderId/invoices/:invoiceId/pdf - Download a receipt as PDF
+     */
+    static async download(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { orderId, invoiceId } = req.params;
+
+            const { filename, content } = await InvoiceService.getPdf(invoiceId, userId, orderId);
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            return res.status(200).send(content);
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to download receipt'
+            });
+        }
+    }
+}
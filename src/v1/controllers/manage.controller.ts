@@ -64,8 +64,11 @@ export class ManageController {
             const search = req.query.search as string;
             const status = req.query.status as string;
             const ticketType = req.query.ticketType as string;
+            // ?questionId=&answer= filters on a registration answer
+            const questionId = req.query.questionId as string | undefined;
+            const answer = questionId ? { questionId, value: req.query.answer as string | undefined } : undefined;
 
-            const data = await ManageService.getAttendees(eventId, userId, page, limit, search, status, ticketType);
+            const data = await ManageService.getAttendees(eventId, userId, page, limit, search, status, ticketType, answer);
 
             return res.status(200).json({
                 status: 'success',
@@ -135,9 +138,40 @@ export class ManageController {
         try {
             const userId = (req as any).user.id;
             const { eventId, attendeeId } = req.params;
-            const { method, ticketCode } = req.body;
+            const { method, ticketCode, qrPayload } = req.body;
 
-            const data = await ManageService.checkInAttendee(eventId, attendeeId, userId, method || 'manual', ticketCode);
+            const data = await ManageService.checkInAttendee(
+                eventId, attendeeId, userId, qrPayload ? 'qr_scan' : method || 'manual', ticketCode, qrPayload
+            );
+
+            return res.status(200).json({
+                status: 'success',
+                data
+            });
+        } catch (error: any) {
+            const statusCode = error.message.includes('not found') ? 404 :
+                error.message.includes('already') ? 400 :
+                    error.message.includes('Invalid') || error.message.includes('expired') || error.message.includes('cancelled') ? 400 :
+                        error.message.includes('Unauthorized') ? 403 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message: error.message || 'Failed to check-in attendee'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/check-in/scan - Check in by scanning a signed ticket QR code
+     */
+    static async checkInByQr(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId } = req.params;
+            if (typeof req.body.qrPayload !== 'string') {
+                return res.status(400).json({ status: 'error', message: 'qrPayload is required' });
+            }
+
+            const data = await ManageService.checkInByQr(eventId, userId, req.body.qrPayload);
 
             return res.status(200).json({
                 status: 'success',
@@ -146,7 +180,7 @@ export class ManageController {
         } catch (error: any) {
             const statusCode = error.message.includes('not found') ? 404 :
                 error.message.includes('already') ? 400 :
-                    error.message.includes('Invalid') ? 400 :
+                    error.message.includes('Invalid') || error.message.includes('expired') || error.message.includes('cancelled') ? 400 :
                         error.message.includes('Unauthorized') ? 403 : 500;
             return res.status(statusCode).json({
                 status: 'error',
@@ -350,6 +384,31 @@ export class ManageController {
         }
     }
 
+    /**
+     * PUT /events/:eventId/team/revenue-shares - Split the event's revenue across team members
+     */
+    static async setRevenueShares(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId } = req.params;
+
+            const data = await TeamService.setRevenueShares(eventId, userId, req.body.shares);
+
+            return res.status(200).json({
+                status: 'success',
+                data
+            });
+        } catch (error: any) {
+            const statusCode = error.message.includes('not found') ? 404 :
+                error.message.includes('Unauthorized') || error.message.includes('permissions') ? 403 :
+                error.message.includes('cannot') || error.message.includes('only be listed') || error.message.includes('does not belong') ? 400 : 500;
+            return res.status(statusCode).json({
+                status: 'error',
+                message: error.message || 'Failed to update revenue shares'
+            });
+        }
+    }
+
     /**
      * POST /events/:eventId/duplicate - Duplicate event
      */
@@ -382,7 +441,7 @@ export class ManageController {
         try {
             const userId = (req as any).user.id;
             const { eventId } = req.params;
-            const { reason, notifyAttendees, refundPolicy } = req.body;
+            const { reason, notifyAttendees, refundPolicy, refundPercent } = req.body;
 
             if (!reason) {
                 return res.status(400).json({
@@ -396,7 +455,8 @@ export class ManageController {
                 userId,
                 reason,
                 notifyAttendees !== false,
-                refundPolicy || 'full'
+                refundPolicy || 'full',
+                typeof refundPercent === 'number' ? refundPercent : undefined
             );
 
             return res.status(200).json({
@@ -405,7 +465,7 @@ export class ManageController {
             });
         } catch (error: any) {
             const statusCode = error.message.includes('not found') ? 404 :
-                error.message.includes('already') ? 400 :
+                error.message.includes('already') || error.message.includes('refundPercent') ? 400 :
                     error.message.includes('Unauthorized') || error.message.includes('permissions') ? 403 : 500;
             return res.status(statusCode).json({
                 status: 'error',
@@ -1,6 +1,9 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middlewares/auth.middleware';
 import { PayoutService } from '../services/payout.service';
+import { LedgerService } from '../services/ledger.service';
+import { StatementService } from '../services/statement.service';
+import { BASE_CURRENCY } from '../utils/currency';
 
 export class PayoutController {
     // ─── Payout account ───────────────────────────────────────────────────────
@@ -44,17 +47,29 @@ export class PayoutController {
     }
 
     /**
-     * Called after the frontend has confirmed the bank account name via Paystack's
-     * Resolve Account API.  The frontend passes back the verified name; this endpoint
-     * cross-checks it against the stored accountName and marks the account verified.
+     * Look up the account holder's name with the bank, so the organizer can confirm it
+     * before registering the account.
      */
-    static async verifyAccount(req: AuthRequest, res: Response) {
+    static async resolveAccount(req: AuthRequest, res: Response) {
         try {
-            const { verifiedName } = req.body;
-            if (!verifiedName?.trim()) {
-                return res.status(400).json({ status: 'error', message: 'verifiedName is required.' });
+            const { accountNumber, bankCode } = req.query as { accountNumber?: string; bankCode?: string };
+            if (!accountNumber || !bankCode) {
+                return res.status(400).json({ status: 'error', message: 'accountNumber and bankCode are required.' });
             }
-            const account = await PayoutService.verifyAccount(req.user.id, verifiedName);
+            const account = await PayoutService.resolveAccount(accountNumber, bankCode);
+            res.json({ status: 'success', data: account });
+        } catch (e: any) {
+            res.status(400).json({ status: 'error', message: e.message });
+        }
+    }
+
+    /**
+     * Verify the saved account: the server resolves the account name with the bank and
+     * checks it against the name the organizer registered.
+     */
+    static async verifyAccount(req: AuthRequest, res: Response) {
+        try {
+            const account = await PayoutService.verifyAccount(req.user.id);
             res.json({ status: 'success', data: account });
         } catch (e: any) {
             res.status(400).json({ status: 'error', message: e.message });
@@ -65,8 +80,8 @@ export class PayoutController {
 
     static async getBalance(req: AuthRequest, res: Response) {
         try {
-            const { eventId } = req.query as { eventId?: string };
-            const balance = await PayoutService.getBalance(req.user.id, eventId);
+            const { eventId, currency } = req.query as { eventId?: string; currency?: string };
+            const balance = await PayoutService.getBalance(req.user.id, eventId, currency?.toUpperCase());
             res.json({ status: 'success', data: balance });
         } catch (e: any) {
             const status = e.message === 'Unauthorized' ? 403 : 400;
@@ -74,17 +89,77 @@ export class PayoutController {
         }
     }
 
+    /**
+     * The organizer's ledger: every sale, fee, refund, chargeback, payout and adjustment
+     * in one currency, with the running balance after each line.
+     */
+    static async getStatement(req: AuthRequest, res: Response) {
+        try {
+            const { currency, eventId, from, to } = req.query as Record<string, string | undefined>;
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+            const statement = await LedgerService.statement(req.user.id, {
+                currency: currency ?? BASE_CURRENCY,
+                eventId,
+                from: from ? new Date(from) : undefined,
+                to: to ? new Date(to) : undefined,
+                page,
+                limit,
+            });
+            res.json({ status: 'success', data: statement });
+        } catch (e: any) {
+            res.status(400).json({ status: 'error', message: e.message });
+        }
+    }
+
+    static async exportStatement(req: AuthRequest, res: Response) {
+        try {
+            const { currency, month, from, to, format } = req.query as Record<string, string | undefined>;
+            if (format && format !== 'csv' && format !== 'pdf') throw new Error('Invalid format: use csv or pdf');
+            const file = await StatementService.export(
+                req.user.id,
+                { currency: currency ?? BASE_CURRENCY, month, from, to },
+                format === 'pdf' ? 'pdf' : 'csv'
+            );
+            res.setHeader('Content-Type', file.contentType);
+            res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+            res.status(200).send(file.content);
+        } catch (e: any) {
+            res.status(400).json({ status: 'error', message: e.message });
+        }
+    }
+
+    // ─── Payout schedule ──────────────────────────────────────────────────────
+
+    static async getSchedule(req: AuthRequest, res: Response) {
+        try {
+            const schedule = await PayoutService.getSchedule(req.user.id);
+            res.json({ status: 'success', data: schedule });
+        } catch (e: any) {
+            res.status(400).json({ status: 'error', message: e.message });
+        }
+    }
+
+    static async updateSchedule(req: AuthRequest, res: Response) {
+        try {
+            const schedule = await PayoutService.updateSchedule(req.user.id, req.body);
+            res.json({ status: 'success', data: schedule });
+        } catch (e: any) {
+            res.status(400).json({ status: 'error', message: e.message });
+        }
+    }
+
     // ─── Payout requests ──────────────────────────────────────────────────────
 
     static async requestPayout(req: AuthRequest, res: Response) {
         try {
-            const { eventId } = req.body;
+            const { eventId, currency } = req.body;
             if (!eventId) {
                 return res.status(400).json({ status: 'error', message: 'eventId is required.' });
             }
             const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim()
                 ?? req.socket.remoteAddress;
-            const payout = await PayoutService.requestPayout(req.user.id, eventId, ip);
+            const payout = await PayoutService.requestPayout(req.user.id, eventId, ip, currency?.toUpperCase());
             res.status(201).json({ status: 'success', data: payout });
         } catch (e: any) {
             res.status(400).json({ status: 'error', message: e.message });
@@ -156,6 +231,15 @@ export class AdminPayoutController {
         }
     }
 
+    static async disburse(req: AuthRequest, res: Response) {
+        try {
+            const payout = await PayoutService.adminDisbursePayout(req.params.payoutId);
+            res.json({ status: 'success', data: payout });
+        } catch (e: any) {
+            res.status(400).json({ status: 'error', message: e.message });
+        }
+    }
+
     static async complete(req: AuthRequest, res: Response) {
         try {
             const { paymentReference } = req.body;
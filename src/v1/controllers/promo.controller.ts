@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { PromoService } from '../services/promo.service';
+
+function statusFromError(error: any): number {
+    const message: string = error.message || '';
+    if (message.includes('not found')) return 404;
+    if (message.includes('Unauthorized') || message.includes('permissions') || message.includes('Only the event organizer')) return 403;
+    if (message.includes('already exists')) return 409;
+    if (message.includes('cannot') || message.includes('do not belong')) return 400;
+    return 500;
+}
+
+export class PromoController {
+    /**
+     * GET /events/:eventId/promo-codes - List promo codes usable on the event
+     */
+    static async list(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId } = req.params;
+
+            const data = await PromoService.listPromoCodes(eventId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch promo codes'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/promo-codes - Create a promo code
+     */
+    static async create(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId } = req.params;
+
+            const data = await PromoService.createPromoCode(eventId, userId, req.body);
+
+            return res.status(201).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to create promo code'
+            });
+        }
+    }
+
+    /**
+     * PATCH /events/:eventId/promo-codes/:promoId - Update a promo code
+     */
+    static async update(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, promoId } = req.params;
+
+            const data = await PromoService.updatePromoCode(eventId, promoId, userId, req.body);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to update promo code'
+            });
+        }
+    }
+
+    /**
+     * DELETE /events/:eventId/promo-codes/:promoId - Delete (or deactivate) a promo code
+     */
+    static async remove(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, promoId } = req.params;
+
+            const data = await PromoService.deletePromoCode(eventId, promoId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to delete promo code'
+            });
+        }
+    }
+}
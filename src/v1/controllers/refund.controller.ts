@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { RefundRequestStatus } from '@prisma/client';
+import { RefundService } from '../services/refund.service';
+
+function statusFromError(error: any): number {
+    const message: string = error.message || '';
+    if (message.includes('not found')) return 404;
+    if (message.includes('Unauthorized') || message.includes('permissions')) return 403;
+    if (message.includes('processed automatically')) return 400;
+    if (message.includes('already been requested') || message.includes('cannot be approved') || message.includes('cannot be denied')) return 409;
+    if (message.includes('could not be sent')) return 502;
+    if (message.includes('Only') || message.includes('cannot') || message.includes('does not offer')
+        || message.includes('closed') || message.includes('nothing to refund')) return 400;
+    return 500;
+}
+
+const REFUND_STATUSES = Object.values(RefundRequestStatus) as string[];
+
+export class RefundController {
+    // ─── Attendee ─────────────────────────────────────────────────────────────
+
+    /**
+     * GET /users/me/orders/:orderId/refund - Refund status and current quote for an order
+     */
+    static async getForOrder(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await RefundService.getOrderRefund(req.params.orderId, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch refund'
+            });
+        }
+    }
+
+    /**
+     * POST /users/me/orders/:orderId/refund - Request a refund for a confirmed order
+     */
+    static async request(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await RefundService.requestRefund(req.params.orderId, userId, req.body.reason);
+            return res.status(201).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to request refund'
+            });
+        }
+    }
+
+    // ─── Organizer ────────────────────────────────────────────────────────────
+
+    /**
+     * GET /events/:eventId/refund-policy - Current refund policy
+     */
+    static async getPolicy(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await RefundService.getPolicy(req.params.eventId, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch refund policy'
+            });
+        }
+    }
+
+    /**
+     * PUT /events/:eventId/refund-policy - Set the refund policy
+     */
+    static async updatePolicy(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await RefundService.updatePolicy(req.params.eventId, userId, req.body);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to update refund policy'
+            });
+        }
+    }
+
+    /**
+     * GET /events/:eventId/refund-requests - List refund requests (?status=)
+     */
+    static async list(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const rawStatus = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+            if (rawStatus && !REFUND_STATUSES.includes(rawStatus)) {
+                return res.status(400).json({ status: 'error', message: `status must be one of: ${REFUND_STATUSES.join(', ').toLowerCase()}` });
+            }
+
+            const data = await RefundService.listRequests(req.params.eventId, userId, rawStatus as RefundRequestStatus | undefined);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch refund requests'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/refund-requests/:requestId/approve - Approve (or retry) a refund
+     */
+    static async approve(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, requestId } = req.params;
+            const data = await RefundService.approveRequest(eventId, requestId, userId, req.body.note);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to approve refund'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/refund-requests/:requestId/deny - Decline a refund request
+     */
+    static async deny(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, requestId } = req.params;
+            const data = await RefundService.denyRequest(eventId, requestId, userId, req.body.note);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to deny refund'
+            });
+        }
+    }
+
+    /**
+     * GET /events/:eventId/refunds/progress - Refund progress after cancelling the event
+     */
+    static async cancellationProgress(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await RefundService.getCancellationProgress(req.params.eventId, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch refund progress'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/refunds/retry - Re-queue failed cancellation refunds
+     */
+    static async retryFailed(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await RefundService.retryFailedCancellationRefunds(req.params.eventId, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to retry refunds'
+            });
+        }
+    }
+}
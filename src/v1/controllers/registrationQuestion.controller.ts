@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { RegistrationQuestionService } from '../services/registrationQuestion.service';
+
+function statusFromError(error: any): number {
+    const message: string = error.message || '';
+    if (message.includes('not found')) return 404;
+    if (message.includes('Unauthorized') || message.includes('permissions')) return 403;
+    if (message.includes('cannot') || message.includes('do not belong')) return 400;
+    return 500;
+}
+
+export class RegistrationQuestionController {
+    /**
+     * GET /events/:id/registration-questions - Questions asked at checkout (?ticketId= to narrow)
+     */
+    static async list(req: Request, res: Response) {
+        try {
+            const ticketId = typeof req.query.ticketId === 'string' ? req.query.ticketId : undefined;
+
+            const data = await RegistrationQuestionService.list(req.params.id, ticketId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch registration questions'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/registration-questions - Add a question
+     */
+    static async create(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId } = req.params;
+
+            const data = await RegistrationQuestionService.create(eventId, userId, req.body);
+
+            return res.status(201).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to create registration question'
+            });
+        }
+    }
+
+    /**
+     * PATCH /events/:eventId/registration-questions/:questionId - Update a question
+     */
+    static async update(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, questionId } = req.params;
+
+            const data = await RegistrationQuestionService.update(eventId, questionId, userId, req.body);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to update registration question'
+            });
+        }
+    }
+
+    /**
+     * DELETE /events/:eventId/registration-questions/:questionId - Delete a question and its answers
+     */
+    static async remove(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, questionId } = req.params;
+
+            const data = await RegistrationQuestionService.remove(eventId, questionId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to delete registration question'
+            });
+        }
+    }
+}
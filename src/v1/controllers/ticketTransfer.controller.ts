@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import { TicketTransferService } from '../services/ticketTransfer.service';
+
+function statusFromError(error: any): number {
+    const message: string = error.message || '';
+    if (message.includes('not found')) return 404;
+    if (message.includes('Unauthorized') || message.includes('different email')) return 403;
+    if (message.includes('already been') || message.includes('just changed')) return 409;
+    if (message.includes('expired')) return 410;
+    if (message.includes('Only') || message.includes('cannot') || message.includes('not allow')
+        || message.includes('closed') || message.includes('no longer')) return 400;
+    return 500;
+}
+
+export class TicketTransferController {
+    /**
+     * POST /tickets/:ticketId/transfer - Offer a ticket to someone else by email
+     */
+    static async initiate(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await TicketTransferService.initiate(req.params.ticketId, userId, req.body.email, req.body.name);
+            return res.status(201).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to start transfer'
+            });
+        }
+    }
+
+    /**
+     * DELETE /tickets/:ticketId/transfer - Withdraw a pending transfer
+     */
+    static async cancel(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await TicketTransferService.cancel(req.params.ticketId, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to cancel transfer'
+            });
+        }
+    }
+
+    /**
+     * GET /tickets/transfers - Pending transfers sent and received by the caller
+     */
+    static async listMine(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await TicketTransferService.listForUser(userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch transfers'
+            });
+        }
+    }
+
+    /**
+     * GET /tickets/transfers/:token - Transfer details for the accept screen
+     */
+    static async getByToken(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await TicketTransferService.getByToken(req.params.token, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch transfer'
+            });
+        }
+    }
+
+    /**
+     * POST /tickets/transfers/:token/accept - Accept a ticket and receive a new ticket code
+     */
+    static async accept(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await TicketTransferService.accept(req.params.token, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to accept transfer'
+            });
+        }
+    }
+
+    /**
+     * POST /tickets/transfers/:token/decline - Turn a transfer down
+     */
+    static async decline(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const data = await TicketTransferService.decline(req.params.token, userId);
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to decline transfer'
+            });
+        }
+    }
+}
@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { WaitlistStatus } from '@prisma/client';
+import { WaitlistService } from '../services/waitlist.service';
+import { BookingService, TicketPurchaseError } from '../services/booking.service';
+
+function statusFromError(error: any): number {
+    const message: string = error.message || '';
+    if (message.includes('not found')) return 404;
+    if (error instanceof TicketPurchaseError) return 400;
+    if (message.includes('Unauthorized') || message.includes('permissions')) return 403;
+    if (message.includes('already on the waitlist') || message.includes('just changed')) return 409;
+    if (message.includes('expired')) return 410;
+    if (message.includes('Not enough') || message.includes('still available') || message.includes('Maximum')
+        || message.includes('no longer') || message.includes('not on the waitlist') || message.includes('Only')) return 400;
+    return 500;
+}
+
+const WAITLIST_STATUSES = Object.values(WaitlistStatus) as string[];
+
+export class WaitlistController {
+    /**
+     * GET /events/:id/tickets/:ticketId/waitlist - The caller's waitlist status for a ticket type
+     */
+    static async getStatus(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { id, ticketId } = req.params;
+
+            const data = await WaitlistService.getStatus(id, ticketId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch waitlist status'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:id/tickets/:ticketId/waitlist - Join the waitlist for a sold-out ticket type
+     */
+    static async join(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { id, ticketId } = req.params;
+
+            const data = await WaitlistService.join(id, ticketId, userId, req.body.quantity);
+
+            return res.status(201).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to join waitlist'
+            });
+        }
+    }
+
+    /**
+     * DELETE /events/:id/tickets/:ticketId/waitlist - Leave the waitlist
+     */
+    static async leave(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { id, ticketId } = req.params;
+
+            const data = await WaitlistService.leave(id, ticketId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to leave waitlist'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:id/tickets/:ticketId/waitlist/claim - Turn a waitlist offer into a pending order
+     */
+    static async claim(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { id, ticketId } = req.params;
+
+            const data = await BookingService.claimWaitlistOffer(id, ticketId, userId, req.body.token);
+
+            return res.status(201).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                ...(error instanceof TicketPurchaseError && { code: error.code }),
+                message: error.message || 'Failed to claim waitlist offer'
+            });
+        }
+    }
+
+    // ─── Organizer management ─────────────────────────────────────────────────
+
+    /**
+     * GET /events/:eventId/waitlist - List the event's waitlist (?ticketId=&status=)
+     */
+    static async list(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId } = req.params;
+            const ticketId = typeof req.query.ticketId === 'string' ? req.query.ticketId : undefined;
+            const rawStatus = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+            if (rawStatus && !WAITLIST_STATUSES.includes(rawStatus)) {
+                return res.status(400).json({ status: 'error', message: `status must be one of: ${WAITLIST_STATUSES.join(', ').toLowerCase()}` });
+            }
+
+            const data = await WaitlistService.listForEvent(eventId, userId, {
+                ticketId,
+                status: rawStatus as WaitlistStatus | undefined,
+            });
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to fetch waitlist'
+            });
+        }
+    }
+
+    /**
+     * POST /events/:eventId/waitlist/:entryId/offer - Send an entry a claim offer out of queue order
+     */
+    static async offer(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, entryId } = req.params;
+
+            const data = await WaitlistService.offerEntry(eventId, entryId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to send waitlist offer'
+            });
+        }
+    }
+
+    /**
+     * DELETE /events/:eventId/waitlist/:entryId - Remove an entry from the waitlist
+     */
+    static async remove(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { eventId, entryId } = req.params;
+
+            const data = await WaitlistService.removeEntry(eventId, entryId, userId);
+
+            return res.status(200).json({ status: 'success', data });
+        } catch (error: any) {
+            return res.status(statusFromError(error)).json({
+                status: 'error',
+                message: error.message || 'Failed to remove waitlist entry'
+            });
+        }
+    }
+}
@@ -2,6 +2,8 @@ import { Worker, Job } from 'bullmq';
 import { EMAIL_QUEUE_NAME } from './email.queue';
 import { EmailService } from '../services/email.service';
 import { EmailTemplates } from '../utils/email.templates';
+import { InvoiceService } from '../services/invoice.service';
+import { formatMoney } from '../utils/currency';
 
 function buildConnection() {
     const url = process.env.REDIS_URL;
@@ -26,7 +28,7 @@ function buildConnection() {
 const connection = buildConnection();
 
 interface EmailJobData {
-    type: 'welcome' | 'password-reset' | 'ticket-confirmation' | 'announcement' | 'team-invitation' | 'event-cancellation' | 'email-verification' | 'payout-requested' | 'payout-approved' | 'payout-rejected' | 'payout-completed' | 'installment-reminder' | 'installment-overdue' | 'installment-defaulted';
+    type: 'welcome' | 'password-reset' | 'ticket-confirmation' | 'announcement' | 'team-invitation' | 'event-cancellation' | 'email-verification' | 'payout-requested' | 'payout-approved' | 'payout-rejected' | 'payout-completed' | 'installment-reminder' | 'installment-overdue' | 'installment-defaulted' | 'waitlist-offer' | 'refund-approved' | 'refund-denied' | 'ticket-transfer-offer' | 'ticket-transfer-completed' | 'group-booking-invite' | 'payment-receipt' | 'reconciliation-report';
     to: string;
     [key: string]: any;
 }
@@ -64,8 +66,11 @@ export const emailWorker = new Worker<EmailJobData>(
                         organizerName: data.organizerName,
                         organizerAvatarUrl: data.organizerAvatarUrl,
                         organizerProfileUrl: data.organizerProfileUrl,
+                        receiptNumber: data.invoiceNumber,
                     });
-                    await EmailService.send(to, template.subject, template.html, template.text);
+                    // The buyer's copy carries the order receipt; the PDF is rendered here rather than queued
+                    const attachments = data.invoiceId ? [await InvoiceService.getPdf(data.invoiceId)] : undefined;
+                    await EmailService.send(to, template.subject, template.html, template.text, attachments);
                     break;
                 }
 
@@ -200,6 +205,105 @@ export const emailWorker = new Worker<EmailJobData>(
                     break;
                 }
 
+                case 'waitlist-offer': {
+                    const template = EmailTemplates.waitlistOffer({
+                        eventTitle: data.eventTitle,
+                        ticketName: data.ticketName,
+                        quantity: data.quantity,
+                        claimUrl: data.claimUrl,
+                        expiresAt: data.expiresAt,
+                        recipientName: data.name,
+                    });
+                    await EmailService.send(to, template.subject, template.html, template.text);
+                    break;
+                }
+
+                case 'refund-approved': {
+                    const template = EmailTemplates.refundApproved({
+                        eventTitle: data.eventTitle,
+                        currency: data.currency,
+                        amount: data.amount,
+                        recipientName: data.name,
+                        eventCancelled: data.eventCancelled,
+                    });
+                    await EmailService.send(to, template.subject, template.html, template.text);
+                    break;
+                }
+
+                case 'refund-denied': {
+                    const template = EmailTemplates.refundDenied({
+                        eventTitle: data.eventTitle,
+                        note: data.note,
+                        recipientName: data.name,
+                    });
+                    await EmailService.send(to, template.subject, template.html, template.text);
+                    break;
+                }
+
+                case 'ticket-transfer-offer': {
+                    const template = EmailTemplates.ticketTransferOffer({
+                        eventTitle: data.eventTitle,
+                        ticketName: data.ticketName,
+                        senderName: data.senderName,
+                        acceptUrl: data.acceptUrl,
+                        expiresAt: data.expiresAt,
+                        recipientName: data.name,
+                    });
+                    await EmailService.send(to, template.subject, template.html, template.text);
+                    break;
+                }
+
+                case 'group-booking-invite': {
+                    const template = EmailTemplates.groupBookingInvite({
+                        eventTitle: data.eventTitle,
+                        eventDate: data.eventDate,
+                        ticketName: data.ticketName,
+                        initiatorName: data.initiatorName,
+                        amount: data.amount,
+                        payUrl: data.payUrl,
+                        deadline: data.deadline,
+                        recipientName: data.name,
+                    });
+                    await EmailService.send(to, template.subject, template.html, template.text);
+                    break;
+                }
+
+                case 'ticket-transfer-completed': {
+                    const template = EmailTemplates.ticketTransferCompleted({
+                        eventTitle: data.eventTitle,
+                        ticketName: data.ticketName,
+                        counterpartName: data.counterpartName,
+                        ticketCode: data.ticketCode,
+                        recipientName: data.name,
+                    });
+                    await EmailService.send(to, template.subject, template.html, template.text);
+                    break;
+                }
+
+                case 'payment-receipt': {
+                    const template = EmailTemplates.paymentReceipt({
+                        eventTitle: data.eventTitle,
+                        invoiceNumber: data.invoiceNumber,
+                        amount: formatMoney(data.amount, data.currency),
+                        installment: data.installment,
+                        recipientName: data.name,
+                    });
+                    const receipt = await InvoiceService.getPdf(data.invoiceId);
+                    await EmailService.send(to, template.subject, template.html, template.text, [receipt]);
+                    break;
+                }
+
+                case 'reconciliation-report': {
+                    const template = EmailTemplates.reconciliationReport({
+                        date: data.date,
+                        byType: data.byType,
+                        unresolved: data.unresolved,
+                        items: data.items,
+                    });
+                    await EmailService.send(to, template.subject, template.html, template.text);
+                    break;
+                }
+
                 default:
                     console.warn(`[EmailWorker] Unknown job type: ${type}`);
             }
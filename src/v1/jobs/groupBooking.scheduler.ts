@@ -0,0 +1,63 @@
+import cron from 'node-cron';
+import { prisma } from '../config/database';
+import { BookingService } from '../services/booking.service';
+
+const ONE_MINUTE_MS = 60 * 1000;
+const BATCH_SIZE = 200;
+
+/**
+ * Extra time given to a group whose last checkout was opened shortly before the
+ * deadline, so a share paid in the final minutes isn't released while its
+ * charge.success webhook is still on the way.
+ */
+const PAYMENT_GRACE_MINUTES = 30;
+
+/**
+ * Close OPEN group bookings whose deadline has passed: unpaid seats go back to
+ * inventory and the order keeps only the seats that were paid for.
+ */
+async function sweepGroupDeadlines() {
+    const now = Date.now();
+    const processingCutoff = new Date(now - PAYMENT_GRACE_MINUTES * ONE_MINUTE_MS);
+
+    const due = await prisma.groupBooking.findMany({
+        where: {
+            status: 'OPEN',
+            deadline: { lt: new Date(now) },
+            OR: [
+                { deadline: { lt: processingCutoff } },
+                { shares: { none: { status: 'PENDING', paymentReference: { not: null }, updatedAt: { gte: processingCutoff } } } },
+            ],
+        },
+        select: { bookingOrderId: true },
+        orderBy: { deadline: 'asc' },
+        take: BATCH_SIZE,
+    });
+
+    let closed = 0;
+    for (const group of due) {
+        try {
+            if (await BookingService.closeGroupBooking(group.bookingOrderId)) closed++;
+        } catch (err) {
+            console.error(`[GroupBooking] Failed to close group booking for order ${group.bookingOrderId}:`, err);
+        }
+    }
+
+    if (closed > 0) console.log(`[GroupBooking] Closed ${closed} group booking(s) and released their unpaid seats`);
+}
+
+/**
+ * Start the group booking deadline cron job.
+ * Call this once from index.ts after the server starts.
+ */
+export function startGroupBookingScheduler() {
+    cron.schedule('*/5 * * * *', async () => {
+        try {
+            await sweepGroupDeadlines();
+        } catch (err) {
+            console.error('[GroupBooking] Sweep job error:', err);
+        }
+    });
+
+    console.log('⏰ Group booking scheduler started (every 5 min)');
+}
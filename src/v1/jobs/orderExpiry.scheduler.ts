@@ -0,0 +1,71 @@
+import cron from 'node-cron';
+import { prisma } from '../config/database';
+import { BookingService } from '../services/booking.service';
+
+const ONE_MINUTE_MS = 60 * 1000;
+const BATCH_SIZE = 200;
+
+/**
+ * Extra time given to orders whose provider checkout has been opened. A buyer who
+ * pays in the last minute of the reservation can have their charge.success webhook
+ * land after expiresAt — expiring the order then would take their money and
+ * release their seat.
+ */
+const PAYMENT_GRACE_MINUTES = 30;
+
+/**
+ * Expire PENDING orders whose reservation window has lapsed and hand their tickets
+ * back to inventory. Orders on an ACTIVE installment plan are skipped — those are
+ * governed by the installment scheduler's overdue/default sweeps instead — and so are
+ * group bookings, which hold their seats until the group deadline.
+ */
+async function sweepExpiredOrders() {
+    const now = Date.now();
+    const cutoff = new Date(now);
+    const processingCutoff = new Date(now - PAYMENT_GRACE_MINUTES * ONE_MINUTE_MS);
+
+    const stale = await prisma.bookingOrder.findMany({
+        where: {
+            status: 'PENDING',
+            OR: [
+                { paymentStatus: { in: ['PENDING', 'FAILED'] }, expiresAt: { lt: cutoff } },
+                { paymentStatus: 'PROCESSING', expiresAt: { lt: processingCutoff } },
+            ],
+            AND: [
+                { OR: [{ installmentPlan: { is: null } }, { installmentPlan: { status: { not: 'ACTIVE' } } }] },
+                { groupBooking: { is: null } },
+            ],
+        },
+        select: { id: true },
+        orderBy: { expiresAt: 'asc' },
+        take: BATCH_SIZE,
+    });
+
+    let expired = 0;
+    for (const order of stale) {
+        try {
+            if (await BookingService.expireOrder(order.id)) expired++;
+        } catch (err) {
+            console.error(`[OrderExpiry] Failed to expire order ${order.id}:`, err);
+        }
+    }
+
+    if (expired > 0) console.log(`[OrderExpiry] Expired ${expired} unpaid order(s) and released their tickets`);
+}
+
+/**
+ * Start the order expiry cron job.
+ * Call this once from index.ts after the server starts.
+ */
+export function startOrderExpiryScheduler() {
+    // Reservations last 30 minutes — sweeping every 5 keeps abandoned stock out of circulation briefly
+    cron.schedule('*/5 * * * *', async () => {
+        try {
+            await sweepExpiredOrders();
+        } catch (err) {
+            console.error('[OrderExpiry] Sweep job error:', err);
+        }
+    });
+
+    console.log('⏰ Order expiry scheduler started (every 5 min)');
+}
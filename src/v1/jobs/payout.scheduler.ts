@@ -0,0 +1,33 @@
+import cron from 'node-cron';
+import { PayoutService } from '../services/payout.service';
+
+// Transfers can make a run slow — never start a second one alongside
+let running = false;
+
+/**
+ * Start the automatic payout cron job: once a day, every organizer who opted in to a
+ * payout schedule gets payouts for their ended events.
+ * Call this once from index.ts after the server starts.
+ */
+export function startPayoutScheduler() {
+    // 08:00 UTC — after the morning reconciliation report
+    cron.schedule('0 8 * * *', async () => {
+        if (running) return;
+        running = true;
+        try {
+            const stats = await PayoutService.runSchedules();
+            if (stats.created || stats.errors) {
+                console.log(
+                    `[Payout] Scheduled run for ${stats.organizers} organizer(s): ${stats.created} payout(s) created, ` +
+                    `${stats.autoApproved} approved automatically, ${stats.forReview} for review, ${stats.errors} error(s)`
+                );
+            }
+        } catch (err) {
+            console.error('[Payout] Scheduled run error:', err);
+        } finally {
+            running = false;
+        }
+    }, { timezone: 'UTC' });
+
+    console.log('⏰ Payout scheduler started (daily at 08:00 UTC)');
+}
@@ -0,0 +1,41 @@
+import cron from 'node-cron';
+import { ReconciliationService } from '../services/reconciliation.service';
+
+// A run can outlast its interval when a provider is slow — never start a second one alongside
+let running = false;
+
+/**
+ * Start the payment reconciliation cron jobs: re-verify payments whose webhook never
+ * arrived, and send admins the previous day's discrepancy report every morning.
+ * Call this once from index.ts after the server starts.
+ */
+export function startReconciliationScheduler() {
+    cron.schedule('*/15 * * * *', async () => {
+        if (running) return;
+        running = true;
+        try {
+            const stats = await ReconciliationService.run();
+            if (stats.settled || stats.failed || stats.discrepancies || stats.errors) {
+                console.log(
+                    `[Reconciliation] Checked ${stats.checked}: ${stats.settled} settled, ${stats.failed} failed, ` +
+                    `${stats.discrepancies} discrepancie(s), ${stats.errors} error(s)`
+                );
+            }
+        } catch (err) {
+            console.error('[Reconciliation] Run error:', err);
+        } finally {
+            running = false;
+        }
+    });
+
+    // 07:00 UTC — covers the previous UTC day
+    cron.schedule('0 7 * * *', async () => {
+        try {
+            await ReconciliationService.sendDailyReport();
+        } catch (err) {
+            console.error('[Reconciliation] Daily report error:', err);
+        }
+    }, { timezone: 'UTC' });
+
+    console.log('⏰ Payment reconciliation scheduler started (every 15 min, report daily at 07:00 UTC)');
+}
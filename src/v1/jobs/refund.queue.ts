@@ -0,0 +1,37 @@
+import { Queue } from 'bullmq';
+
+function buildConnection() {
+    const url = process.env.REDIS_URL;
+    if (url) {
+        const parsed = new URL(url);
+        return {
+            host: parsed.hostname,
+            port: parseInt(parsed.port) || 6379,
+            password: parsed.password || undefined,
+            username: parsed.username || undefined,
+            tls: parsed.protocol === 'rediss:' ? {} : undefined,
+        };
+    }
+    return {
+        host: process.env.REDIS_HOST || '127.0.0.1',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        password: process.env.REDIS_PASSWORD || undefined,
+        tls: process.env.REDIS_TLS === 'true' ? {} : undefined,
+    };
+}
+
+export const REFUND_QUEUE_NAME = 'refund-queue';
+
+export const refundQueue = new Queue(REFUND_QUEUE_NAME, {
+    connection: buildConnection(),
+    defaultJobOptions: {
+        // Paystack outages tend to last minutes, not seconds — back off accordingly
+        attempts: 6,
+        backoff: {
+            type: 'exponential',
+            delay: 30_000,
+        },
+        removeOnComplete: true,
+        removeOnFail: { count: 500 }, // failed refunds also stay visible on the RefundRequest row
+    },
+});
@@ -0,0 +1,55 @@
+import { Worker, Job } from 'bullmq';
+import { REFUND_QUEUE_NAME } from './refund.queue';
+import { RefundService } from '../services/refund.service';
+
+function buildConnection() {
+    const url = process.env.REDIS_URL;
+    if (url) {
+        const parsed = new URL(url);
+        return {
+            host: parsed.hostname,
+            port: parseInt(parsed.port) || 6379,
+            password: parsed.password || undefined,
+            username: parsed.username || undefined,
+            tls: parsed.protocol === 'rediss:' ? {} : undefined,
+        };
+    }
+    return {
+        host: process.env.REDIS_HOST || '127.0.0.1',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        password: process.env.REDIS_PASSWORD || undefined,
+        tls: process.env.REDIS_TLS === 'true' ? {} : undefined,
+    };
+}
+
+const connection = buildConnection();
+
+interface RefundJobData {
+    type: 'event-cancellation';
+    refundRequestId: string;
+}
+
+export const refundWorker = new Worker<RefundJobData>(
+    REFUND_QUEUE_NAME,
+    async (job: Job<RefundJobData>) => {
+        const { type, refundRequestId } = job.data;
+
+        console.log(`[RefundWorker] Processing job ${job.id} of type ${type} (attempt ${job.attemptsMade + 1})`);
+
+        try {
+            await RefundService.processQueuedRefund(refundRequestId);
+            console.log(`[RefundWorker] Job ${job.id} completed`);
+        } catch (error) {
+            console.error(`[RefundWorker] Job ${job.id} failed`, error);
+            throw error;
+        }
+    },
+    {
+        connection,
+        concurrency: 2,
+        limiter: {
+            max: 5,
+            duration: 1000,
+        }
+    }
+);
@@ -0,0 +1,20 @@
+import cron from 'node-cron';
+import { WaitlistService } from '../services/waitlist.service';
+
+/**
+ * Start the waitlist offer expiry cron job: lapsed claim offers give their held
+ * tickets to the next person in line.
+ * Call this once from index.ts after the server starts.
+ */
+export function startWaitlistScheduler() {
+    cron.schedule('*/5 * * * *', async () => {
+        try {
+            const expired = await WaitlistService.expireOffers();
+            if (expired > 0) console.log(`[WaitlistScheduler] Expired ${expired} unclaimed offer(s)`);
+        } catch (err) {
+            console.error('[WaitlistScheduler] Offer expiry job error:', err);
+        }
+    });
+
+    console.log('⏰ Waitlist offer scheduler started (every 5 min)');
+}
@@ -9,6 +9,10 @@ import {
     AdminVendorsController,
     AdminReportsController,
     AdminAIController,
+    AdminWebhooksController,
+    AdminReconciliationController,
+    AdminFeeRulesController,
+    AdminLedgerController,
 } from '../controllers/admin.controller';
 import { AdminPayoutController } from '../controllers/payout.controller';
 
@@ -61,12 +65,39 @@ router.get('/ai/forecast', requireAdmin, AdminAIController.getForecast);
 
 // ─── Payouts ─────────────────────────────────────────────────────────────────
 // GET    /admin/payouts?status=PENDING       → list all requests (filterable)
-// PATCH  /admin/payouts/:payoutId/approve    → approve + optional note
+// PATCH  /admin/payouts/:payoutId/approve    → approve + optional note, then send the transfer
+// PATCH  /admin/payouts/:payoutId/disburse   → retry the transfer after a failed attempt
 // PATCH  /admin/payouts/:payoutId/reject     → reject with mandatory reason
-// PATCH  /admin/payouts/:payoutId/complete   → mark completed with bank reference
+// PATCH  /admin/payouts/:payoutId/complete   → mark paid outside the transfer API, with bank reference
 router.get('/payouts', requireAdmin, AdminPayoutController.list);
 router.patch('/payouts/:payoutId/approve', requireAdmin, AdminPayoutController.approve);
+router.patch('/payouts/:payoutId/disburse', requireAdmin, AdminPayoutController.disburse);
 router.patch('/payouts/:payoutId/reject', requireAdmin, AdminPayoutController.reject);
 router.patch('/payouts/:payoutId/complete', requireAdmin, AdminPayoutController.complete);
 
+// ─── Ledger ──────────────────────────────────────────────────────────────────
+// GET    /admin/ledger/statement?organizerId=&currency= → an organizer's account, line by line
+// POST   /admin/ledger/adjustments          → credit or debit an organizer, with a reason
+// POST   /admin/ledger/chargebacks          → book a chargeback against an order
+router.get('/ledger/statement', requireAdmin, AdminLedgerController.statement);
+router.post('/ledger/adjustments', requireAdmin, AdminLedgerController.adjust);
+router.post('/ledger/chargebacks', requireAdmin, AdminLedgerController.chargeback);
+
+// ─── Payment webhooks ────────────────────────────────────────────────────────
+router.get('/webhooks', requireAdmin, AdminWebhooksController.list);
+router.get('/webhooks/:webhookId', requireAdmin, AdminWebhooksController.getOne);
+router.post('/webhooks/:webhookId/replay', requireAdmin, AdminWebhooksController.replay);
+
+// ─── Payment reconciliation ──────────────────────────────────────────────────
+router.get('/reconciliation/report', requireAdmin, AdminReconciliationController.report);
+router.get('/reconciliation/discrepancies', requireAdmin, AdminReconciliationController.listDiscrepancies);
+router.patch('/reconciliation/discrepancies/:discrepancyId/resolve', requireAdmin, AdminReconciliationController.resolveDiscrepancy);
+router.post('/reconciliation/run', requireAdmin, AdminReconciliationController.run);
+
+// ─── Service fees ────────────────────────────────────────────────────────────
+router.get('/fee-rules', requireAdmin, AdminFeeRulesController.list);
+router.post('/fee-rules', requireAdmin, AdminFeeRulesController.create);
+router.patch('/fee-rules/:ruleId', requireAdmin, AdminFeeRulesController.update);
+router.delete('/fee-rules/:ruleId', requireAdmin, AdminFeeRulesController.remove);
+
 export default router;
@@ -8,6 +8,7 @@ import {
     applyPromoSchema,
     initializePaymentSchema,
     payInstallmentSchema,
+    payGroupShareSchema,
     confirmOrderSchema,
 } from '../validations/booking.schema';
 
@@ -18,8 +19,13 @@ router.post('/initiate', optionalAuth, validate(initiateBookingSchema), BookingC
 router.get('/:orderId', optionalAuth, BookingController.getOrder);
 router.patch('/:orderId/attendees', optionalAuth, validate(updateAttendeesSchema), BookingController.updateAttendees);
 router.post('/:orderId/promo', optionalAuth, validate(applyPromoSchema), BookingController.applyPromoCode);
+router.delete('/:orderId/promo', optionalAuth, BookingController.removePromoCode);
 router.delete('/:orderId', optionalAuth, BookingController.cancelOrder);
 
+// Group booking invite links — the token stands in for sign-in
+router.get('/group-shares/:token', BookingController.getGroupShare);
+router.post('/group-shares/:token/pay', validate(payGroupShareSchema), BookingController.payGroupShare);
+
 // Payment endpoints
 router.post('/:orderId/pay', optionalAuth, validate(initializePaymentSchema), BookingController.initializePayment);
 router.post('/:orderId/confirm', optionalAuth, validate(confirmOrderSchema), BookingController.confirmOrder);
@@ -29,4 +35,8 @@ router.get('/:orderId/installments', optionalAuth, BookingController.getInstallm
 router.post('/:orderId/installments/:installmentId/pay', optionalAuth, validate(payInstallmentSchema), BookingController.payInstallment);
 router.post('/:orderId/reinstate', optionalAuth, BookingController.reinstateOrder);
 
+// Group booking endpoints
+router.get('/:orderId/group', optionalAuth, BookingController.getGroupBooking);
+router.post('/:orderId/group/shares/:shareId/pay', optionalAuth, validate(payGroupShareSchema), BookingController.payGroupShareForOrder);
+
 export default router;
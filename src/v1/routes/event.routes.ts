@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { EventController } from '../controllers/event.controller';
 import { ReviewController } from '../controllers/review.controller';
+import { RegistrationQuestionController } from '../controllers/registrationQuestion.controller';
 import { authenticate } from '../middlewares/auth.middleware';
 import { validate } from '../middlewares/validate.middleware';
 import { createEventSchema, updateEventSchema, reviewSchema } from '../validations/event.schema';
@@ -50,6 +51,9 @@ router.get('/:id/tickets/availability', async (req, res) => {
     }
 });
 
+// Registration questions shown at checkout
+router.get('/:id/registration-questions', setCache(60), RegistrationQuestionController.list);
+
 // Reviews
 router.get('/:id/reviews', setCache(120), ReviewController.getReviews);
 router.get('/:id/reviews/stats', setCache(120), ReviewController.getStats);
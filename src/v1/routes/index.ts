@@ -7,6 +7,7 @@ import ticketRoutes from './ticket.routes';
 import manageRoutes from './manage.routes';
 import chatRoutes from './chat.routes';
 import activityRoutes from './activity.routes';
+import waitlistRoutes from './waitlist.routes';
 import notificationRoutes from './notification.routes';
 import vendorRoutes from './vendor.routes';
 import adminRoutes from './admin.routes';
@@ -37,6 +38,9 @@ router.use('/events', chatRoutes);
 // Activity / Game routes (under /events for REST compliance)
 router.use('/events', activityRoutes);
 
+// Ticket waitlist routes (under /events for REST compliance)
+router.use('/events', waitlistRoutes);
+
 // Notification routes
 router.use('/notifications', notificationRoutes);
 
@@ -62,8 +66,9 @@ router.post('/ai/generate-event', authenticate, aiUploadMiddleware, AIController
 // User event chats
 router.get('/user/event-chats', authenticate, ChatController.getUserEventChats);
 
-// Webhook (no auth required)
+// Payment provider webhooks (no auth required — verified by signature)
 router.post('/webhooks/payment', BookingController.paymentWebhook);
+router.post('/webhooks/:provider', BookingController.paymentWebhook);
 
 // Admin routes
 router.use('/admin', adminRoutes);
@@ -1,7 +1,18 @@
 import { Router } from 'express';
 import { ManageController } from '../controllers/manage.controller';
 import { ImportController, csvUploadMiddleware } from '../controllers/import.controller';
+import { PromoController } from '../controllers/promo.controller';
+import { WaitlistController } from '../controllers/waitlist.controller';
+import { RefundController } from '../controllers/refund.controller';
+import { CheckInController } from '../controllers/checkIn.controller';
+import { RegistrationQuestionController } from '../controllers/registrationQuestion.controller';
 import { authenticate } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { createPromoCodeSchema, updatePromoCodeSchema } from '../validations/promo.schema';
+import { refundPolicySchema, approveRefundSchema, denyRefundSchema } from '../validations/refund.schema';
+import { checkInSyncSchema } from '../validations/checkIn.schema';
+import { createQuestionSchema, updateQuestionSchema } from '../validations/registration.schema';
+import { revenueSharesSchema } from '../validations/team.schema';
 
 const router = Router();
 
@@ -15,6 +26,13 @@ router.get('/:eventId/revenue/export', authenticate, ManageController.exportReve
 // Attendee management
 router.get('/:eventId/attendees', authenticate, ManageController.getAttendees);
 router.post('/:eventId/attendees/:attendeeId/check-in', authenticate, ManageController.checkInAttendee);
+router.post('/:eventId/check-in/scan', authenticate, ManageController.checkInByQr);
+
+// Offline check-in - scanner manifest, batch sync and per-device audit trail
+router.get('/:eventId/check-in/manifest', authenticate, CheckInController.manifest);
+router.post('/:eventId/check-in/sync', authenticate, validate(checkInSyncSchema), CheckInController.sync);
+router.get('/:eventId/check-in/devices', authenticate, CheckInController.devices);
+router.get('/:eventId/check-in/scans', authenticate, CheckInController.scans);
 router.post('/:eventId/attendees/email', authenticate, ManageController.sendBulkEmail);
 router.post('/:eventId/attendees/sms', authenticate, ManageController.sendBulkSms);
 router.get('/:eventId/attendees/export', authenticate, ManageController.exportAttendees);
@@ -24,6 +42,32 @@ router.get('/:eventId/team', authenticate, ManageController.getTeamMembers);
 router.post('/:eventId/team', authenticate, ManageController.addTeamMember);
 router.patch('/:eventId/team/:memberId', authenticate, ManageController.updateTeamMember);
 router.delete('/:eventId/team/:memberId', authenticate, ManageController.removeTeamMember);
+router.put('/:eventId/team/revenue-shares', authenticate, validate(revenueSharesSchema), ManageController.setRevenueShares);
+
+// Promo codes
+router.get('/:eventId/promo-codes', authenticate, PromoController.list);
+router.post('/:eventId/promo-codes', authenticate, validate(createPromoCodeSchema), PromoController.create);
+router.patch('/:eventId/promo-codes/:promoId', authenticate, validate(updatePromoCodeSchema), PromoController.update);
+router.delete('/:eventId/promo-codes/:promoId', authenticate, PromoController.remove);
+
+// Registration questions (listed publicly from event routes for checkout)
+router.post('/:eventId/registration-questions', authenticate, validate(createQuestionSchema), RegistrationQuestionController.create);
+router.patch('/:eventId/registration-questions/:questionId', authenticate, validate(updateQuestionSchema), RegistrationQuestionController.update);
+router.delete('/:eventId/registration-questions/:questionId', authenticate, RegistrationQuestionController.remove);
+
+// Waitlist
+router.get('/:eventId/waitlist', authenticate, WaitlistController.list);
+router.post('/:eventId/waitlist/:entryId/offer', authenticate, WaitlistController.offer);
+router.delete('/:eventId/waitlist/:entryId', authenticate, WaitlistController.remove);
+
+// Refunds
+router.get('/:eventId/refund-policy', authenticate, RefundController.getPolicy);
+router.put('/:eventId/refund-policy', authenticate, validate(refundPolicySchema), RefundController.updatePolicy);
+router.get('/:eventId/refund-requests', authenticate, RefundController.list);
+router.post('/:eventId/refund-requests/:requestId/approve', authenticate, validate(approveRefundSchema), RefundController.approve);
+router.post('/:eventId/refund-requests/:requestId/deny', authenticate, validate(denyRefundSchema), RefundController.deny);
+router.get('/:eventId/refunds/progress', authenticate, RefundController.cancellationProgress);
+router.post('/:eventId/refunds/retry', authenticate, RefundController.retryFailed);
 
 // Event actions
 router.post('/:eventId/duplicate', authenticate, ManageController.duplicateEvent);
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { authenticate } from '../middlewares/auth.middleware';
 import { PayoutController } from '../controllers/payout.controller';
+import { validate } from '../middlewares/validate.middleware';
+import { payoutScheduleSchema } from '../validations/payout.schema';
 
 const router = Router();
 
@@ -9,17 +11,30 @@ router.use(authenticate);
 
 // ─── Payout account ───────────────────────────────────────────────────────────
 // GET    /payouts/account          → retrieve saved account (masked)
+// GET    /payouts/account/resolve?accountNumber=&bankCode= → account holder's name from the bank
 // POST   /payouts/account          → register / update bank account
-// POST   /payouts/account/verify   → confirm bank name after frontend verification
+// POST   /payouts/account/verify   → check the saved account's name with the bank
 
 router.get('/account', PayoutController.getAccount);
+router.get('/account/resolve', PayoutController.resolveAccount);
 router.post('/account', PayoutController.registerAccount);
 router.post('/account/verify', PayoutController.verifyAccount);
 
 // ─── Balance enquiry ─────────────────────────────────────────────────────────
 // GET    /payouts/balance?eventId=  → available payout balance
+// GET    /payouts/statement?currency=&eventId=&from=&to= → ledger lines with running balance
+// GET    /payouts/statement/export?currency=&month=YYYY-MM|from=&to=&format=csv|pdf → statement file, grouped by event
 
 router.get('/balance', PayoutController.getBalance);
+router.get('/statement', PayoutController.getStatement);
+router.get('/statement/export', PayoutController.exportStatement);
+
+// ─── Automatic payouts ───────────────────────────────────────────────────────
+// GET    /payouts/schedule      → automatic payout schedule and review thresholds
+// PUT    /payouts/schedule      → opt in / change frequency, delay and reserve
+
+router.get('/schedule', PayoutController.getSchedule);
+router.put('/schedule', validate(payoutScheduleSchema), PayoutController.updateSchedule);
 
 // ─── Payout requests ─────────────────────────────────────────────────────────
 // GET    /payouts               → list own payout history
@@ -1,10 +1,26 @@
 import { Router } from 'express';
 import { BookingController } from '../controllers/booking.controller';
+import { TicketTransferController } from '../controllers/ticketTransfer.controller';
 import { authenticate } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { initiateTransferSchema } from '../validations/ticketTransfer.schema';
 
 const router = Router();
 
+// Ticket transfers - recipient side, addressed by the emailed token
+router.get('/transfers', authenticate, TicketTransferController.listMine);
+router.get('/transfers/:token', authenticate, TicketTransferController.getByToken);
+router.post('/transfers/:token/accept', authenticate, TicketTransferController.accept);
+router.post('/transfers/:token/decline', authenticate, TicketTransferController.decline);
+
+// Signed QR codes - public so email clients and offline scanners can reach them
+router.get('/qr', BookingController.renderQr);
+router.get('/qr/verification-key', BookingController.getVerificationKey);
+
 // Ticket routes
 router.get('/:ticketId', authenticate, BookingController.getTicketDetails);
+router.get('/:ticketId/qr', authenticate, BookingController.getTicketQr);
+router.post('/:ticketId/transfer', authenticate, validate(initiateTransferSchema), TicketTransferController.initiate);
+router.delete('/:ticketId/transfer', authenticate, TicketTransferController.cancel);
 
 export default router;
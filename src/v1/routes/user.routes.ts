@@ -3,7 +3,11 @@ import { UserController } from '../controllers/user.controller';
 import { SettingsController } from '../controllers/settings.controller';
 import { BookingController } from '../controllers/booking.controller';
 import { ManageController } from '../controllers/manage.controller';
+import { RefundController } from '../controllers/refund.controller';
+import { InvoiceController } from '../controllers/invoice.controller';
 import { authenticate, optionalAuth } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { requestRefundSchema } from '../validations/refund.schema';
 
 const router = Router();
 
@@ -11,6 +15,10 @@ const router = Router();
 router.get('/me/events', authenticate, UserController.getMyEvents);
 router.get('/me/tickets', authenticate, BookingController.getUserTickets);
 router.get('/me/orders', authenticate, BookingController.getUserOrders);
+router.get('/me/orders/:orderId/refund', authenticate, RefundController.getForOrder);
+router.post('/me/orders/:orderId/refund', authenticate, validate(requestRefundSchema), RefundController.request);
+router.get('/me/orders/:orderId/invoices', authenticate, InvoiceController.listForOrder);
+router.get('/me/orders/:orderId/invoices/:invoiceId/pdf', authenticate, InvoiceController.download);
 router.get('/me/favorites', authenticate, UserController.getMyFavorites);
 router.get('/me/dashboard', authenticate, UserController.getOrganizerDashboard);
 
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { WaitlistController } from '../controllers/waitlist.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { joinWaitlistSchema, claimWaitlistSchema } from '../validations/waitlist.schema';
+
+const router = Router({ mergeParams: true });
+
+// Attendee - join, check, leave and claim a sold-out ticket type's waitlist
+router.get('/:id/tickets/:ticketId/waitlist', authenticate, WaitlistController.getStatus);
+router.post('/:id/tickets/:ticketId/waitlist', authenticate, validate(joinWaitlistSchema), WaitlistController.join);
+router.delete('/:id/tickets/:ticketId/waitlist', authenticate, WaitlistController.leave);
+router.post('/:id/tickets/:ticketId/waitlist/claim', authenticate, validate(claimWaitlistSchema), WaitlistController.claim);
+
+export default router;
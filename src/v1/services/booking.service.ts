@@ -1,12 +1,24 @@
+import crypto from 'crypto';
+import { Invoice, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import { ChatService } from './chat.service';
-import { PaymentService, CustomerObject } from './payment.service';
+import { PaymentService, CustomerObject, PaymentProviderName, PaymentWebhookEvent } from './payment.service';
 import { NotificationService } from './notification.service';
+import { PromoService } from './promo.service';
+import { WaitlistService, WaitlistOffer } from './waitlist.service';
+import { TicketQrService } from './ticketQr.service';
 import { emailQueue } from '../jobs/email.queue';
+import { refundQueue } from '../jobs/refund.queue';
+import { FeeService, FeePricing, computeFees } from './fee.service';
+import { RegistrationQuestionService, AnswerInput } from './registrationQuestion.service';
+import { InvoiceService } from './invoice.service';
+import { LedgerService } from './ledger.service';
+import { resolveTicketPrice } from '../utils/pricePhases';
+import { roundAmount, floorAmount, formatMoney } from '../utils/currency';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://eventfi.live';
 
-const SERVICE_FEE_PERCENT = 0.04; // 4% platform fee
-const SERVICE_FEE_FLAT = 200;    // ₦200 flat fee (covers Paystack's transaction charge)
 const ORDER_EXPIRY_MINUTES = 30;
 
 const ONE_DAY_MS = 24 * 60 * 60 * 1000;
@@ -17,6 +29,190 @@ const INSTALLMENT_INTERVAL_DAYS = 14; // default biweekly spacing between instal
 const INSTALLMENT_CUTOFF_DAYS = 3; // final installment must clear at least this many days before the event
 const MIN_LEAD_DAYS_FOR_INSTALLMENTS = 7; // event must be at least this far out to offer a plan
 const INSTALLMENT_GRACE_DAYS = 4; // grace period after a due date before the plan is defaulted
+const GROUP_DEFAULT_DEADLINE_HOURS = 48; // how long invitees get to pay when the initiator doesn't pick a deadline
+const GROUP_MIN_DEADLINE_HOURS = 1;
+const GROUP_MAX_DEADLINE_DAYS = 7;
+
+export type TicketPurchaseErrorCode =
+    | 'TICKET_NOT_FOUND'
+    | 'SALES_NOT_STARTED'
+    | 'SALES_ENDED'
+    | 'SOLD_OUT'
+    | 'USER_LIMIT_EXCEEDED'
+    | 'INVALID_DONATION';
+
+/** Why a ticket can't be bought, with a stable code the frontend maps to its own copy. */
+export class TicketPurchaseError extends Error {
+    constructor(readonly code: TicketPurchaseErrorCode, message: string, readonly ticketId?: string) {
+        super(message);
+        this.name = 'TicketPurchaseError';
+    }
+}
+
+/**
+ * Whether a provider charge really paid for `amount` in `currency`. Guards against a
+ * webhook for a tampered or mismatched transaction confirming an order.
+ */
+function chargeCovers(charge: PaymentWebhookEvent, amount: number, currency: string): boolean {
+    if (charge.currency && charge.currency !== currency) return false;
+    if (typeof charge.amount !== 'number') return true;
+    return charge.amount + 0.005 >= amount;
+}
+
+/**
+ * Record a charge that settled after its order expired or was cancelled. No ticket is
+ * issued for it, so it goes on the reconciliation report as PAID_AFTER_EXPIRY for an
+ * admin to refund — the same record the reconciliation job writes when it finds one.
+ */
+async function recordPaidAfterExpiry(
+    provider: PaymentProviderName,
+    order: { id: string; total: number; currency: string; status: string },
+    charge: PaymentWebhookEvent,
+    outcome = 'refund the buyer'
+) {
+    const paid = formatMoney(charge.amount ?? order.total, charge.currency ?? order.currency);
+    const details = `Charged ${paid} after the order ${order.status === 'EXPIRED' ? 'expired' : 'was cancelled'} — ${outcome}`;
+    await prisma.paymentDiscrepancy.upsert({
+        where: { reference_type: { reference: charge.reference!, type: 'PAID_AFTER_EXPIRY' } },
+        create: {
+            type: 'PAID_AFTER_EXPIRY',
+            provider,
+            reference: charge.reference!,
+            orderId: order.id,
+            expectedAmount: order.total,
+            actualAmount: charge.amount ?? null,
+            currency: order.currency,
+            providerStatus: 'success',
+            details,
+        },
+        update: { details, lastSeenAt: new Date() },
+    });
+}
+
+/**
+ * Refund a charge that settled after its event was cancelled. The payment is recorded on
+ * the order and flagged like any other late payment, then refunded in full through the
+ * same queue as the event's other cancellation refunds. A redelivered webhook finds the
+ * payment already recorded and does nothing.
+ */
+async function refundChargeOnCancelledEvent(
+    provider: PaymentProviderName,
+    order: { id: string; userId: string; eventId: string; total: number; currency: string },
+    charge: PaymentWebhookEvent
+) {
+    const recorded = await prisma.bookingOrder.updateMany({
+        where: { id: order.id, paymentStatus: { not: 'COMPLETED' } },
+        data: { paymentStatus: 'COMPLETED', paidAt: new Date() }
+    });
+    if (recorded.count === 0) return;
+
+    await recordPaidAfterExpiry(provider, { ...order, status: 'CANCELLED' }, charge, 'the event was cancelled, refund queued');
+
+    const data = {
+        source: 'EVENT_CANCELLATION' as const,
+        status: 'PENDING' as const,
+        amount: order.total,
+        refundPercent: 100,
+        reason: 'Paid after the event was cancelled',
+    };
+    const request = await prisma.refundRequest.upsert({
+        where: { orderId: order.id },
+        create: { orderId: order.id, eventId: order.eventId, userId: order.userId, ...data },
+        update: { ...data, failureReason: null },
+    });
+    await refundQueue.add('event-cancellation', { type: 'event-cancellation', refundRequestId: request.id }, {
+        jobId: `refund-${request.id}`,
+    });
+}
+
+/**
+ * Reserve inventory for each line item with a conditional decrement that only matches
+ * while enough stock remains, so concurrent buyers can never drive `remaining` negative.
+ * A shortfall throws, rolling back the caller's transaction (and the order with it).
+ * Tickets are locked in id order so two multi-ticket orders can't deadlock each other.
+ */
+async function reserveTickets(
+    tx: Prisma.TransactionClient,
+    items: { ticketId: string; ticketName: string; quantity: number }[],
+    shortageMessage: (ticketName: string) => string = (name) => `Not enough tickets available for ${name}`
+) {
+    const ordered = [...items].sort((a, b) => a.ticketId.localeCompare(b.ticketId));
+    for (const item of ordered) {
+        const reserved = await tx.ticket.updateMany({
+            where: { id: item.ticketId, remaining: { gte: item.quantity } },
+            data: { remaining: { decrement: item.quantity } },
+        });
+        if (reserved.count === 0) throw new TicketPurchaseError('SOLD_OUT', shortageMessage(item.ticketName), item.ticketId);
+    }
+}
+
+/**
+ * Enforce `maxPerUser` across every order the buyer holds for a ticket type — confirmed, or
+ * pending and still holding seats — not just the one being placed. Guests are resolved to
+ * their account by email first, so checking out as a guest doesn't reset the count.
+ * The buyer's row is locked so two checkouts racing each other can't both slip under the limit.
+ */
+async function checkPerUserLimits(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    requested: Map<string, { ticketName: string; quantity: number; maxPerUser: number | null }>
+) {
+    const limited = [...requested.entries()].filter(([, r]) => r.maxPerUser);
+    if (limited.length === 0) return;
+
+    await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId}::uuid FOR UPDATE`;
+    const held = await tx.orderItem.groupBy({
+        by: ['ticketId'],
+        where: {
+            ticketId: { in: limited.map(([ticketId]) => ticketId) },
+            order: { userId, status: { in: ['PENDING', 'CONFIRMED'] } },
+        },
+        _sum: { quantity: true },
+    });
+    const heldByTicket = new Map(held.map(h => [h.ticketId, h._sum.quantity ?? 0]));
+
+    for (const [ticketId, { ticketName, quantity, maxPerUser }] of limited) {
+        const already = heldByTicket.get(ticketId) ?? 0;
+        if (already + quantity <= maxPerUser!) continue;
+        throw new TicketPurchaseError('USER_LIMIT_EXCEEDED', already > 0
+            ? `Maximum ${maxPerUser} "${ticketName}" tickets per person — you already have ${already} in confirmed or pending orders`
+            : `Maximum ${maxPerUser} tickets per person for ${ticketName}`,
+            ticketId);
+    }
+}
+
+/**
+ * Create an order's attendees with their registration answers (as checked by
+ * RegistrationQuestionService.checkAnswers, one list per attendee in the same order).
+ */
+async function createAttendees(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    attendees: AttendeeInput[],
+    answers: { questionId: string; value: string[] }[][]
+) {
+    for (const [index, a] of attendees.entries()) {
+        await tx.attendee.create({
+            data: {
+                orderId,
+                ticketId: a.ticketTypeId,
+                name: a.name,
+                email: a.email,
+                phone: a.phone,
+                city: a.city || null,
+                location: a.location || null,
+                ticketCode: `EVF-TKT-${uuidv4().substring(0, 8).toUpperCase()}`,
+                ...(answers[index].length > 0 && { answers: { create: answers[index] } }),
+            },
+        });
+    }
+}
+
+/** Pass released inventory to anyone waiting for it. Fire-and-forget — never blocks the caller. */
+function offerReleasedToWaitlist(ticketIds: string[]) {
+    WaitlistService.offerReleasedTickets(ticketIds)
+        .catch(err => console.error('[Waitlist] Failed to offer released tickets:', err));
+}
 
 /**
  * Resolve a userId for the booking.
@@ -52,6 +248,7 @@ async function resolveUserId(loggedInUserId: string | undefined, guestEmail: str
 interface OrderItemInput {
     ticketTypeId: string;
     quantity: number;
+    amount?: number; // per-ticket amount the buyer chose — donation tickets only
 }
 
 interface AttendeeInput {
@@ -61,6 +258,7 @@ interface AttendeeInput {
     phone?: string;
     city?: string;
     location?: string;
+    answers?: AnswerInput;
 }
 
 interface InstallmentPlanInput {
@@ -68,6 +266,11 @@ interface InstallmentPlanInput {
     downPaymentPercent?: number;
 }
 
+interface GroupBookingInput {
+    deadline?: string;
+    shares: { ticketTypeId: string; email: string; name?: string }[];
+}
+
 export class BookingService {
     /**
      * Get available ticket types for an event
@@ -89,17 +292,28 @@ export class BookingService {
                 salesEnd: true,
                 allowInstallments: true,
                 maxInstallments: true,
+                minDonation: true,
+                suggestedAmounts: true,
+                pricePhases: true,
             },
             orderBy: { price: 'asc' }
         });
 
-        return tickets.map(t => ({
-            ...t,
-            sold: t.quantity - t.remaining,
-            maxPerOrder: t.maxPerUser || 10,
-            salesStartDate: t.salesStart?.toISOString(),
-            salesEndDate: t.salesEnd?.toISOString(),
-        }));
+        const now = new Date();
+        return tickets.map(({ pricePhases, ...t }) => {
+            const { price, activePhase, nextPriceChange } = resolveTicketPrice({ ...t, pricePhases }, now);
+            return {
+                ...t,
+                price, // what the ticket sells at right now
+                basePrice: t.price,
+                activePhase,
+                nextPriceChange,
+                sold: t.quantity - t.remaining,
+                maxPerOrder: t.maxPerUser || 10,
+                salesStartDate: t.salesStart?.toISOString(),
+                salesEndDate: t.salesEnd?.toISOString(),
+            };
+        });
     }
 
     /**
@@ -125,15 +339,27 @@ export class BookingService {
     }
 
     /**
-     * Initiate a booking order
+     * Initiate a booking order. `waitlistOffer` is set only by claimWaitlistOffer — the
+     * offered tickets are already held, so they skip the stock check and reservation.
      */
-    static async initiateOrder(userId: string | undefined, eventId: string, items: OrderItemInput[], guestEmail?: string, installmentPlan?: InstallmentPlanInput) {
+    static async initiateOrder(
+        userId: string | undefined,
+        eventId: string,
+        items: OrderItemInput[],
+        guestEmail?: string,
+        installmentPlan?: InstallmentPlanInput,
+        waitlistOffer?: WaitlistOffer,
+        groupBooking?: GroupBookingInput
+    ) {
         if (!userId && !guestEmail) throw new Error('Sign in or provide your email to book');
         const resolvedUserId = await resolveUserId(userId, guestEmail!);
         // Validate event exists
         const event = await prisma.event.findUnique({
             where: { id: eventId },
-            select: { id: true, title: true, coverImage: true, startDate: true, venueName: true, city: true }
+            select: {
+                id: true, title: true, coverImage: true, startDate: true, venueName: true, city: true,
+                organizerId: true, category: true, serviceFeeMode: true,
+            }
         });
         if (!event) throw new Error('Event not found');
 
@@ -147,38 +373,93 @@ export class BookingService {
 
         // Batch-fetch all requested tickets in one query
         const ticketTypeIds = items.map(i => i.ticketTypeId);
-        const fetchedTickets = await prisma.ticket.findMany({ where: { id: { in: ticketTypeIds } } });
+        const fetchedTickets = await prisma.ticket.findMany({
+            where: { id: { in: ticketTypeIds } },
+            include: { pricePhases: true }
+        });
         const ticketMap = new Map(fetchedTickets.map(t => [t.id, t]));
 
         let subtotal = 0;
         const orderItems: any[] = [];
+        // Every ticket in the order must share one currency — it's charged as a single payment
+        const currency = ticketMap.get(items[0].ticketTypeId)?.currency || 'NGN';
+
+        // Quantities per ticket type — the same type may appear on more than one line
+        const requested = new Map<string, { ticketName: string; quantity: number; maxPerUser: number | null }>();
+        const now = new Date();
 
         for (const item of items) {
             const ticket = ticketMap.get(item.ticketTypeId);
 
-            if (!ticket) throw new Error(`Ticket type ${item.ticketTypeId} not found`);
-            if (ticket.eventId !== eventId) throw new Error('Ticket does not belong to this event');
-            if (ticket.remaining < item.quantity) throw new Error(`Not enough tickets available for ${ticket.name}`);
-            if (ticket.maxPerUser && item.quantity > ticket.maxPerUser) {
-                throw new Error(`Maximum ${ticket.maxPerUser} tickets per order for ${ticket.name}`);
+            if (!ticket || ticket.eventId !== eventId) {
+                throw new TicketPurchaseError('TICKET_NOT_FOUND', `Ticket type ${item.ticketTypeId} not found for this event`, item.ticketTypeId);
+            }
+            if (ticket.currency !== currency) {
+                throw new Error('All tickets in an order must be priced in the same currency — check out each currency separately');
+            }
+            const held = waitlistOffer?.ticketId === ticket.id ? waitlistOffer.quantity : 0;
+            // A waitlist offer was made while sales were open and holds its seats until it lapses
+            if (!held && ticket.salesStart && ticket.salesStart > now) {
+                throw new TicketPurchaseError('SALES_NOT_STARTED',
+                    `Sales for ${ticket.name} open on ${ticket.salesStart.toISOString()}`, ticket.id);
+            }
+            if (!held && ticket.salesEnd && ticket.salesEnd <= now) {
+                throw new TicketPurchaseError('SALES_ENDED', `Sales for ${ticket.name} have ended`, ticket.id);
+            }
+            const line = requested.get(ticket.id) ?? { ticketName: ticket.name, quantity: 0, maxPerUser: ticket.maxPerUser };
+            line.quantity += item.quantity;
+            requested.set(ticket.id, line);
+            if (ticket.remaining + held < line.quantity) {
+                throw new TicketPurchaseError('SOLD_OUT', `Not enough tickets available for ${ticket.name}`, ticket.id);
+            }
+            if (ticket.maxPerUser && line.quantity > ticket.maxPerUser) {
+                throw new TicketPurchaseError('USER_LIMIT_EXCEEDED',
+                    `Maximum ${ticket.maxPerUser} tickets per person for ${ticket.name}`, ticket.id);
             }
 
-            const totalPrice = ticket.price * item.quantity;
+            const isDonation = ticket.type === 'DONATION';
+            let unitPrice: number;
+            if (isDonation) {
+                // Buyer-chosen, per ticket; without one, the listed price (or the minimum) applies
+                const minimum = ticket.minDonation ?? 0;
+                unitPrice = roundAmount(item.amount ?? Math.max(ticket.price, minimum), currency);
+                if (unitPrice < minimum) {
+                    throw new TicketPurchaseError('INVALID_DONATION',
+                        `Minimum donation for ${ticket.name} is ${formatMoney(minimum, currency)}`, ticket.id);
+                }
+            } else {
+                // The whole line is priced at the phase open when the order is placed, even if
+                // it takes the ticket past a phase's sold limit
+                unitPrice = resolveTicketPrice(ticket).price;
+            }
+            const totalPrice = unitPrice * item.quantity;
             subtotal += totalPrice;
 
             orderItems.push({
                 ticketId: ticket.id,
                 ticketName: ticket.name,
                 quantity: item.quantity,
-                unitPrice: ticket.price,
+                unitPrice,
                 totalPrice,
+                isDonation,
             });
         }
 
-        const serviceFee = subtotal > 0 ? Math.round(subtotal * SERVICE_FEE_PERCENT) + SERVICE_FEE_FLAT : 0;
-        const total = subtotal + serviceFee;
-        // Currency comes from the already-fetched ticket map — no extra DB round-trip
-        const currency = ticketMap.get(items[0].ticketTypeId)?.currency || 'NGN';
+        subtotal = roundAmount(subtotal, currency);
+        // Admin fee overrides and the organizer's absorb/pass-on choice decide who pays what
+        const pricing = await FeeService.pricingFor(event, currency);
+        let { serviceFee, absorbedFee } = computeFees(subtotal, currency, pricing);
+        let total = roundAmount(subtotal + serviceFee, currency);
+
+        // Each share of a group booking is its own payment, so it carries its own fee
+        let groupPlan: ReturnType<typeof BookingService.planGroupBooking> | undefined;
+        if (groupBooking) {
+            if (installmentPlan) throw new Error('A group booking cannot also be paid in installments');
+            if (waitlistOffer) throw new Error('Waitlist offers cannot be split into a group booking');
+            groupPlan = this.planGroupBooking(groupBooking, orderItems, currency, pricing, event.startDate);
+            ({ serviceFee, absorbedFee } = groupPlan);
+            total = roundAmount(subtotal + serviceFee, currency);
+        }
 
         // Validate + compute the installment schedule up front (before any writes) so a
         // rejected plan never leaves behind a reserved order or decremented inventory.
@@ -199,61 +480,95 @@ export class BookingService {
             }
             installmentSchedule = this.computeInstallmentSchedule(
                 total,
+                currency,
                 event.startDate,
                 installmentPlan.installmentCount,
                 installmentPlan.downPaymentPercent
             );
         }
 
-        // Create the order
-        const expiresAt = new Date(Date.now() + ORDER_EXPIRY_MINUTES * 60 * 1000);
+        // A group's seats stay held until its deadline rather than the usual checkout window
+        const expiresAt = groupPlan?.deadline ?? new Date(Date.now() + ORDER_EXPIRY_MINUTES * 60 * 1000);
 
-        const order = await prisma.bookingOrder.create({
-            data: {
-                userId: resolvedUserId,
-                eventId,
-                subtotal,
-                serviceFee,
-                total,
-                currency,
-                expiresAt,
-                items: {
-                    create: orderItems
-                }
-            },
-            include: {
-                items: true,
-                event: {
-                    select: { id: true, title: true, coverImage: true, startDate: true, venueName: true, city: true }
-                }
-            }
-        });
-
-        // Reserve tickets atomically in a single transaction (parallel updates)
-        await prisma.$transaction(
-            items.map(item =>
-                prisma.ticket.update({
-                    where: { id: item.ticketTypeId },
-                    data: { remaining: { decrement: item.quantity } },
-                })
-            )
-        );
+        // Create the order and reserve its tickets as one unit — if any tier sold out
+        // since the check above, the whole order is rolled back.
+        const order = await prisma.$transaction(async (tx) => {
+            await checkPerUserLimits(tx, resolvedUserId, requested);
 
-        if (installmentSchedule) {
-            await prisma.installmentPlan.create({
+            const created = await tx.bookingOrder.create({
                 data: {
-                    bookingOrderId: order.id,
-                    installmentCount: installmentSchedule.payments.length,
-                    downPaymentAmount: installmentSchedule.downPaymentAmount,
-                    finalDueDate: installmentSchedule.finalDueDate,
-                    payments: { create: installmentSchedule.payments },
+                    userId: resolvedUserId,
+                    eventId,
+                    subtotal,
+                    serviceFee,
+                    absorbedFee,
+                    total,
+                    currency,
+                    expiresAt,
+                    items: {
+                        create: orderItems
+                    }
                 },
+                select: { id: true }
             });
-        }
+
+            if (waitlistOffer) {
+                await WaitlistService.markClaimed(tx, waitlistOffer.entryId, created.id);
+                await reserveTickets(tx, orderItems
+                    .map(item => item.ticketId === waitlistOffer.ticketId
+                        ? { ...item, quantity: item.quantity - waitlistOffer.quantity }
+                        : item)
+                    .filter(item => item.quantity > 0));
+            } else {
+                await reserveTickets(tx, orderItems);
+            }
+
+            if (installmentSchedule) {
+                await tx.installmentPlan.create({
+                    data: {
+                        bookingOrderId: created.id,
+                        installmentCount: installmentSchedule.payments.length,
+                        downPaymentAmount: installmentSchedule.downPaymentAmount,
+                        finalDueDate: installmentSchedule.finalDueDate,
+                        payments: { create: installmentSchedule.payments },
+                    },
+                });
+            }
+
+            if (groupPlan) {
+                await tx.groupBooking.create({
+                    data: {
+                        bookingOrderId: created.id,
+                        deadline: groupPlan.deadline,
+                        shares: { create: groupPlan.shares },
+                    },
+                });
+            }
+
+            return created;
+        });
+
+        if (groupPlan) this.sendGroupInvites(order.id);
 
         return this.getOrder(order.id, userId);
     }
 
+    /**
+     * Turn a waitlist claim link into a pending order for the held tickets. From here
+     * it behaves like any other order — pay before it expires or the tickets move on.
+     */
+    static async claimWaitlistOffer(eventId: string, ticketId: string, userId: string, token: string) {
+        const offer = await WaitlistService.getClaimableOffer(eventId, ticketId, userId, token);
+        return this.initiateOrder(
+            userId,
+            eventId,
+            [{ ticketTypeId: offer.ticketId, quantity: offer.quantity }],
+            undefined,
+            undefined,
+            offer
+        );
+    }
+
     /**
      * Compute a down-payment + evenly-spaced installment schedule for an order total.
      * The final installment is always clamped to (event start - INSTALLMENT_CUTOFF_DAYS)
@@ -262,6 +577,7 @@ export class BookingService {
      */
     private static computeInstallmentSchedule(
         total: number,
+        currency: string,
         eventStartDate: Date,
         installmentCount: number,
         downPaymentPercent?: number
@@ -281,10 +597,10 @@ export class BookingService {
             MAX_DOWN_PAYMENT_PERCENT,
             Math.max(MIN_DOWN_PAYMENT_PERCENT, downPaymentPercent ?? DEFAULT_DOWN_PAYMENT_PERCENT)
         );
-        const downPaymentAmount = Math.round(total * downPercent);
-        const remaining = total - downPaymentAmount;
+        const downPaymentAmount = roundAmount(total * downPercent, currency);
+        const remaining = roundAmount(total - downPaymentAmount, currency);
         const remainingCount = installmentCount - 1;
-        const baseShare = Math.floor(remaining / remainingCount);
+        const baseShare = floorAmount(remaining / remainingCount, currency);
 
         const tentativeSpanMs = INSTALLMENT_INTERVAL_DAYS * ONE_DAY_MS * remainingCount;
         const availableSpanMs = finalDueDate.getTime() - now.getTime();
@@ -297,7 +613,7 @@ export class BookingService {
         let allocated = 0;
         for (let i = 1; i <= remainingCount; i++) {
             const isLast = i === remainingCount;
-            const amount = isLast ? remaining - allocated : baseShare;
+            const amount = isLast ? roundAmount(remaining - allocated, currency) : baseShare;
             allocated += amount;
             const dueDate = isLast ? finalDueDate : new Date(now.getTime() + Math.round((spanMs / remainingCount) * i));
             payments.push({ sequence: i + 1, amount, dueDate });
@@ -306,6 +622,64 @@ export class BookingService {
         return { downPaymentAmount, finalDueDate, payments };
     }
 
+    /**
+     * Split a group order into one share per seat. Every seat in the order must be claimed
+     * by exactly one share, and each share is priced as if it were bought on its own —
+     * ticket price plus its own service fee — since each is paid through its own checkout.
+     */
+    private static planGroupBooking(
+        input: GroupBookingInput,
+        orderItems: { ticketId: string; ticketName: string; quantity: number; unitPrice: number; isDonation: boolean }[],
+        currency: string,
+        pricing: FeePricing,
+        eventStartDate: Date
+    ) {
+        const now = Date.now();
+        const deadline = input.deadline
+            ? new Date(input.deadline)
+            : new Date(now + GROUP_DEFAULT_DEADLINE_HOURS * 60 * 60 * 1000);
+        if (isNaN(deadline.getTime())) throw new Error('Invalid group booking deadline');
+        if (deadline.getTime() < now + GROUP_MIN_DEADLINE_HOURS * 60 * 60 * 1000) {
+            throw new Error(`The group booking deadline must be at least ${GROUP_MIN_DEADLINE_HOURS} hour from now`);
+        }
+        if (deadline.getTime() > now + GROUP_MAX_DEADLINE_DAYS * ONE_DAY_MS) {
+            throw new Error(`The group booking deadline can be at most ${GROUP_MAX_DEADLINE_DAYS} days away`);
+        }
+        if (deadline >= eventStartDate) throw new Error('The group booking deadline must be before the event starts');
+
+        const shares: Prisma.GroupBookingShareCreateWithoutGroupBookingInput[] = [];
+        let serviceFee = 0;
+        let absorbedFee = 0;
+        for (const item of orderItems) {
+            const claimed = input.shares.filter(sh => sh.ticketTypeId === item.ticketId);
+            if (claimed.length !== item.quantity) {
+                throw new Error(`Group booking needs exactly ${item.quantity} share${item.quantity > 1 ? 's' : ''} for ${item.ticketName}`);
+            }
+            if (item.unitPrice <= 0) throw new Error(`Group booking is only available for paid tickets — "${item.ticketName}" is free`);
+            if (item.isDonation) throw new Error(`Group booking is only available for fixed-price tickets — "${item.ticketName}" is a donation`);
+
+            const fees = computeFees(item.unitPrice, currency, pricing);
+            for (const share of claimed) {
+                shares.push({
+                    ticket: { connect: { id: item.ticketId } },
+                    email: share.email.toLowerCase().trim(),
+                    name: share.name?.trim() || null,
+                    token: crypto.randomBytes(24).toString('hex'),
+                    amount: roundAmount(item.unitPrice + fees.serviceFee, currency),
+                    serviceFee: fees.serviceFee,
+                    absorbedFee: fees.absorbedFee,
+                });
+                serviceFee += fees.serviceFee;
+                absorbedFee += fees.absorbedFee;
+            }
+        }
+        if (shares.length !== input.shares.length) {
+            throw new Error('Every group booking share must be for a ticket in this order');
+        }
+
+        return { deadline, shares, serviceFee: roundAmount(serviceFee, currency), absorbedFee: roundAmount(absorbedFee, currency) };
+    }
+
     /**
      * Get order details
      */
@@ -320,6 +694,9 @@ export class BookingService {
                 },
                 installmentPlan: {
                     include: { payments: { orderBy: { sequence: 'asc' } } }
+                },
+                groupBooking: {
+                    include: { shares: { orderBy: { createdAt: 'asc' } } }
                 }
             }
         });
@@ -337,90 +714,271 @@ export class BookingService {
     static async updateAttendees(orderId: string, userId: string | undefined, attendees: AttendeeInput[]) {
         const order = await prisma.bookingOrder.findUnique({
             where: { id: orderId },
-            include: { items: true }
+            include: { items: true, groupBooking: { select: { id: true } } }
         });
 
         if (!order) throw new Error('Order not found');
         if (userId && order.userId !== userId) throw new Error('Unauthorized');
         if (order.status !== 'PENDING') throw new Error('Cannot update attendees for this order');
+        // Group tickets are issued to each share's payer as they pay
+        if (order.groupBooking) throw new Error('Cannot update attendees for a group booking');
 
-        // Delete existing attendees and create new ones
-        await prisma.attendee.deleteMany({ where: { orderId } });
-
-        const attendeeRecords = attendees.map(a => ({
-            orderId,
-            ticketId: a.ticketTypeId,
-            name: a.name,
-            email: a.email,
-            phone: a.phone,
-            city: a.city || null,
-            location: a.location || null,
-            ticketCode: `EVF-TKT-${uuidv4().substring(0, 8).toUpperCase()}`,
-        }));
+        const answers = await RegistrationQuestionService.checkAnswers(order.eventId, attendees);
 
-        await prisma.attendee.createMany({ data: attendeeRecords });
+        // Replace the existing attendees with the new details
+        await prisma.$transaction(async (tx) => {
+            await tx.attendee.deleteMany({ where: { orderId } });
+            await createAttendees(tx, orderId, attendees, answers);
+        });
 
         return this.getOrder(orderId, userId);
     }
 
     /**
-     * Apply promo code
+     * Apply a promo code: validates it against the order, records the redemption
+     * (replacing any code already on the order) and recomputes discount, service
+     * fee and total. An unpaid installment schedule is rebuilt against the new total.
      */
     static async applyPromoCode(orderId: string, userId: string | undefined, promoCode: string) {
-        const order = await prisma.bookingOrder.findUnique({ where: { id: orderId } });
+        const order = await prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            include: {
+                items: true,
+                event: { select: { startDate: true, organizerId: true, category: true, serviceFeeMode: true } },
+                groupBooking: { select: { id: true } }
+            }
+        });
 
         if (!order) throw new Error('Order not found');
         if (userId && order.userId !== userId) throw new Error('Unauthorized');
         if (order.status !== 'PENDING') throw new Error('Cannot apply promo to this order');
+        if (order.groupBooking) throw new Error('Cannot apply promo to a group booking');
+        if (order.paymentStatus === 'COMPLETED') throw new Error('Cannot apply promo to a paid order');
 
-        // TODO: Implement promo code validation
-        // For now, just store the code
-        await prisma.bookingOrder.update({
+        const pricing = await FeeService.pricingFor(order.event, order.currency);
+        await prisma.$transaction(async (tx) => {
+            await PromoService.releaseForOrder(tx, orderId);
+            const { code, discount } = await PromoService.redeem(tx, order, promoCode);
+
+            const discountedSubtotal = Math.max(0, order.subtotal - discount);
+            const { serviceFee, absorbedFee } = computeFees(discountedSubtotal, order.currency, pricing);
+            const total = roundAmount(discountedSubtotal + serviceFee, order.currency);
+
+            await tx.bookingOrder.update({
+                where: { id: orderId },
+                data: { promoCode: code, discount, serviceFee, absorbedFee, total }
+            });
+            await this.rebuildInstallmentSchedule(tx, orderId, order.total, total, order.currency, order.event.startDate);
+        });
+
+        return this.getOrder(orderId, userId);
+    }
+
+    /**
+     * Remove the promo code from a pending order and restore the undiscounted pricing.
+     */
+    static async removePromoCode(orderId: string, userId: string | undefined) {
+        const order = await prisma.bookingOrder.findUnique({
             where: { id: orderId },
-            data: { promoCode }
+            include: { event: { select: { startDate: true, organizerId: true, category: true, serviceFeeMode: true } } }
+        });
+
+        if (!order) throw new Error('Order not found');
+        if (userId && order.userId !== userId) throw new Error('Unauthorized');
+        if (order.status !== 'PENDING') throw new Error('Cannot remove promo from this order');
+        if (order.paymentStatus === 'COMPLETED') throw new Error('Cannot remove promo from a paid order');
+        if (!order.promoCode) throw new Error('No promo code applied to this order');
+
+        const pricing = await FeeService.pricingFor(order.event, order.currency);
+        await prisma.$transaction(async (tx) => {
+            await PromoService.releaseForOrder(tx, orderId);
+
+            const { serviceFee, absorbedFee } = computeFees(order.subtotal, order.currency, pricing);
+            const total = roundAmount(order.subtotal + serviceFee, order.currency);
+
+            await tx.bookingOrder.update({
+                where: { id: orderId },
+                data: { promoCode: null, discount: 0, serviceFee, absorbedFee, total }
+            });
+            await this.rebuildInstallmentSchedule(tx, orderId, order.total, total, order.currency, order.event.startDate);
         });
 
         return this.getOrder(orderId, userId);
     }
 
+    /**
+     * Recompute an order's installment schedule after its total changed, keeping the
+     * buyer's installment count and down-payment ratio. Only allowed while nothing
+     * has been paid — a partially-paid plan can't be re-split fairly.
+     */
+    private static async rebuildInstallmentSchedule(
+        tx: Prisma.TransactionClient,
+        orderId: string,
+        previousTotal: number,
+        newTotal: number,
+        currency: string,
+        eventStartDate: Date
+    ) {
+        const plan = await tx.installmentPlan.findUnique({
+            where: { bookingOrderId: orderId },
+            include: { payments: true }
+        });
+        if (!plan || previousTotal === newTotal) return;
+
+        if (plan.payments.some(p => p.status === 'PAID')) {
+            throw new Error('Promo codes cannot be changed after an installment has been paid');
+        }
+
+        const downPaymentPercent = previousTotal > 0 ? plan.downPaymentAmount / previousTotal : undefined;
+        const schedule = this.computeInstallmentSchedule(newTotal, currency, eventStartDate, plan.installmentCount, downPaymentPercent);
+
+        await tx.installmentPayment.deleteMany({ where: { installmentPlanId: plan.id } });
+        await tx.installmentPlan.update({
+            where: { id: plan.id },
+            data: {
+                downPaymentAmount: schedule.downPaymentAmount,
+                finalDueDate: schedule.finalDueDate,
+                payments: { create: schedule.payments },
+            }
+        });
+    }
+
     /**
      * Cancel pending order
+     *
+     * Like expireOrder, the status flip is conditional and shares a transaction with the
+     * inventory release, so a cancel racing the expiry sweep or a charge.failed webhook
+     * can't hand the same seats back twice. A group booking can only be cancelled while
+     * none of its shares is paid — those seats belong to the friends who paid for them.
      */
     static async cancelOrder(orderId: string, userId: string | undefined) {
         const order = await prisma.bookingOrder.findUnique({
             where: { id: orderId },
-            include: { items: true, installmentPlan: true }
+            include: { items: true, installmentPlan: true, groupBooking: true }
         });
 
         if (!order) throw new Error('Order not found');
         if (userId && order.userId !== userId) throw new Error('Unauthorized');
         if (order.status !== 'PENDING') throw new Error('Cannot cancel this order');
 
-        // Release tickets atomically in a single transaction (parallel updates)
-        await prisma.$transaction(
-            order.items.map(item =>
-                prisma.ticket.update({
+        const released = await prisma.$transaction(async (tx) => {
+            if (order.groupBooking) {
+                // Shares first, in the same order a share payment locks them, then look for any
+                // that were paid before we got there
+                await tx.groupBookingShare.updateMany({
+                    where: { groupBookingId: order.groupBooking.id, status: { in: ['PENDING', 'FAILED'] } },
+                    data: { status: 'CANCELLED' }
+                });
+                const paid = await tx.groupBookingShare.count({
+                    where: { groupBookingId: order.groupBooking.id, status: 'PAID' }
+                });
+                if (paid > 0) throw new Error('Cannot cancel a group booking once a share has been paid');
+                await tx.groupBooking.updateMany({
+                    where: { id: order.groupBooking.id, status: 'OPEN' },
+                    data: { status: 'CANCELLED', closedAt: new Date() }
+                });
+            }
+
+            const claimed = await tx.bookingOrder.updateMany({
+                where: { id: orderId, status: 'PENDING' },
+                data: { status: 'CANCELLED' }
+            });
+            // The expiry sweep, a failed charge or another cancel got there first
+            if (claimed.count === 0) throw new Error('Cannot cancel this order');
+
+            for (const item of order.items) {
+                await tx.ticket.update({
                     where: { id: item.ticketId },
                     data: { remaining: { increment: item.quantity } },
-                })
-            )
-        );
+                });
+            }
 
-        await prisma.bookingOrder.update({
-            where: { id: orderId },
-            data: { status: 'CANCELLED' }
-        });
+            // Give the promo use back so the buyer (or someone else) can redeem it again
+            await PromoService.releaseForOrder(tx, orderId);
 
-        if (order.installmentPlan && order.installmentPlan.status === 'ACTIVE') {
-            await prisma.installmentPlan.update({
-                where: { id: order.installmentPlan.id },
+            await tx.installmentPlan.updateMany({
+                where: { bookingOrderId: orderId, status: 'ACTIVE' },
                 data: { status: 'CANCELLED' }
             });
-        }
+
+            return order.items.map(i => i.ticketId);
+        });
+
+        offerReleasedToWaitlist(released);
 
         return { message: 'Order cancelled successfully' };
     }
 
+    /**
+     * Expire an abandoned PENDING order and release its reserved inventory.
+     * Called by the order expiry scheduler — not attendee-facing.
+     *
+     * The status flip is a conditional update inside the same transaction as the
+     * inventory release, so when two instances sweep the same order only the one
+     * whose update matched a still-PENDING row restores the tickets.
+     */
+    static async expireOrder(orderId: string): Promise<boolean> {
+        const released = await prisma.$transaction(async (tx) => {
+            const claimed = await tx.bookingOrder.updateMany({
+                where: {
+                    id: orderId,
+                    status: 'PENDING',
+                    paymentStatus: { not: 'COMPLETED' },
+                },
+                data: { status: 'EXPIRED' }
+            });
+            if (claimed.count === 0) return null;
+
+            const items = await tx.orderItem.findMany({
+                where: { orderId },
+                select: { ticketId: true, quantity: true }
+            });
+            for (const item of items) {
+                await tx.ticket.update({
+                    where: { id: item.ticketId },
+                    data: { remaining: { increment: item.quantity } },
+                });
+            }
+
+            await PromoService.releaseForOrder(tx, orderId);
+            return items.map(i => i.ticketId);
+        });
+
+        if (!released) return false;
+        offerReleasedToWaitlist(released);
+        return true;
+    }
+
+    /**
+     * Cancel an unpaid PENDING order because its event was cancelled, releasing its
+     * reserved seats. Conditional like expireOrder, so it can race the expiry sweep or a
+     * buyer's cancel without releasing the same seats twice. Released seats aren't offered
+     * to the waitlist — there's no event left to sell them for.
+     */
+    static async cancelPendingOrder(orderId: string): Promise<boolean> {
+        return prisma.$transaction(async (tx) => {
+            const claimed = await tx.bookingOrder.updateMany({
+                where: { id: orderId, status: 'PENDING', paymentStatus: { not: 'COMPLETED' } },
+                data: { status: 'CANCELLED' }
+            });
+            if (claimed.count === 0) return false;
+
+            const items = await tx.orderItem.findMany({
+                where: { orderId },
+                select: { ticketId: true, quantity: true }
+            });
+            for (const item of items) {
+                await tx.ticket.update({
+                    where: { id: item.ticketId },
+                    data: { remaining: { increment: item.quantity } },
+                });
+            }
+
+            await PromoService.releaseForOrder(tx, orderId);
+            return true;
+        });
+    }
+
     /**
      * Default an installment plan after its grace period has expired: release
      * reserved ticket inventory, cancel the order, and mark the plan DEFAULTED.
@@ -454,8 +1012,10 @@ export class BookingService {
             data: { status: 'DEFAULTED' }
         });
 
+        offerReleasedToWaitlist(order.items.map(i => i.ticketId));
+
         // Refund policy: the down payment (sequence 1) is a non-refundable deposit and is kept.
-        // Everything paid beyond that is refunded via Paystack, since the attendee gets no ticket.
+        // Everything paid beyond that is refunded to the buyer, since the attendee gets no ticket.
         const refundableInstallments = await prisma.installmentPayment.findMany({
             where: { installmentPlanId: order.installmentPlan.id, sequence: { gt: 1 }, status: 'PAID' }
         });
@@ -464,14 +1024,15 @@ export class BookingService {
         for (const installment of refundableInstallments) {
             if (!installment.paymentReference) continue;
             try {
-                await PaymentService.refundTransaction(installment.paymentReference, installment.amount);
+                await PaymentService.providerFor(installment.paymentProvider)
+                    .refundTransaction(installment.paymentReference, installment.amount, order.currency);
                 await prisma.installmentPayment.update({
                     where: { id: installment.id },
                     data: { status: 'REFUNDED' }
                 });
                 refundedTotal += installment.amount;
             } catch (error) {
-                // Left as PAID so it's visible for manual reconciliation via the Paystack dashboard
+                // Left as PAID so it's visible for manual reconciliation via the provider's dashboard
                 console.error(`[defaultInstallmentPlan] Failed to refund installment ${installment.id} (order ${orderId}):`, error);
             }
         }
@@ -542,21 +1103,12 @@ export class BookingService {
         if (order.event.startDate.getTime() <= Date.now()) {
             throw new Error('This event has already started — reinstating is no longer possible');
         }
-        for (const item of order.items) {
-            if (item.ticket.remaining < item.quantity) {
-                throw new Error(`Not enough "${item.ticket.name}" tickets left to reinstate this order`);
-            }
-        }
-
         // Re-reserve inventory — it was released back to the pool when the plan defaulted
-        await prisma.$transaction(
-            order.items.map(item =>
-                prisma.ticket.update({
-                    where: { id: item.ticketId },
-                    data: { remaining: { decrement: item.quantity } },
-                })
-            )
-        );
+        await prisma.$transaction(tx => reserveTickets(
+            tx,
+            order.items.map(item => ({ ticketId: item.ticketId, ticketName: item.ticket.name, quantity: item.quantity })),
+            (name) => `Not enough "${name}" tickets left to reinstate this order`
+        ));
 
         const outstanding = order.total - order.installmentPlan.downPaymentAmount;
         const nextSequence = Math.max(...order.installmentPlan.payments.map(p => p.sequence)) + 1;
@@ -624,7 +1176,7 @@ export class BookingService {
     }
 
     /**
-     * Initialize payment for a single installment via Paystack.
+     * Initialize payment for a single installment with the event's payment provider.
      */
     static async initializeInstallmentPayment(
         orderId: string,
@@ -634,7 +1186,7 @@ export class BookingService {
     ) {
         const order = await prisma.bookingOrder.findUnique({
             where: { id: orderId },
-            include: { event: { select: { title: true } }, installmentPlan: true }
+            include: { event: { select: { title: true, paymentProvider: true } }, installmentPlan: true }
         });
 
         if (!order) throw new Error('Order not found');
@@ -666,18 +1218,19 @@ export class BookingService {
             phone: primaryAttendee?.phone ?? undefined,
         };
 
-        const payment = await PaymentService.initializeTransaction(
-            installment.amount,
-            order.currency,
-            `${eventTitle} — Installment ${installment.sequence}/${order.installmentPlan.installmentCount} — Order #${orderId.substring(0, 8).toUpperCase()}`,
+        const provider = PaymentService.forCheckout(order.currency, order.event.paymentProvider);
+        const payment = await provider.initializeTransaction({
+            amount: installment.amount,
+            currency: order.currency,
+            description: `${eventTitle} — Installment ${installment.sequence}/${order.installmentPlan.installmentCount} — Order #${orderId.substring(0, 8).toUpperCase()}`,
             customer,
-            { orderId, installmentPaymentId, eventTitle },
-            callbackUrl
-        );
+            metadata: { orderId, installmentPaymentId, eventTitle },
+            callbackUrl,
+        });
 
         await prisma.installmentPayment.update({
             where: { id: installmentPaymentId },
-            data: { paymentReference: payment.reference, status: 'PENDING' }
+            data: { paymentProvider: provider.name, paymentReference: payment.reference, status: 'PENDING' }
         });
 
         return {
@@ -689,18 +1242,313 @@ export class BookingService {
     }
 
     /**
-     * Initialize payment via Paystack (for paid tickets)
+     * Get the shares of a group booking, as seen by the initiator.
+     */
+    static async getGroupBooking(orderId: string, userId: string | undefined) {
+        const order = await prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            include: { groupBooking: { include: { shares: { orderBy: { createdAt: 'asc' } } } } }
+        });
+
+        if (!order) throw new Error('Order not found');
+        if (userId && order.userId !== userId) throw new Error('Unauthorized');
+        if (!order.groupBooking) throw new Error('This order is not a group booking');
+
+        return this.formatGroupBooking(order.groupBooking);
+    }
+
+    /**
+     * Look up one share of a group booking by the token from its invite link. No sign-in
+     * needed — the token is the invitee's proof they were asked to pay.
+     */
+    static async getGroupShare(token: string) {
+        const share = await prisma.groupBookingShare.findUnique({
+            where: { token },
+            include: {
+                ticket: { select: { name: true } },
+                groupBooking: {
+                    include: {
+                        bookingOrder: {
+                            select: {
+                                currency: true,
+                                user: { select: { displayName: true, username: true } },
+                                event: { select: { id: true, title: true, coverImage: true, startDate: true, venueName: true, city: true } },
+                            }
+                        }
+                    }
+                },
+            }
+        });
+        if (!share) throw new Error('Share not found');
+
+        const group = share.groupBooking;
+        const order = group.bookingOrder;
+        return {
+            id: share.id,
+            event: order.event,
+            initiator: order.user.displayName || order.user.username,
+            ticketTypeName: share.ticket.name,
+            name: share.name,
+            email: share.email,
+            amount: share.amount,
+            serviceFee: share.serviceFee,
+            currency: order.currency,
+            status: share.status.toLowerCase(),
+            paidAt: share.paidAt?.toISOString(),
+            deadline: group.deadline.toISOString(),
+            payable: group.status === 'OPEN' && group.deadline > new Date() && (share.status === 'PENDING' || share.status === 'FAILED'),
+        };
+    }
+
+    /**
+     * Start a checkout for one share, from its invite link.
+     */
+    static async payGroupShare(token: string, callbackUrl: string) {
+        const share = await prisma.groupBookingShare.findUnique({ where: { token }, select: { id: true } });
+        if (!share) throw new Error('Share not found');
+        return this.initializeGroupSharePayment(share.id, callbackUrl);
+    }
+
+    /**
+     * Start a checkout for one share on the initiator's behalf — for their own seats, or
+     * to cover a friend's.
+     */
+    static async payGroupShareForOrder(orderId: string, shareId: string, userId: string | undefined, callbackUrl: string) {
+        const order = await prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            include: { groupBooking: { select: { id: true } } }
+        });
+
+        if (!order) throw new Error('Order not found');
+        if (userId && order.userId !== userId) throw new Error('Unauthorized');
+        if (!order.groupBooking) throw new Error('This order is not a group booking');
+
+        const share = await prisma.groupBookingShare.findUnique({ where: { id: shareId }, select: { groupBookingId: true } });
+        if (!share || share.groupBookingId !== order.groupBooking.id) throw new Error('Share not found');
+
+        return this.initializeGroupSharePayment(shareId, callbackUrl);
+    }
+
+    /**
+     * Initialize payment for a single share with the event's payment provider. The share
+     * keeps its own reference, exactly like an installment does.
+     */
+    private static async initializeGroupSharePayment(shareId: string, callbackUrl: string) {
+        const share = await prisma.groupBookingShare.findUniqueOrThrow({
+            where: { id: shareId },
+            include: {
+                ticket: { select: { name: true } },
+                groupBooking: {
+                    include: { bookingOrder: { include: { event: { select: { title: true, status: true, paymentProvider: true } } } } }
+                },
+            }
+        });
+        const group = share.groupBooking;
+        const order = group.bookingOrder;
+
+        if (share.status === 'PAID') throw new Error('This share has already been paid');
+        if (group.status !== 'OPEN' || group.deadline <= new Date() || (share.status !== 'PENDING' && share.status !== 'FAILED')) {
+            throw new Error('This group booking is no longer accepting payments');
+        }
+        if (order.event.status === 'CANCELLED') throw new Error('This event has been cancelled');
+
+        const provider = PaymentService.forCheckout(order.currency, order.event.paymentProvider);
+        const payment = await provider.initializeTransaction({
+            amount: share.amount,
+            currency: order.currency,
+            description: `${order.event.title} — ${share.ticket.name} (group booking) — Order #${order.id.substring(0, 8).toUpperCase()}`,
+            customer: { email: share.email, name: share.name ?? undefined },
+            metadata: { orderId: order.id, groupShareId: share.id, eventTitle: order.event.title },
+            callbackUrl,
+        });
+
+        // Conditional, so a checkout opened as the deadline sweep releases the seat can't revive it
+        const started = await prisma.groupBookingShare.updateMany({
+            where: { id: share.id, status: { in: ['PENDING', 'FAILED'] } },
+            data: { paymentProvider: provider.name, paymentReference: payment.reference, status: 'PENDING' }
+        });
+        if (started.count === 0) throw new Error('This group booking is no longer accepting payments');
+
+        return {
+            paymentUrl: payment.paymentUrl,
+            reference: payment.reference,
+            amount: share.amount,
+            currency: order.currency,
+            deadline: group.deadline.toISOString(),
+        };
+    }
+
+    /**
+     * Close a group booking once its deadline has passed: release every unpaid seat back to
+     * inventory and shrink the order to the seats that were paid for. If nobody paid, the
+     * order expires. Called by the group booking scheduler, and with `force` when the event
+     * is cancelled.
+     *
+     * Each seat is released with the same conditional flip a payment uses to claim it, so a
+     * share paid at the last moment keeps its ticket and is counted as paid here.
+     */
+    static async closeGroupBooking(orderId: string, force = false): Promise<boolean> {
+        const group = await prisma.groupBooking.findUnique({
+            where: { bookingOrderId: orderId },
+            include: { bookingOrder: { select: { userId: true, eventId: true, currency: true, event: { select: { title: true } } } } }
+        });
+        if (!group || group.status !== 'OPEN') return false;
+        if (!force && group.deadline > new Date()) return false;
+        const { currency } = group.bookingOrder;
+
+        const closed = await prisma.$transaction(async (tx) => {
+            const claimed = await tx.groupBooking.updateMany({
+                where: { id: group.id, status: 'OPEN' },
+                data: { status: 'CLOSED', closedAt: new Date() }
+            });
+            if (claimed.count === 0) return null;
+
+            const unpaid = await tx.groupBookingShare.findMany({
+                where: { groupBookingId: group.id, status: { in: ['PENDING', 'FAILED'] } },
+                select: { id: true, ticketId: true }
+            });
+            const releasedByTicket = new Map<string, number>();
+            for (const share of unpaid) {
+                const released = await tx.groupBookingShare.updateMany({
+                    where: { id: share.id, status: { in: ['PENDING', 'FAILED'] } },
+                    data: { status: 'RELEASED' }
+                });
+                if (released.count > 0) releasedByTicket.set(share.ticketId, (releasedByTicket.get(share.ticketId) ?? 0) + 1);
+            }
+            for (const [ticketId, count] of releasedByTicket) {
+                await tx.ticket.update({
+                    where: { id: ticketId },
+                    data: { remaining: { increment: count } },
+                });
+            }
+
+            const paid = await tx.groupBookingShare.findMany({
+                where: { groupBookingId: group.id, status: 'PAID' },
+                select: { amount: true, serviceFee: true, absorbedFee: true }
+            });
+
+            if (paid.length === 0) {
+                await tx.bookingOrder.updateMany({
+                    where: { id: orderId, status: 'PENDING' },
+                    data: { status: 'EXPIRED' }
+                });
+            } else {
+                // The order now stands for the paid seats only — that's what payouts and refunds see
+                for (const [ticketId, count] of releasedByTicket) {
+                    const item = await tx.orderItem.findFirst({ where: { orderId, ticketId } });
+                    if (!item) continue;
+                    if (item.quantity <= count) {
+                        await tx.orderItem.delete({ where: { id: item.id } });
+                    } else {
+                        await tx.orderItem.update({
+                            where: { id: item.id },
+                            data: { quantity: item.quantity - count, totalPrice: roundAmount(item.unitPrice * (item.quantity - count), currency) }
+                        });
+                    }
+                }
+
+                const serviceFee = roundAmount(paid.reduce((sum, sh) => sum + sh.serviceFee, 0), currency);
+                const absorbedFee = roundAmount(paid.reduce((sum, sh) => sum + sh.absorbedFee, 0), currency);
+                const total = roundAmount(paid.reduce((sum, sh) => sum + sh.amount, 0), currency);
+                await tx.bookingOrder.update({
+                    where: { id: orderId },
+                    data: {
+                        subtotal: roundAmount(total - serviceFee, currency), serviceFee, absorbedFee, total,
+                        paymentStatus: 'COMPLETED', paidAt: new Date()
+                    }
+                });
+                await LedgerService.recordSale(tx, orderId);
+            }
+
+            return {
+                paid: paid.length,
+                released: [...releasedByTicket.values()].reduce((sum, n) => sum + n, 0),
+                ticketIds: [...releasedByTicket.keys()],
+            };
+        });
+
+        if (!closed) return false;
+        if (closed.ticketIds.length > 0) offerReleasedToWaitlist(closed.ticketIds);
+        if (closed.paid > 0) this.sendGroupReceipt(orderId);
+
+        if (!force) {
+            const title = group.bookingOrder.event.title;
+            NotificationService.create({
+                userId: group.bookingOrder.userId,
+                type: 'GROUP_BOOKING',
+                title: closed.paid === 0 ? 'Group booking expired' : 'Group booking closed',
+                message: closed.paid === 0
+                    ? `Nobody paid for your group booking for "${title}" before the deadline, so the seats were released.`
+                    : `${closed.paid} seat${closed.paid > 1 ? 's' : ''} in your group booking for "${title}" ${closed.paid > 1 ? 'were' : 'was'} paid for. ${closed.released} unpaid seat${closed.released > 1 ? 's were' : ' was'} released.`,
+                actionUrl: `/profile?tab=tickets`,
+                metadata: { eventId: group.bookingOrder.eventId, orderId, groupBookingId: group.id },
+            }).catch(() => {});
+        }
+
+        return true;
+    }
+
+    /**
+     * Issue the initiator's receipt once a group booking is settled — when every share is
+     * paid, or at close for the shares that were. Fire-and-forget, like the invites.
+     */
+    private static sendGroupReceipt(orderId: string) {
+        InvoiceService.issueForOrder(orderId)
+            .then(receipt => receipt && InvoiceService.sendReceipt(receipt))
+            .catch(error => console.error('[GroupBooking] Failed to issue receipt:', error));
+    }
+
+    /**
+     * Email every invitee a link to pay their share. The initiator's own seats are skipped —
+     * they pay for those from the order. Fire-and-forget, like the other booking emails.
+     */
+    private static sendGroupInvites(orderId: string) {
+        prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            select: {
+                currency: true,
+                user: { select: { email: true, displayName: true, username: true } },
+                event: { select: { title: true, startDate: true } },
+                groupBooking: { include: { shares: { include: { ticket: { select: { name: true } } } } } },
+            }
+        }).then(order => {
+            if (!order?.groupBooking) return;
+            const initiatorName = order.user.displayName || order.user.username;
+            const eventDate = order.event.startDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+            for (const share of order.groupBooking.shares) {
+                if (share.email === order.user.email.toLowerCase()) continue;
+                emailQueue.add('group-booking-invite', {
+                    type: 'group-booking-invite',
+                    to: share.email,
+                    name: share.name,
+                    initiatorName,
+                    eventTitle: order.event.title,
+                    eventDate,
+                    ticketName: share.ticket.name,
+                    amount: formatMoney(share.amount, order.currency),
+                    payUrl: `${FRONTEND_URL}/group-bookings/${share.token}`,
+                    deadline: order.groupBooking.deadline.toUTCString(),
+                }).catch(err => console.error('Failed to queue group-booking-invite email:', err));
+            }
+        }).catch(err => console.error('[GroupBooking] Failed to send invites:', err));
+    }
+
+    /**
+     * Initialize payment with the event's payment provider (for paid tickets)
      */
     static async initializePayment(orderId: string, userId: string | undefined, paymentMethod: string, callbackUrl: string) {
         const order = await prisma.bookingOrder.findUnique({
             where: { id: orderId },
-            include: { event: { select: { title: true } } }
+            include: { event: { select: { title: true, paymentProvider: true, status: true } }, groupBooking: { select: { id: true } } }
         });
 
         if (!order) throw new Error('Order not found');
         if (userId && order.userId !== userId) throw new Error('Unauthorized');
         if (order.status !== 'PENDING') throw new Error('Cannot pay for this order');
+        if (order.event.status === 'CANCELLED') throw new Error('Cannot pay for this order: the event has been cancelled');
         if (order.total === 0) throw new Error('Use confirm endpoint for free tickets');
+        if (order.groupBooking) throw new Error('Cannot pay for a group booking in one payment — each share is paid separately');
 
         const eventTitle = (order as any).event?.title ?? 'Event Ticket';
 
@@ -720,21 +1568,22 @@ export class BookingService {
             phone: primaryAttendee?.phone ?? undefined,
         };
 
-        // Create Paystack payment
-        const payment = await PaymentService.initializeTransaction(
-            order.total,
-            order.currency,
-            `${eventTitle} — Order #${orderId.substring(0, 8).toUpperCase()}`,
+        const provider = PaymentService.forCheckout(order.currency, order.event.paymentProvider);
+        const payment = await provider.initializeTransaction({
+            amount: order.total,
+            currency: order.currency,
+            description: `${eventTitle} — Order #${orderId.substring(0, 8).toUpperCase()}`,
             customer,
-            { orderId, eventTitle },
-            callbackUrl
-        );
+            metadata: { orderId, eventTitle },
+            callbackUrl,
+        });
 
-        // Store the Paystack reference
+        // Store the provider reference
         await prisma.bookingOrder.update({
             where: { id: orderId },
             data: {
                 paymentMethod,
+                paymentProvider: provider.name,
                 paymentReference: payment.reference,
                 paymentStatus: 'PROCESSING'
             }
@@ -766,42 +1615,41 @@ export class BookingService {
             throw new Error('Payment not completed');
         }
 
-        // Create attendees if provided
-        let tickets: any[] = order.attendees;
-        if (attendees && attendees.length > 0) {
-            await prisma.attendee.deleteMany({ where: { orderId } });
+        // Validated before the order is claimed, so a bad answer leaves it confirmable
+        const answers = attendees?.length
+            ? await RegistrationQuestionService.checkAnswers(order.eventId, attendees)
+            : undefined;
 
-            const attendeeRecords = attendees.map(a => ({
-                orderId,
-                ticketId: a.ticketTypeId,
-                name: a.name,
-                email: a.email,
-                phone: a.phone,
-                city: a.city || null,
-                location: a.location || null,
-                ticketCode: `EVF-TKT-${uuidv4().substring(0, 8).toUpperCase()}`,
-            }));
-
-            await prisma.attendee.createMany({ data: attendeeRecords });
-            tickets = await prisma.attendee.findMany({ where: { orderId } });
-        }
+        // Claim the PENDING → CONFIRMED transition before any side effect, so a webhook retry
+        // racing the client's confirm call can't issue tickets or count attendees twice
+        let tickets: any[] = order.attendees;
+        const totalTickets = order.items.reduce((sum, item) => sum + item.quantity, 0);
+        await prisma.$transaction(async (tx) => {
+            const claimed = await tx.bookingOrder.updateMany({
+                where: { id: orderId, status: 'PENDING' },
+                data: {
+                    status: 'CONFIRMED',
+                    paymentStatus: order.total === 0 ? 'COMPLETED' : order.paymentStatus,
+                    paymentMethod: order.total === 0 ? 'free' : order.paymentMethod,
+                    confirmedAt: new Date()
+                }
+            });
+            if (claimed.count === 0) throw new Error('Order already confirmed');
 
-        // Update order status
-        await prisma.bookingOrder.update({
-            where: { id: orderId },
-            data: {
-                status: 'CONFIRMED',
-                paymentStatus: order.total === 0 ? 'COMPLETED' : order.paymentStatus,
-                paymentMethod: order.total === 0 ? 'free' : order.paymentMethod,
-                confirmedAt: new Date()
+            // Create attendees if provided
+            if (attendees && attendees.length > 0) {
+                await tx.attendee.deleteMany({ where: { orderId } });
+                await createAttendees(tx, orderId, attendees, answers!);
+                tickets = await tx.attendee.findMany({ where: { orderId } });
             }
-        });
 
-        // Update event attendee count
-        const totalTickets = order.items.reduce((sum, item) => sum + item.quantity, 0);
-        await prisma.event.update({
-            where: { id: order.eventId },
-            data: { attendeesCount: { increment: totalTickets } }
+            // Update event attendee count
+            await tx.event.update({
+                where: { id: order.eventId },
+                data: { attendeesCount: { increment: totalTickets } }
+            });
+
+            await LedgerService.recordSale(tx, orderId);
         });
 
         // Auto-add user to event chat
@@ -844,12 +1692,39 @@ export class BookingService {
             console.error('Failed to create booking notifications:', error);
         }
 
-        // Queue ticket confirmation emails for each attendee via BullMQ
+        const receipt = await InvoiceService.issueForOrder(order.id).catch(error => {
+            console.error('Failed to issue order receipt:', error);
+            return null;
+        });
+
+        await this.sendTicketEmails(order.eventId, tickets, receipt);
+
+        return {
+            orderId: order.id,
+            status: 'confirmed',
+            tickets: tickets.map((t: any) => ({
+                id: t.id,
+                ticketCode: t.ticketCode,
+                attendee: { name: t.name, email: t.email }
+            })),
+            message: 'Tickets have been sent to the attendee emails'
+        };
+    }
+
+    /**
+     * Queue a ticket confirmation email (with its QR code) for each issued ticket via BullMQ.
+     * The order's receipt rides along on the buyer's own ticket email, or goes out on its
+     * own when the buyer isn't one of the attendees.
+     */
+    private static async sendTicketEmails(eventId: string, tickets: any[], receipt: Invoice | null = null) {
+        const receiptTo = receipt ? InvoiceService.recipient(receipt).toLowerCase() : null;
+        let receiptSent = false;
+
         try {
             const event = await prisma.event.findUnique({
-                where: { id: order.eventId },
+                where: { id: eventId },
                 select: {
-                    title: true, slug: true, startDate: true, venueName: true, address: true, city: true, coverImage: true,
+                    title: true, slug: true, startDate: true, endDate: true, venueName: true, address: true, city: true, coverImage: true,
                     organizer: { select: { displayName: true, username: true, avatar: true } },
                 }
             });
@@ -862,11 +1737,16 @@ export class BookingService {
 
                 for (const ticket of tickets) {
                     if (ticket.email) {
+                        const withReceipt = !receiptSent && ticket.email.toLowerCase() === receiptTo;
+                        if (withReceipt) receiptSent = true;
                         emailQueue.add('ticket-confirmation', {
                             type: 'ticket-confirmation',
                             to: ticket.email,
                             eventTitle: event.title,
                             userTitle: ticket.name || 'Attendee',
+                            qrCodeUrl: TicketQrService.imageUrl(
+                                TicketQrService.payloadFor(ticket, { id: eventId, endDate: event.endDate })
+                            ),
                             startDate: eventDate,
                             venue,
                             eventImageUrl: event.coverImage,
@@ -874,6 +1754,7 @@ export class BookingService {
                             organizerName: event.organizer?.displayName,
                             organizerAvatarUrl: event.organizer?.avatar,
                             organizerProfileUrl: event.organizer?.username ? `https://eventfi.live/profile/${event.organizer.username}` : undefined,
+                            ...(withReceipt && { invoiceId: receipt!.id, invoiceNumber: receipt!.number }),
                         }).catch(err => console.error('Failed to queue ticket confirmation email:', err));
                     }
                 }
@@ -882,44 +1763,48 @@ export class BookingService {
             console.error('Failed to queue ticket confirmation emails:', error);
         }
 
-        return {
-            orderId: order.id,
-            status: 'confirmed',
-            tickets: tickets.map((t: any) => ({
-                id: t.id,
-                ticketCode: t.ticketCode,
-                attendee: { name: t.name, email: t.email }
-            })),
-            message: 'Tickets have been sent to the attendee emails'
-        };
+        if (receipt && !receiptSent) InvoiceService.sendReceipt(receipt);
     }
 
     /**
-     * Handle Paystack payment webhook.
+     * Handle a payment webhook, already normalized by the provider that sent it.
      *
      * Relevant events:
      *   charge.success — payment settled; confirm the order
      *   charge.failed  — payment failed; release tickets
      *
-     * Signature is already verified by the controller before this is called.
+     * Signature is already verified by the controller before this is called. Only payments
+     * started with the same provider match, so one provider can't settle another's charge.
      */
-    static async handlePaymentWebhook(event: string, data: any) {
-        const reference = data?.reference;
+    static async handlePaymentWebhook(provider: PaymentProviderName, charge: PaymentWebhookEvent) {
+        if (charge.type === 'ignored') return { received: true };
+
+        const reference = charge.reference;
         if (!reference) throw new Error('Missing reference in webhook payload');
+        const event = charge.type;
 
-        // Installment payments carry their own reference distinct from the order's —
-        // check there first before falling back to the full-payment order lookup.
+        // Installment payments and group booking shares carry their own reference distinct
+        // from the order's — check those first before falling back to the full-payment order lookup.
         const installmentPayment = await prisma.installmentPayment.findFirst({
-            where: { paymentReference: reference },
+            where: { paymentReference: reference, paymentProvider: provider },
             include: { installmentPlan: { include: { bookingOrder: true } } }
         });
 
         if (installmentPayment) {
-            return this.handleInstallmentWebhook(event, installmentPayment);
+            return this.handleInstallmentWebhook(event, installmentPayment, charge);
+        }
+
+        const groupShare = await prisma.groupBookingShare.findFirst({
+            where: { paymentReference: reference, paymentProvider: provider },
+            include: { groupBooking: { include: { bookingOrder: true } } }
+        });
+
+        if (groupShare) {
+            return this.handleGroupShareWebhook(event, groupShare, charge);
         }
 
         const order = await prisma.bookingOrder.findFirst({
-            where: { paymentReference: reference },
+            where: { paymentReference: reference, paymentProvider: provider },
             include: { items: true }
         });
 
@@ -929,46 +1814,90 @@ export class BookingService {
         }
 
         if (event === 'charge.success') {
-            // Mark payment complete then run full confirmation flow
-            await prisma.bookingOrder.update({
-                where: { id: order.id },
+            if (!chargeCovers(charge, order.total, order.currency)) {
+                console.error(`[Webhook] Charge ${reference} does not match order ${order.id} (${order.currency} ${order.total}) — not confirming`);
+                return { received: true };
+            }
+
+            // Mark payment complete then run full confirmation flow — only while the order can
+            // still take it, so a late charge on an expired or cancelled order (or event) is never absorbed
+            const paid = await prisma.bookingOrder.updateMany({
+                where: {
+                    id: order.id,
+                    status: 'PENDING',
+                    paymentStatus: { not: 'COMPLETED' },
+                    event: { status: { not: 'CANCELLED' } }
+                },
                 data: {
                     paymentStatus: 'COMPLETED',
                     paidAt: new Date()
                 }
             });
+            if (paid.count === 0) {
+                // Re-read: the expiry sweep or a cancellation may have got there since the lookup
+                const current = await prisma.bookingOrder.findUniqueOrThrow({
+                    where: { id: order.id },
+                    select: {
+                        id: true, userId: true, eventId: true, total: true, currency: true, status: true, paymentStatus: true,
+                        event: { select: { status: true } }
+                    }
+                });
+                if (current.paymentStatus !== 'COMPLETED') {
+                    if (current.event.status === 'CANCELLED') {
+                        // The event was cancelled under the buyer — give the seats back and refund the charge
+                        if (current.status === 'PENDING') await this.cancelPendingOrder(order.id);
+                        await refundChargeOnCancelledEvent(provider, current, charge);
+                        return { received: true };
+                    }
+                    if (current.status === 'EXPIRED' || current.status === 'CANCELLED') {
+                        await recordPaidAfterExpiry(provider, current, charge);
+                        return { received: true };
+                    }
+                }
+                if (current.status !== 'PENDING') return { received: true, duplicate: true };
+            }
 
             // Confirm the order (sends notifications, emails, increments attendee count, etc.)
-            if (order.status === 'PENDING') {
+            try {
                 await this.confirmOrder(order.id, undefined);
+            } catch (error: any) {
+                // A concurrent delivery (or the buyer's own confirm call) got there first
+                if (error.message !== 'Order already confirmed') throw error;
+                return { received: true, duplicate: true };
             }
         } else if (event === 'charge.failed') {
-            if (order.status !== 'PENDING') return { received: true };
+            // Cancel and release inventory in one step, only if still PENDING — a retried
+            // failure webhook must not hand the same seats back twice
+            const cancelled = await prisma.$transaction(async (tx) => {
+                const claimed = await tx.bookingOrder.updateMany({
+                    where: { id: order.id, status: 'PENDING' },
+                    data: {
+                        status: 'CANCELLED',
+                        paymentStatus: 'FAILED'
+                    }
+                });
+                if (claimed.count === 0) return false;
 
-            // Release reserved tickets back to inventory
-            await prisma.$transaction(
-                order.items.map(item =>
-                    prisma.ticket.update({
+                // Release reserved tickets back to inventory
+                for (const item of order.items) {
+                    await tx.ticket.update({
                         where: { id: item.ticketId },
                         data: { remaining: { increment: item.quantity } },
-                    })
-                )
-            );
-
-            await prisma.bookingOrder.update({
-                where: { id: order.id },
-                data: {
-                    status: 'CANCELLED',
-                    paymentStatus: 'FAILED'
+                    });
                 }
+                await PromoService.releaseForOrder(tx, order.id);
+                return true;
             });
+            if (!cancelled) return { received: true, duplicate: true };
+
+            offerReleasedToWaitlist(order.items.map(i => i.ticketId));
         }
 
         return { received: true };
     }
 
     /**
-     * Handle a Paystack webhook event for a single installment payment.
+     * Handle a payment webhook event for a single installment payment.
      *
      *   charge.success — mark this installment PAID; if it was the last one
      *                     pending, complete the plan and confirm the order
@@ -976,7 +1905,7 @@ export class BookingService {
      *   charge.failed   — mark this installment FAILED; the order/plan are left
      *                     alone so the attendee can retry via the pay endpoint.
      */
-    private static async handleInstallmentWebhook(event: string, installmentPayment: any) {
+    private static async handleInstallmentWebhook(event: string, installmentPayment: any, charge: PaymentWebhookEvent) {
         const plan = installmentPayment.installmentPlan;
         const order = plan.bookingOrder;
 
@@ -986,21 +1915,33 @@ export class BookingService {
 
         if (event === 'charge.success') {
             if (installmentPayment.status === 'PAID') return { received: true };
+            if (!chargeCovers(charge, installmentPayment.amount, order.currency)) {
+                console.error(`[Webhook] Charge ${installmentPayment.paymentReference} does not match installment ${installmentPayment.id} — not marking paid`);
+                return { received: true };
+            }
 
-            await prisma.installmentPayment.update({
-                where: { id: installmentPayment.id },
+            const marked = await prisma.installmentPayment.updateMany({
+                where: { id: installmentPayment.id, status: { not: 'PAID' } },
                 data: { status: 'PAID', paidAt: new Date() }
             });
+            if (marked.count === 0) return { received: true, duplicate: true };
+
+            InvoiceService.issueForInstallment(installmentPayment.id)
+                .then(receipt => receipt && InvoiceService.sendReceipt(receipt))
+                .catch(error => console.error('Failed to issue installment receipt:', error));
 
             const remaining = await prisma.installmentPayment.count({
                 where: { installmentPlanId: plan.id, status: { not: 'PAID' } }
             });
 
             if (remaining === 0) {
-                await prisma.installmentPlan.update({
-                    where: { id: plan.id },
+                // Two final installments settling at once both see remaining === 0; only one completes the plan
+                const completed = await prisma.installmentPlan.updateMany({
+                    where: { id: plan.id, status: 'ACTIVE' },
                     data: { status: 'COMPLETED' }
                 });
+                if (completed.count === 0) return { received: true, duplicate: true };
+
                 await prisma.bookingOrder.update({
                     where: { id: order.id },
                     data: { paymentStatus: 'COMPLETED', paymentMethod: 'installment', paidAt: new Date() }
@@ -1017,14 +1958,156 @@ export class BookingService {
                 }).catch(() => {});
             }
         } else if (event === 'charge.failed') {
-            if (installmentPayment.status !== 'PAID') {
-                await prisma.installmentPayment.update({
-                    where: { id: installmentPayment.id },
-                    data: { status: 'FAILED' }
+            await prisma.installmentPayment.updateMany({
+                where: { id: installmentPayment.id, status: { not: 'PAID' } },
+                data: { status: 'FAILED' }
+            });
+        }
+
+        return { received: true };
+    }
+
+    /**
+     * Handle a payment webhook event for one share of a group booking.
+     *
+     *   charge.success — mark the share PAID and issue its ticket straight away. The first
+     *                     paid share confirms the order; the last one completes the group.
+     *   charge.failed   — mark the share FAILED; the invitee can retry until the deadline.
+     */
+    private static async handleGroupShareWebhook(event: string, share: any, charge: PaymentWebhookEvent) {
+        const group = share.groupBooking;
+        const order = group.bookingOrder;
+
+        if (event === 'charge.failed') {
+            await prisma.groupBookingShare.updateMany({
+                where: { id: share.id, status: 'PENDING' },
+                data: { status: 'FAILED' }
+            });
+            return { received: true };
+        }
+
+        if (event !== 'charge.success') return { received: true };
+        if (share.status === 'PAID') return { received: true, duplicate: true };
+        if (!chargeCovers(charge, share.amount, order.currency)) {
+            console.error(`[Webhook] Charge ${share.paymentReference} does not match group share ${share.id} — not marking paid`);
+            return { received: true };
+        }
+
+        // Invitees hold their own ticket; the initiator's seats stay on the order like any other
+        const buyer = await prisma.user.findUnique({ where: { id: order.userId }, select: { email: true } });
+        const holderId = buyer?.email.toLowerCase() === share.email ? null : await resolveUserId(undefined, share.email);
+
+        const issued = await prisma.$transaction(async (tx) => {
+            // Only while the seat is still held — the deadline sweep releases it with the same kind of flip
+            const marked = await tx.groupBookingShare.updateMany({
+                where: { id: share.id, status: { in: ['PENDING', 'FAILED'] } },
+                data: { status: 'PAID', paidAt: new Date() }
+            });
+            if (marked.count === 0) return null;
+
+            const attendee = await tx.attendee.create({
+                data: {
+                    orderId: order.id,
+                    ticketId: share.ticketId,
+                    name: share.name || share.email.split('@')[0],
+                    email: share.email,
+                    holderId,
+                    ticketCode: `EVF-TKT-${uuidv4().substring(0, 8).toUpperCase()}`,
+                }
+            });
+            await tx.groupBookingShare.update({ where: { id: share.id }, data: { attendeeId: attendee.id } });
+            await tx.event.update({
+                where: { id: order.eventId },
+                data: { attendeesCount: { increment: 1 } }
+            });
+
+            // The first paid share confirms the order, so every ticket issued from it is valid at the door
+            await tx.bookingOrder.updateMany({
+                where: { id: order.id, status: 'PENDING' },
+                data: { status: 'CONFIRMED', paymentMethod: 'group', confirmedAt: new Date() }
+            });
+
+            const unpaid = await tx.groupBookingShare.count({
+                where: { groupBookingId: group.id, status: { not: 'PAID' } }
+            });
+            if (unpaid === 0) {
+                const completed = await tx.groupBooking.updateMany({
+                    where: { id: group.id, status: 'OPEN' },
+                    data: { status: 'COMPLETED', closedAt: new Date() }
+                });
+                if (completed.count > 0) {
+                    await tx.bookingOrder.update({
+                        where: { id: order.id },
+                        data: { paymentStatus: 'COMPLETED', paidAt: new Date() }
+                    });
+                    await LedgerService.recordSale(tx, order.id);
+                }
+            }
+
+            return { attendee, unpaid };
+        });
+
+        if (!issued) {
+            const current = await prisma.groupBookingShare.findUnique({ where: { id: share.id }, select: { status: true } });
+            if (current?.status === 'RELEASED' || current?.status === 'CANCELLED') {
+                // Paid for a seat that was already given up — keep the payment on record so it can be refunded
+                await prisma.groupBookingShare.updateMany({
+                    where: { id: share.id, paidAt: null },
+                    data: { paidAt: new Date() }
                 });
+                console.error(`[Webhook] Charge ${share.paymentReference} paid group share ${share.id} after its seat was released — refund the payer`);
+                return { received: true };
             }
+            return { received: true, duplicate: true };
+        }
+
+        try {
+            await ChatService.getOrJoinChat(order.eventId, holderId ?? order.userId);
+        } catch (error) {
+            console.error('Failed to auto-join chat:', error);
         }
 
+        const eventForNotif = await prisma.event.findUnique({
+            where: { id: order.eventId },
+            select: { title: true, organizerId: true }
+        });
+        if (eventForNotif) {
+            const payerName = share.name || share.email;
+            NotificationService.create({
+                userId: order.userId,
+                type: 'GROUP_BOOKING',
+                title: issued.unpaid === 0 ? 'Group booking complete' : 'Group booking share paid',
+                message: issued.unpaid === 0
+                    ? `Every seat in your group booking for "${eventForNotif.title}" is paid for.`
+                    : `${holderId ? `${payerName} paid for their` : 'You paid for a'} seat for "${eventForNotif.title}". ${issued.unpaid} seat${issued.unpaid > 1 ? 's' : ''} still unpaid.`,
+                actionUrl: `/profile?tab=tickets`,
+                metadata: { eventId: order.eventId, orderId: order.id, groupBookingId: group.id },
+            }).catch(() => {});
+
+            if (holderId) {
+                NotificationService.create({
+                    userId: holderId,
+                    type: 'TICKET_SALE',
+                    title: 'Booking Confirmed!',
+                    message: `Your ticket for "${eventForNotif.title}" is confirmed. See you there!`,
+                    actionUrl: `/profile?tab=tickets`,
+                    metadata: { eventId: order.eventId, orderId: order.id, ticketCount: 1 },
+                }).catch(() => {});
+            }
+
+            NotificationService.create({
+                userId: eventForNotif.organizerId,
+                type: 'TICKET_SALE',
+                title: 'New Ticket Sale',
+                message: `1 ticket sold for "${eventForNotif.title}" (group booking).`,
+                actionUrl: `/events/${order.eventId}/manage`,
+                metadata: { eventId: order.eventId, orderId: order.id, ticketCount: 1 },
+            }).catch(() => {});
+        }
+
+        await this.sendTicketEmails(order.eventId, [issued.attendee]);
+        if (issued.unpaid === 0) this.sendGroupReceipt(order.id);
+
         return { received: true };
     }
 
@@ -1048,6 +2131,13 @@ export class BookingService {
                     },
                     installmentPlan: {
                         include: { payments: { orderBy: { sequence: 'asc' } } }
+                    },
+                    groupBooking: {
+                        include: { shares: { orderBy: { createdAt: 'asc' } } }
+                    },
+                    invoices: {
+                        select: { id: true, number: true, kind: true, total: true, issuedAt: true },
+                        orderBy: { sequence: 'asc' }
                     }
                 }
             })
@@ -1065,8 +2155,10 @@ export class BookingService {
     static async getUserTickets(userId: string, status?: string, upcoming?: boolean, page: number = 1, limit: number = 10) {
         const skip = (page - 1) * limit;
 
+        // Transferred tickets belong to their holder, not the buyer
         const where: any = {
-            order: { userId, status: 'CONFIRMED' }
+            order: { status: 'CONFIRMED' },
+            OR: [{ holderId: userId }, { holderId: null, order: { userId } }]
         };
 
         if (status) where.status = status;
@@ -1109,7 +2201,8 @@ export class BookingService {
                 status: a.status,
                 checkedIn: a.checkedIn,
                 checkedInAt: a.checkedInAt?.toISOString(),
-                purchasedAt: a.createdAt.toISOString()
+                purchasedAt: a.createdAt.toISOString(),
+                transferredAt: a.transferredAt?.toISOString() ?? null
             }))
         };
     }
@@ -1121,7 +2214,7 @@ export class BookingService {
         const attendee = await prisma.attendee.findUnique({
             where: { id: ticketId },
             include: {
-                ticket: { select: { name: true, type: true } },
+                ticket: { select: { name: true, type: true, allowTransfers: true } },
                 order: {
                     include: {
                         event: {
@@ -1137,7 +2230,12 @@ export class BookingService {
         });
 
         if (!attendee) throw new Error('Ticket not found');
-        if (attendee.order.userId !== userId) throw new Error('Unauthorized');
+        if ((attendee.holderId ?? attendee.order.userId) !== userId) throw new Error('Unauthorized');
+
+        // Only a live ticket gets a scannable code
+        const qrPayload = attendee.status === 'valid'
+            ? TicketQrService.payloadFor(attendee, attendee.order.event)
+            : null;
 
         return {
             id: attendee.id,
@@ -1148,7 +2246,11 @@ export class BookingService {
             status: attendee.status,
             checkedIn: attendee.checkedIn,
             checkedInAt: attendee.checkedInAt?.toISOString(),
-            purchasedAt: attendee.createdAt.toISOString()
+            purchasedAt: attendee.createdAt.toISOString(),
+            transferredAt: attendee.transferredAt?.toISOString() ?? null,
+            transferable: attendee.ticket.allowTransfers && attendee.status === 'valid' && !attendee.checkedIn,
+            qrPayload,
+            qrCodeUrl: qrPayload ? TicketQrService.imageUrl(qrPayload) : null
         };
     }
 
@@ -1165,7 +2267,10 @@ export class BookingService {
                 unitPrice: i.unitPrice,
                 totalPrice: i.totalPrice
             })),
-            attendees: order.attendees,
+            // A ticket that has been transferred away is the new holder's — the buyer no longer sees its code
+            attendees: order.attendees?.map((a: any) =>
+                a.holderId && a.holderId !== order.userId ? { ...a, ticketCode: null } : a
+            ),
             subtotal: order.subtotal,
             serviceFee: order.serviceFee,
             discount: order.discount,
@@ -1176,6 +2281,7 @@ export class BookingService {
             paymentMethod: order.paymentMethod,
             paymentReference: order.paymentReference,
             promoCode: order.promoCode,
+            refundedAmount: order.refundedAmount,
             createdAt: order.createdAt.toISOString(),
             updatedAt: order.updatedAt.toISOString(),
             expiresAt: order.expiresAt?.toISOString(),
@@ -1196,7 +2302,40 @@ export class BookingService {
                     paymentReference: p.paymentReference,
                     paidAt: p.paidAt?.toISOString(),
                 })),
-            } : null
+            } : null,
+            groupBooking: order.groupBooking ? this.formatGroupBooking(order.groupBooking) : null,
+            invoices: order.invoices?.map((inv: any) => ({
+                id: inv.id,
+                number: inv.number,
+                kind: inv.kind.toLowerCase(),
+                total: inv.total,
+                issuedAt: inv.issuedAt.toISOString(),
+                downloadUrl: InvoiceService.downloadUrl(order.id, inv.id),
+            }))
+        };
+    }
+
+    private static formatGroupBooking(group: any) {
+        return {
+            id: group.id,
+            deadline: group.deadline.toISOString(),
+            status: group.status.toLowerCase(),
+            closedAt: group.closedAt?.toISOString(),
+            shares: group.shares?.map((sh: any) => ({
+                id: sh.id,
+                ticketTypeId: sh.ticketId,
+                name: sh.name,
+                email: sh.email,
+                amount: sh.amount,
+                serviceFee: sh.serviceFee,
+                status: sh.status.toLowerCase(),
+                paymentReference: sh.paymentReference,
+                paidAt: sh.paidAt?.toISOString(),
+                // Lets the initiator pass the link on again if an invite went astray
+                payUrl: group.status === 'OPEN' && (sh.status === 'PENDING' || sh.status === 'FAILED')
+                    ? `${FRONTEND_URL}/group-bookings/${sh.token}`
+                    : null,
+            })),
         };
     }
 }
@@ -0,0 +1,307 @@
+import { CheckInScanOutcome } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ManageService } from './manage.service';
+import { TicketQrService } from './ticketQr.service';
+
+export interface OfflineScan {
+    clientScanId: string;
+    ticketCode?: string;
+    qrPayload?: string;
+    scannedAt: string;
+}
+
+interface ScanDevice {
+    deviceId: string;
+    deviceName?: string;
+}
+
+interface ScanResult {
+    outcome: CheckInScanOutcome;
+    attendeeId: string | null;
+    ticketCode: string | null;
+    reason: string | null;
+}
+
+export class CheckInService {
+    /**
+     * Everything a door scanner needs to keep checking people in without a connection:
+     * every ticket on a confirmed order, plus the key to verify signed QR codes with.
+     */
+    static async getManifest(eventId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        const event = await prisma.event.findUnique({
+            where: { id: eventId },
+            select: { id: true, title: true, startDate: true, endDate: true, status: true },
+        });
+        if (!event) throw new Error('Event not found');
+
+        const attendees = await prisma.attendee.findMany({
+            where: { order: { eventId, status: 'CONFIRMED' } },
+            select: {
+                id: true, ticketId: true, ticketCode: true, name: true, status: true,
+                checkedIn: true, checkedInAt: true,
+                ticket: { select: { name: true } },
+            },
+            orderBy: { name: 'asc' },
+        });
+
+        return {
+            event,
+            generatedAt: new Date().toISOString(),
+            verificationKey: TicketQrService.getVerificationKey(),
+            attendees: attendees.map(a => ({
+                id: a.id,
+                ticketCode: a.ticketCode,
+                name: a.name,
+                ticketTypeId: a.ticketId,
+                ticketType: a.ticket.name,
+                status: a.status,
+                checkedIn: a.checkedIn,
+                checkedInAt: a.checkedInAt?.toISOString() ?? null,
+            })),
+        };
+    }
+
+    /**
+     * Apply a batch of scans a device recorded offline. The earliest scan of a ticket, across
+     * all devices, becomes its check-in; later ones are logged as duplicates. Every scan is
+     * kept as an audit row, and re-uploading a batch returns the original outcomes.
+     */
+    static async syncScans(eventId: string, userId: string, device: ScanDevice, scans: OfflineScan[]) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        // Oldest first, so a device's own repeat scans resolve in the order they happened
+        const ordered = [...scans].sort((a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime());
+
+        const results: (ScanResult & { clientScanId: string; replayed: boolean })[] = [];
+        for (const scan of ordered) {
+            const existing = await prisma.checkInScan.findUnique({
+                where: { deviceId_clientScanId: { deviceId: device.deviceId, clientScanId: scan.clientScanId } },
+            });
+            if (existing) {
+                results.push({
+                    clientScanId: scan.clientScanId,
+                    outcome: existing.outcome,
+                    attendeeId: existing.attendeeId,
+                    ticketCode: existing.ticketCode,
+                    reason: existing.reason,
+                    replayed: true,
+                });
+                continue;
+            }
+
+            const result = await this.applyScan(eventId, userId, device, scan);
+            results.push({ clientScanId: scan.clientScanId, ...result, replayed: false });
+        }
+
+        const count = (outcome: CheckInScanOutcome) => results.filter(r => r.outcome === outcome).length;
+        return {
+            deviceId: device.deviceId,
+            syncedAt: new Date().toISOString(),
+            summary: {
+                total: results.length,
+                accepted: count('ACCEPTED'),
+                duplicate: count('DUPLICATE'),
+                rejected: count('REJECTED'),
+            },
+            results: results.map(r => ({ ...r, outcome: r.outcome.toLowerCase() })),
+        };
+    }
+
+    /**
+     * Per-device activity for the event: how many scans each scanner uploaded and how they resolved.
+     */
+    static async listDevices(eventId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        const groups = await prisma.checkInScan.groupBy({
+            by: ['deviceId', 'outcome'],
+            where: { eventId },
+            _count: { _all: true },
+            _max: { scannedAt: true, syncedAt: true },
+        });
+        const names = await prisma.checkInScan.findMany({
+            where: { eventId, deviceName: { not: null } },
+            distinct: ['deviceId'],
+            orderBy: { syncedAt: 'desc' },
+            select: { deviceId: true, deviceName: true },
+        });
+        const nameOf = new Map(names.map(n => [n.deviceId, n.deviceName]));
+
+        const devices = new Map<string, any>();
+        for (const group of groups) {
+            const device = devices.get(group.deviceId) ?? {
+                deviceId: group.deviceId,
+                deviceName: nameOf.get(group.deviceId) ?? null,
+                scans: { total: 0, accepted: 0, duplicate: 0, rejected: 0 },
+                lastScanAt: null as Date | null,
+                lastSyncAt: null as Date | null,
+            };
+            device.scans.total += group._count._all;
+            device.scans[group.outcome.toLowerCase()] += group._count._all;
+            if (group._max.scannedAt && (!device.lastScanAt || group._max.scannedAt > device.lastScanAt)) device.lastScanAt = group._max.scannedAt;
+            if (group._max.syncedAt && (!device.lastSyncAt || group._max.syncedAt > device.lastSyncAt)) device.lastSyncAt = group._max.syncedAt;
+            devices.set(group.deviceId, device);
+        }
+
+        return [...devices.values()].map(d => ({
+            ...d,
+            lastScanAt: d.lastScanAt?.toISOString() ?? null,
+            lastSyncAt: d.lastSyncAt?.toISOString() ?? null,
+        }));
+    }
+
+    /**
+     * The scan audit trail, newest first (?deviceId=&outcome=).
+     */
+    static async listScans(
+        eventId: string,
+        userId: string,
+        filters: { deviceId?: string; outcome?: CheckInScanOutcome; page?: number; limit?: number } = {}
+    ) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        const page = filters.page || 1;
+        const limit = filters.limit || 50;
+        const where = {
+            eventId,
+            ...(filters.deviceId && { deviceId: filters.deviceId }),
+            ...(filters.outcome && { outcome: filters.outcome }),
+        };
+
+        const [total, scans] = await prisma.$transaction([
+            prisma.checkInScan.count({ where }),
+            prisma.checkInScan.findMany({
+                where,
+                skip: (page - 1) * limit,
+                take: limit,
+                orderBy: { scannedAt: 'desc' },
+                include: {
+                    attendee: { select: { name: true } },
+                    scannedBy: { select: { displayName: true } },
+                },
+            }),
+        ]);
+
+        return {
+            meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+            data: scans.map(s => ({
+                id: s.id,
+                deviceId: s.deviceId,
+                deviceName: s.deviceName,
+                clientScanId: s.clientScanId,
+                attendeeId: s.attendeeId,
+                attendeeName: s.attendee?.name ?? null,
+                ticketCode: s.ticketCode,
+                scannedBy: s.scannedBy.displayName,
+                scannedAt: s.scannedAt.toISOString(),
+                syncedAt: s.syncedAt.toISOString(),
+                outcome: s.outcome.toLowerCase(),
+                reason: s.reason,
+            })),
+        };
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async applyScan(eventId: string, userId: string, device: ScanDevice, scan: OfflineScan): Promise<ScanResult> {
+        const now = new Date();
+        // Device clocks drift; a scan can't have happened after it reached us
+        const deviceTime = new Date(scan.scannedAt);
+        const scannedAt = deviceTime > now ? now : deviceTime;
+
+        const result = await this.resolveScan(eventId, device.deviceId, scan, scannedAt);
+
+        try {
+            await prisma.checkInScan.create({
+                data: {
+                    eventId,
+                    attendeeId: result.attendeeId,
+                    deviceId: device.deviceId,
+                    deviceName: device.deviceName || null,
+                    clientScanId: scan.clientScanId,
+                    ticketCode: result.ticketCode,
+                    scannedById: userId,
+                    scannedAt,
+                    outcome: result.outcome,
+                    reason: result.reason,
+                },
+            });
+        } catch (error: any) {
+            // The same batch is being synced concurrently — report what the other request recorded
+            if (error.code !== 'P2002') throw error;
+            const existing = await prisma.checkInScan.findUniqueOrThrow({
+                where: { deviceId_clientScanId: { deviceId: device.deviceId, clientScanId: scan.clientScanId } },
+            });
+            return { outcome: existing.outcome, attendeeId: existing.attendeeId, ticketCode: existing.ticketCode, reason: existing.reason };
+        }
+
+        return result;
+    }
+
+    private static async resolveScan(eventId: string, deviceId: string, scan: OfflineScan, scannedAt: Date): Promise<ScanResult> {
+        const rejected = (reason: string, attendeeId: string | null = null, ticketCode: string | null = scan.ticketCode ?? null): ScanResult =>
+            ({ outcome: 'REJECTED', attendeeId, ticketCode, reason });
+
+        let ticketCode = scan.ticketCode ?? null;
+        let attendeeId: string | null = null;
+        if (scan.qrPayload) {
+            try {
+                const claims = TicketQrService.verify(scan.qrPayload, scannedAt);
+                if (claims.eventId !== eventId) return rejected('Ticket is for a different event', null, claims.ticketCode);
+                ticketCode = claims.ticketCode;
+                attendeeId = claims.attendeeId;
+            } catch (error: any) {
+                return rejected(error.message);
+            }
+        }
+
+        const attendee = await prisma.attendee.findFirst({
+            where: attendeeId ? { id: attendeeId } : { ticketCode: ticketCode! },
+            include: { order: { select: { eventId: true, status: true } } },
+        });
+
+        if (!attendee || attendee.order.eventId !== eventId) return rejected('Unknown ticket');
+        if (attendee.ticketCode !== ticketCode) return rejected('Ticket has been re-issued', attendee.id);
+        if (attendee.order.status !== 'CONFIRMED') return rejected('Order is not confirmed', attendee.id);
+        if (attendee.status === 'cancelled') return rejected('Ticket has been cancelled', attendee.id);
+
+        const checkIn = { checkedIn: true, checkedInAt: scannedAt, checkInMethod: 'offline_sync', checkInDevice: deviceId };
+        const accepted: ScanResult = { outcome: 'ACCEPTED', attendeeId: attendee.id, ticketCode, reason: null };
+
+        const first = await prisma.attendee.updateMany({
+            where: { id: attendee.id, checkedIn: false },
+            data: checkIn,
+        });
+        if (first.count === 1) return accepted;
+
+        // Already checked in — the earlier of the two scans wins
+        const earlier = await prisma.$transaction(async (tx) => {
+            const moved = await tx.attendee.updateMany({
+                where: { id: attendee.id, checkedInAt: { gt: scannedAt } },
+                data: checkIn,
+            });
+            if (moved.count === 0) return false;
+
+            await tx.checkInScan.updateMany({
+                where: { attendeeId: attendee.id, outcome: 'ACCEPTED' },
+                data: { outcome: 'DUPLICATE', reason: `Superseded by an earlier scan on device ${deviceId}` },
+            });
+            return true;
+        });
+        if (earlier) return accepted;
+
+        const current = await prisma.attendee.findUniqueOrThrow({
+            where: { id: attendee.id },
+            select: { checkedInAt: true, checkInDevice: true, checkInMethod: true },
+        });
+        const where = current.checkInDevice ? `on device ${current.checkInDevice}` : `via ${current.checkInMethod ?? 'manual'} check-in`;
+        return {
+            outcome: 'DUPLICATE',
+            attendeeId: attendee.id,
+            ticketCode,
+            reason: `Already checked in ${where} at ${current.checkedInAt?.toISOString()}`,
+        };
+    }
+}
@@ -2,6 +2,11 @@ import nodemailer from 'nodemailer';
 import { Resend } from 'resend';
 import { EmailTemplates } from '../utils/email.templates';
 
+export interface EmailAttachment {
+    filename: string;
+    content: Buffer;
+}
+
 export class EmailService {
     private static transporter: nodemailer.Transporter | null = null;
     private static resendClient: Resend | null = null;
@@ -42,13 +47,13 @@ export class EmailService {
      * auth-rate-limit blocks. Resend is the paid fallback — only hit when Gmail
      * actually fails, so the free-tier Resend quota is reserved for overflow.
      */
-    static async send(to: string, subject: string, html: string, text?: string) {
+    static async send(to: string, subject: string, html: string, text?: string, attachments?: EmailAttachment[]) {
         const transporter = this.getTransporter();
         const smtpFrom = process.env.EMAIL_FROM || (process.env.SMTP_USER ? `EventFi <${process.env.SMTP_USER}>` : undefined);
 
         if (transporter && smtpFrom) {
             try {
-                const info = await transporter.sendMail({ from: smtpFrom, to, subject, html, text: text || '' });
+                const info = await transporter.sendMail({ from: smtpFrom, to, subject, html, text: text || '', attachments });
                 console.log(`[EmailService] Email sent via SMTP to ${to}: ${info.messageId}`);
                 return info;
             } catch (error) {
@@ -62,7 +67,7 @@ export class EmailService {
         }
 
         const resendFrom = process.env.RESEND_FROM || process.env.EMAIL_FROM || 'EventFi <onboarding@resend.dev>';
-        const { data, error } = await client.emails.send({ from: resendFrom, to, subject, html, text: text || '' });
+        const { data, error } = await client.emails.send({ from: resendFrom, to, subject, html, text: text || '', attachments });
 
         if (error) {
             console.error('[EmailService] Resend fallback also failed:', error);
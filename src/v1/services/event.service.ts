@@ -1,10 +1,12 @@
 import { prisma } from '../config/database';
-import { EventCategory, EventStatus, EventPrivacy, TicketType, Prisma } from '@prisma/client';
+import { EventCategory, EventStatus, EventPrivacy, TicketType, ServiceFeeMode, Prisma } from '@prisma/client';
 import { ChatService } from './chat.service';
 import { EmailService } from './email.service';
 import { CloudinaryService } from '../utils/cloudinary.service';
 import { ColorPaletteService, fromCloudinaryColors } from '../utils/color-palette.service';
 import { CommunityAccessService } from './communityAccess.service';
+import { WaitlistService } from './waitlist.service';
+import { PaymentService } from './payment.service';
 import redis from '../config/redis';
 
 const EVENT_CACHE_TTL = 300;       // 5 min — individual event pages
@@ -64,6 +66,11 @@ export interface CreateEventInput {
         salesEnd?: string;
         allowInstallments?: boolean;
         maxInstallments?: number;
+        allowTransfers?: boolean;
+        transferCutoffHours?: number;
+        minDonation?: number | null;
+        suggestedAmounts?: number[];
+        pricePhases?: PricePhaseInput[];
     }[];
     scheduleItems?: {
         time: string;
@@ -73,6 +80,8 @@ export interface CreateEventInput {
     }[];
     communityId?: string;
     chapterId?: string;
+    paymentProvider?: string | null;
+    serviceFeeMode?: ServiceFeeMode; // who pays the platform fee — applies to orders placed from now on
 }
 
 /**
@@ -93,11 +102,75 @@ async function checkCommunityEventAccess(userId: string, communityId: string, ch
     }
 }
 
+interface PricePhaseInput {
+    name: string;
+    price: number;
+    startsAt?: string | null;
+    endsAt?: string | null;
+    soldLimit?: number | null;
+}
+
+interface TicketPricingInput {
+    name: string;
+    type: TicketType;
+    quantity: number;
+    minDonation?: number | null;
+    suggestedAmounts?: number[];
+    pricePhases?: PricePhaseInput[];
+}
+
+function checkTicketPricing(tickets: TicketPricingInput[]) {
+    for (const ticket of tickets) {
+        if (ticket.type === 'DONATION') {
+            const min = ticket.minDonation ?? 0;
+            if (ticket.suggestedAmounts?.some(amount => amount < min)) {
+                throw new Error(`Suggested amounts for "${ticket.name}" must be at least the minimum donation`);
+            }
+        }
+        if (!ticket.pricePhases?.length) continue;
+        if (ticket.type !== 'PAID') throw new Error(`Only paid tickets can have price phases — "${ticket.name}" is ${ticket.type.toLowerCase()}`);
+        for (const phase of ticket.pricePhases) {
+            if (phase.soldLimit && phase.soldLimit > ticket.quantity) {
+                throw new Error(`Price phase "${phase.name}" sells more tickets than "${ticket.name}" has`);
+            }
+        }
+    }
+}
+
+/** Donation settings only mean something on DONATION tickets — cleared on any other type. */
+function donationFields(ticket: TicketPricingInput) {
+    const isDonation = ticket.type === 'DONATION';
+    return {
+        minDonation: isDonation ? ticket.minDonation ?? null : null,
+        suggestedAmounts: isDonation ? ticket.suggestedAmounts ?? [] : [],
+    };
+}
+
+/** Phases are stored in the order the organizer listed them — that order decides overlaps. */
+function pricePhaseRows(phases: PricePhaseInput[]) {
+    return phases.map((phase, index) => ({
+        name: phase.name,
+        price: phase.price,
+        startsAt: phase.startsAt ? new Date(phase.startsAt) : null,
+        endsAt: phase.endsAt ? new Date(phase.endsAt) : null,
+        soldLimit: phase.soldLimit ?? null,
+        position: index,
+    }));
+}
+
+function checkPaymentProvider(name: string) {
+    if (!PaymentService.provider(name).isEnabled()) {
+        throw new Error(`Payment provider ${name} is not available`);
+    }
+}
+
 export class EventService {
     static async create(userId: string, data: CreateEventInput) {
         if (data.communityId) {
             await checkCommunityEventAccess(userId, data.communityId, data.chapterId);
         }
+        if (data.paymentProvider) checkPaymentProvider(data.paymentProvider);
+        checkTicketPricing(data.tickets);
 
         // Upload cover image and extract palette in one Cloudinary call
         let colorPalette: { background: string; lightTone: string; textColor: string } | null = null;
@@ -162,6 +235,9 @@ export class EventService {
             videoUrl: data.media.videoUrl,
             ...(colorPalette && { colorPalette }),
 
+            ...(data.paymentProvider && { paymentProvider: data.paymentProvider }),
+            ...(data.serviceFeeMode && { serviceFeeMode: data.serviceFeeMode }),
+
             // Relations
             organizer: { connect: { id: userId } },
             ...(data.communityId && { community: { connect: { id: data.communityId } } }),
@@ -180,6 +256,12 @@ export class EventService {
                     salesEnd: ticket.salesEnd ? new Date(ticket.salesEnd) : null,
                     allowInstallments: ticket.allowInstallments || false,
                     maxInstallments: ticket.maxInstallments,
+                    allowTransfers: ticket.allowTransfers ?? true,
+                    transferCutoffHours: ticket.transferCutoffHours ?? 0,
+                    ...donationFields(ticket),
+                    ...(ticket.pricePhases?.length && {
+                        pricePhases: { create: pricePhaseRows(ticket.pricePhases) },
+                    }),
                 }))
             },
             ...(data.scheduleItems && data.scheduleItems.length > 0 && {
@@ -197,7 +279,7 @@ export class EventService {
         const event = await prisma.event.create({
             data: eventData,
             include: {
-                tickets: true,
+                tickets: { include: { pricePhases: { orderBy: { position: 'asc' } } } },
                 scheduleItems: { orderBy: { order: 'asc' } },
                 speakers: { orderBy: { order: 'asc' } },
                 organizer: {
@@ -313,7 +395,7 @@ export class EventService {
         const event = await prisma.event.findUnique({
             where: { id },
             include: {
-                tickets: true,
+                tickets: { include: { pricePhases: { orderBy: { position: 'asc' } } } },
                 scheduleItems: {
                     orderBy: { order: 'asc' }
                 },
@@ -356,6 +438,8 @@ export class EventService {
         if (data.communityId) {
             await checkCommunityEventAccess(userId, data.communityId, data.chapterId);
         }
+        if (data.paymentProvider) checkPaymentProvider(data.paymentProvider);
+        if (data.tickets) checkTicketPricing(data.tickets);
 
         // Upload new cover image and re-extract palette when the image changes
         let updatedColorPalette: { background: string; lightTone: string; textColor: string } | null = null;
@@ -429,6 +513,8 @@ export class EventService {
                 videoUrl: data.media.videoUrl,
             }),
             ...(updatedColorPalette && { colorPalette: updatedColorPalette }),
+            ...(data.paymentProvider !== undefined && { paymentProvider: data.paymentProvider }),
+            ...(data.serviceFeeMode && { serviceFeeMode: data.serviceFeeMode }),
 
             // Community / chapter linkage
             ...(data.communityId !== undefined && {
@@ -458,6 +544,8 @@ export class EventService {
         // Handle tickets: upsert existing, create new, delete removed (only if unsold)
         // All ticket ops run in a transaction so a partial failure doesn't leave
         // the DB in an inconsistent state.
+        // Ticket types whose stock grew — anyone waitlisted for them gets an offer
+        const restockedTicketIds: string[] = [];
         if (data.tickets && data.tickets.length > 0) {
             await prisma.$transaction(async (tx) => {
                 const existingTickets = await tx.ticket.findMany({
@@ -488,6 +576,7 @@ export class EventService {
                         // Preserve sold count when adjusting quantity
                         const sold = existing.quantity - existing.remaining;
                         const newRemaining = Math.max(0, ticket.quantity - sold);
+                        if (newRemaining > existing.remaining) restockedTicketIds.push(existing.id);
                         await tx.ticket.update({
                             where: { id: ticket.id },
                             data: {
@@ -503,8 +592,19 @@ export class EventService {
                                 salesEnd: ticket.salesEnd ? new Date(ticket.salesEnd) : null,
                                 allowInstallments: ticket.allowInstallments || false,
                                 maxInstallments: ticket.maxInstallments || null,
+                                allowTransfers: ticket.allowTransfers ?? true,
+                                transferCutoffHours: ticket.transferCutoffHours ?? 0,
+                                ...donationFields(ticket),
                             },
                         });
+                        // Omitting pricePhases leaves them as they are; an empty list clears them.
+                        // Orders keep the unit price they were placed at, so replacing is safe.
+                        if (ticket.pricePhases !== undefined) {
+                            await tx.ticketPricePhase.deleteMany({ where: { ticketId: ticket.id } });
+                            await tx.ticketPricePhase.createMany({
+                                data: pricePhaseRows(ticket.pricePhases).map(row => ({ ...row, ticketId: ticket.id })),
+                            });
+                        }
                     } else {
                         // New ticket — frontend ID is a temporary placeholder, ignore it.
                         // Prisma will auto-generate the real UUID.
@@ -523,6 +623,12 @@ export class EventService {
                                 salesEnd: ticket.salesEnd ? new Date(ticket.salesEnd) : null,
                                 allowInstallments: ticket.allowInstallments || false,
                                 maxInstallments: ticket.maxInstallments || null,
+                                allowTransfers: ticket.allowTransfers ?? true,
+                                transferCutoffHours: ticket.transferCutoffHours ?? 0,
+                                ...donationFields(ticket),
+                                ...(ticket.pricePhases?.length && {
+                                    pricePhases: { create: pricePhaseRows(ticket.pricePhases) },
+                                }),
                             },
                         });
                     }
@@ -530,6 +636,11 @@ export class EventService {
             });
         }
 
+        if (restockedTicketIds.length > 0) {
+            WaitlistService.offerReleasedTickets(restockedTicketIds)
+                .catch(err => console.error('[Waitlist] Failed to offer restocked tickets:', err));
+        }
+
         // Detect location reveal: was previously unset, now being set
         const locationBeingSet = data.location && (data.location.venueName || data.location.address);
         const hadNoLocation = !event.venueName && !event.address;
@@ -539,7 +650,7 @@ export class EventService {
             where: { id },
             data: updateData,
             include: {
-                tickets: true,
+                tickets: { include: { pricePhases: { orderBy: { position: 'asc' } } } },
                 scheduleItems: { orderBy: { order: 'asc' } },
                 speakers: { orderBy: { order: 'asc' } },
                 organizer: {
@@ -809,7 +920,7 @@ export class EventService {
         const event = await prisma.event.findFirst({
             where: { slug: slug.toUpperCase() },
             include: {
-                tickets: true,
+                tickets: { include: { pricePhases: { orderBy: { position: 'asc' } } } },
                 scheduleItems: { orderBy: { order: 'asc' } },
                 speakers: { orderBy: { order: 'asc' } },
                 organizer: {
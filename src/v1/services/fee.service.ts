@@ -0,0 +1,174 @@
+import { EventCategory, Prisma, ServiceFeeMode } from '@prisma/client';
+import { prisma } from '../config/database';
+import { isSupportedCurrency, roundAmount, serviceFeeFlat } from '../utils/currency';
+
+export const DEFAULT_SERVICE_FEE_PERCENT = 0.04; // 4% platform fee, plus a flat per-currency charge (see utils/currency)
+const MAX_SERVICE_FEE_PERCENT = 0.2;
+const SPLIT_BUYER_SHARE = 0.5; // SPLIT mode: the buyer pays this share of the fee, the organizer the rest
+
+/** The fee rule in force for one event and currency. */
+export interface FeePricing {
+    percent: number;
+    flat: number;
+    mode: ServiceFeeMode;
+    ruleId: string | null; // the admin override applied, if any
+}
+
+export interface FeeRuleInput {
+    organizerId?: string | null;
+    category?: string | null;
+    currency?: string | null;
+    percent: number;
+    flatFee?: number | null;
+    note?: string | null;
+}
+
+/**
+ * Split the platform fee on a (post-discount) ticket subtotal between buyer and organizer.
+ * `serviceFee` is added to what the buyer pays; `absorbedFee` comes out of the organizer's
+ * revenue at payout. Free orders carry no fee.
+ */
+export function computeFees(subtotal: number, currency: string, pricing: FeePricing) {
+    if (subtotal <= 0) return { serviceFee: 0, absorbedFee: 0 };
+
+    const fee = roundAmount(subtotal * pricing.percent + pricing.flat, currency);
+    const serviceFee = pricing.mode === 'PASS_ON' ? fee
+        : pricing.mode === 'ABSORB' ? 0
+        : roundAmount(fee * SPLIT_BUYER_SHARE, currency);
+
+    return { serviceFee, absorbedFee: roundAmount(fee - serviceFee, currency) };
+}
+
+export class FeeService {
+    /**
+     * Resolve the fee for an event's orders in one currency: the most specific admin rule
+     * (organizer before category, currency-specific before currency-agnostic), else the
+     * platform default. Who pays it is the organizer's choice on the event.
+     */
+    static async pricingFor(
+        event: { organizerId: string; category: EventCategory; serviceFeeMode: ServiceFeeMode },
+        currency: string
+    ): Promise<FeePricing> {
+        const rules = await prisma.serviceFeeRule.findMany({
+            where: {
+                OR: [{ organizerId: event.organizerId }, { organizerId: null, category: event.category }],
+                AND: [{ OR: [{ currency }, { currency: null }] }],
+            },
+        });
+
+        const rank = (r: typeof rules[number]) => (r.organizerId ? 2 : 0) + (r.currency ? 1 : 0);
+        const rule = rules.sort((a, b) => rank(b) - rank(a))[0];
+
+        return {
+            percent: rule?.percent ?? DEFAULT_SERVICE_FEE_PERCENT,
+            flat: rule?.flatFee ?? serviceFeeFlat(currency),
+            mode: event.serviceFeeMode,
+            ruleId: rule?.id ?? null,
+        };
+    }
+
+    // ─── Admin: fee overrides ─────────────────────────────────────────────────
+
+    static async listRules(filters: { organizerId?: string; category?: string; page?: number; limit?: number } = {}) {
+        const page = filters.page || 1;
+        const limit = filters.limit || 20;
+        const category = filters.category?.toUpperCase();
+        if (category && !(category in EventCategory)) throw new Error(`Invalid category: ${filters.category}`);
+
+        const where: Prisma.ServiceFeeRuleWhereInput = {
+            ...(filters.organizerId && { organizerId: filters.organizerId }),
+            ...(category && { category: category as EventCategory }),
+        };
+
+        const [total, rules] = await Promise.all([
+            prisma.serviceFeeRule.count({ where }),
+            prisma.serviceFeeRule.findMany({
+                where,
+                skip: (page - 1) * limit,
+                take: limit,
+                orderBy: { createdAt: 'desc' },
+                include: { organizer: { select: { id: true, email: true, displayName: true } } },
+            }),
+        ]);
+
+        return {
+            meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+            data: rules,
+        };
+    }
+
+    static async createRule(adminId: string, input: FeeRuleInput) {
+        const data = await this.validateRule(input);
+        await this.checkNoDuplicate(data);
+        return prisma.serviceFeeRule.create({ data: { ...data, createdById: adminId } });
+    }
+
+    static async updateRule(id: string, input: Partial<FeeRuleInput>) {
+        const existing = await prisma.serviceFeeRule.findUnique({ where: { id } });
+        if (!existing) throw new Error('Fee rule not found');
+
+        const data = await this.validateRule({
+            organizerId: input.organizerId !== undefined ? input.organizerId : existing.organizerId,
+            category: input.category !== undefined ? input.category : existing.category,
+            currency: input.currency !== undefined ? input.currency : existing.currency,
+            percent: input.percent ?? existing.percent,
+            flatFee: input.flatFee !== undefined ? input.flatFee : existing.flatFee,
+            note: input.note !== undefined ? input.note : existing.note,
+        });
+        await this.checkNoDuplicate(data, id);
+        return prisma.serviceFeeRule.update({ where: { id }, data });
+    }
+
+    static async deleteRule(id: string) {
+        const deleted = await prisma.serviceFeeRule.deleteMany({ where: { id } });
+        if (deleted.count === 0) throw new Error('Fee rule not found');
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async validateRule(input: FeeRuleInput) {
+        const organizerId = input.organizerId || null;
+        const category = input.category ? input.category.toUpperCase() : null;
+        const currency = input.currency ? input.currency.toUpperCase() : null;
+        const flatFee = input.flatFee ?? null;
+
+        if (!organizerId === !category) throw new Error('Invalid rule: set exactly one of organizerId or category');
+        if (category && !(category in EventCategory)) throw new Error(`Invalid category: ${input.category}`);
+        if (currency && !isSupportedCurrency(currency)) throw new Error(`Invalid currency: ${input.currency}`);
+        if (typeof input.percent !== 'number' || input.percent < 0 || input.percent > MAX_SERVICE_FEE_PERCENT) {
+            throw new Error(`Invalid percent: must be a fraction between 0 and ${MAX_SERVICE_FEE_PERCENT}`);
+        }
+        if (flatFee !== null && (typeof flatFee !== 'number' || flatFee < 0)) throw new Error('Invalid flatFee: must be 0 or more');
+        if (flatFee !== null && !currency) throw new Error('Invalid rule: a flatFee needs a currency');
+
+        if (organizerId) {
+            const organizer = await prisma.user.findUnique({ where: { id: organizerId }, select: { id: true } });
+            if (!organizer) throw new Error('Organizer not found');
+        }
+
+        return {
+            organizerId,
+            category: category as EventCategory | null,
+            currency,
+            percent: input.percent,
+            flatFee,
+            note: input.note?.trim() || null,
+        };
+    }
+
+    private static async checkNoDuplicate(
+        data: { organizerId: string | null; category: EventCategory | null; currency: string | null },
+        exceptId?: string
+    ) {
+        const clash = await prisma.serviceFeeRule.findFirst({
+            where: {
+                organizerId: data.organizerId,
+                category: data.category,
+                currency: data.currency,
+                ...(exceptId && { id: { not: exceptId } }),
+            },
+            select: { id: true },
+        });
+        if (clash) throw new Error('A fee rule already exists for this organizer/category and currency');
+    }
+}
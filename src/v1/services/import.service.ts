@@ -1,6 +1,7 @@
 import { prisma } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import { ManageService } from './manage.service';
+import { TicketQrService } from './ticketQr.service';
 import { ImportGoogleFormsInput } from '../validations/import.schema';
 
 const BATCH_SIZE = 50;
@@ -127,6 +128,7 @@ export class ImportService {
         // 2. Verify ticket belongs to this event
         const ticket = await prisma.ticket.findFirst({
             where: { id: options.ticketId, eventId },
+            include: { event: { select: { id: true, endDate: true } } },
         });
         if (!ticket) throw new Error('Ticket not found for this event');
 
@@ -250,7 +252,7 @@ export class ImportService {
                             select: { id: true },
                         });
 
-                        await tx.attendee.create({
+                        const attendee = await tx.attendee.create({
                             data: {
                                 orderId: order.id,
                                 ticketId: ticket.id,
@@ -262,6 +264,7 @@ export class ImportService {
                                 ticketCode,
                                 status: 'valid',
                             },
+                            select: { id: true, ticketId: true, ticketCode: true },
                         });
 
                         await tx.userTicket.create({
@@ -271,7 +274,7 @@ export class ImportService {
                                 eventId,
                                 quantity: 1,
                                 status: 'valid',
-                                qrCode: ticketCode,
+                                qrCode: TicketQrService.payloadFor(attendee, ticket.event),
                             },
                         });
                     }
@@ -0,0 +1,315 @@
+import { Invoice, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { emailQueue } from '../jobs/email.queue';
+import { roundAmount, vatRate } from '../utils/currency';
+import { PdfDocument, money } from '../utils/pdf';
+
+/** Parties and lines as printed on the document, frozen when it is issued. */
+export interface InvoiceDetails {
+    organizer: { name: string; email: string };
+    buyer: { name: string; email: string };
+    event: { title: string; startDate: string; venue: string | null };
+    items: { description: string; quantity: number; unitPrice: number; amount: number }[];
+    paymentMethod: string | null;
+    installment?: { sequence: number; count: number; orderTotal: number; paidToDate: number; balance: number };
+}
+
+const ORDER_INCLUDE = {
+    items: true,
+    user: { select: { email: true, displayName: true, username: true } },
+    event: {
+        select: {
+            title: true, startDate: true, venueName: true, city: true, organizerId: true,
+            organizer: { select: { email: true, displayName: true, username: true } },
+        },
+    },
+} satisfies Prisma.BookingOrderInclude;
+
+type ReceiptOrder = Prisma.BookingOrderGetPayload<{ include: typeof ORDER_INCLUDE }>;
+
+function invoiceNumber(organizerId: string, sequence: number) {
+    return `EVF-INV-${organizerId.substring(0, 8).toUpperCase()}-${String(sequence).padStart(6, '0')}`;
+}
+
+/** VAT contained in a VAT-inclusive amount. */
+function includedVat(amount: number, currency: string) {
+    const rate = vatRate(currency);
+    return { vatRate: rate, vatAmount: roundAmount((amount * rate) / (1 + rate), currency) };
+}
+
+function formatDate(date: Date | string) {
+    return new Date(date).toLocaleDateString('en-US', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+function baseDetails(order: ReceiptOrder): Omit<InvoiceDetails, 'items'> {
+    const { event } = order;
+    return {
+        organizer: {
+            name: event.organizer.displayName || event.organizer.username || event.organizer.email,
+            email: event.organizer.email,
+        },
+        buyer: {
+            name: order.user.displayName || order.user.username || order.user.email,
+            email: order.user.email,
+        },
+        event: {
+            title: event.title,
+            startDate: event.startDate.toISOString(),
+            venue: [event.venueName, event.city].filter(Boolean).join(', ') || null,
+        },
+        paymentMethod: order.paymentMethod,
+    };
+}
+
+export class InvoiceService {
+    /**
+     * Issue the receipt for an order once it is paid in full. Safe to call repeatedly — an
+     * order only ever gets one; free orders get none. Orders paid in installments get none
+     * either: each installment has its own receipt, and a second one for the whole order
+     * would show the buyer paying twice. Returns null when nothing is due.
+     */
+    static async issueForOrder(orderId: string) {
+        const order = await prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            include: { ...ORDER_INCLUDE, installmentPlan: { select: { id: true } } },
+        });
+        if (!order || order.total <= 0 || order.paymentStatus !== 'COMPLETED') return null;
+        if (order.installmentPlan || order.paymentMethod === 'installment') return null;
+
+        return this.issue(order.event.organizerId, { orderId, kind: 'ORDER' }, {
+            kind: 'ORDER',
+            orderId,
+            currency: order.currency,
+            subtotal: order.subtotal,
+            discount: order.discount,
+            serviceFee: order.serviceFee,
+            ...includedVat(order.serviceFee, order.currency),
+            total: order.total,
+            paymentReference: order.paymentReference,
+            details: {
+                ...baseDetails(order),
+                items: order.items.map(item => ({
+                    description: item.isDonation ? `${item.ticketName} (donation)` : item.ticketName,
+                    quantity: item.quantity,
+                    unitPrice: item.unitPrice,
+                    amount: item.totalPrice,
+                })),
+            } satisfies InvoiceDetails as unknown as Prisma.InputJsonValue,
+        });
+    }
+
+    /**
+     * Issue the receipt for one paid installment. The service fee (and the VAT in it) is
+     * attributed to each installment in proportion to its share of the order total.
+     */
+    static async issueForInstallment(installmentPaymentId: string) {
+        const payment = await prisma.installmentPayment.findUnique({
+            where: { id: installmentPaymentId },
+            include: { installmentPlan: { include: { payments: true, bookingOrder: { include: ORDER_INCLUDE } } } },
+        });
+        if (!payment || payment.status !== 'PAID') return null;
+
+        const plan = payment.installmentPlan;
+        const order = plan.bookingOrder;
+        const serviceFee = order.total > 0 ? roundAmount((order.serviceFee * payment.amount) / order.total, order.currency) : 0;
+        const paidToDate = roundAmount(
+            plan.payments.filter(p => p.status === 'PAID' && p.sequence <= payment.sequence).reduce((sum, p) => sum + p.amount, 0),
+            order.currency
+        );
+
+        return this.issue(order.event.organizerId, { installmentPaymentId }, {
+            kind: 'INSTALLMENT',
+            orderId: order.id,
+            installmentPaymentId,
+            currency: order.currency,
+            subtotal: roundAmount(payment.amount - serviceFee, order.currency),
+            serviceFee,
+            ...includedVat(serviceFee, order.currency),
+            total: payment.amount,
+            paymentReference: payment.paymentReference,
+            details: {
+                ...baseDetails(order),
+                paymentMethod: 'installment',
+                items: [{
+                    description: `Installment ${payment.sequence} of ${plan.installmentCount}: ${order.items.map(i => `${i.quantity} x ${i.ticketName}`).join(', ')}`,
+                    quantity: 1,
+                    unitPrice: payment.amount,
+                    amount: payment.amount,
+                }],
+                installment: {
+                    sequence: payment.sequence,
+                    count: plan.installmentCount,
+                    orderTotal: order.total,
+                    paidToDate,
+                    balance: roundAmount(Math.max(0, order.total - paidToDate), order.currency),
+                },
+            } satisfies InvoiceDetails as unknown as Prisma.InputJsonValue,
+        });
+    }
+
+    /**
+     * The buyer's receipts for one order, oldest first. Receipts that should exist but
+     * don't yet — orders paid before receipts were introduced, or an issue that failed
+     * after payment — are issued on the way.
+     */
+    static async listForOrder(orderId: string, userId: string) {
+        const order = await prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            select: {
+                userId: true, status: true,
+                installmentPlan: { select: { payments: { where: { status: 'PAID' }, select: { id: true } } } },
+            },
+        });
+        if (!order) throw new Error('Order not found');
+        if (order.userId !== userId) throw new Error('Unauthorized');
+
+        for (const payment of order.installmentPlan?.payments ?? []) {
+            await this.issueForInstallment(payment.id);
+        }
+        if (order.status === 'CONFIRMED') await this.issueForOrder(orderId);
+
+        const invoices = await prisma.invoice.findMany({ where: { orderId }, orderBy: { sequence: 'asc' } });
+        return invoices.map(invoice => ({
+            id: invoice.id,
+            number: invoice.number,
+            kind: invoice.kind.toLowerCase(),
+            currency: invoice.currency,
+            total: invoice.total,
+            paymentReference: invoice.paymentReference,
+            issuedAt: invoice.issuedAt.toISOString(),
+            downloadUrl: this.downloadUrl(orderId, invoice.id),
+        }));
+    }
+
+    /** The receipt as a PDF, for the buyer who paid it (or internal callers without a userId). */
+    static async getPdf(invoiceId: string, userId?: string, orderId?: string) {
+        const invoice = await prisma.invoice.findUnique({
+            where: { id: invoiceId },
+            include: { order: { select: { userId: true } } },
+        });
+        if (!invoice || (orderId && invoice.orderId !== orderId)) throw new Error('Invoice not found');
+        if (userId && invoice.order.userId !== userId) throw new Error('Unauthorized');
+
+        return { filename: `${invoice.number}.pdf`, content: this.render(invoice) };
+    }
+
+    /** Email a receipt to the buyer on its own, for payments that don't come with tickets. */
+    static sendReceipt(invoice: Invoice) {
+        const details = invoice.details as unknown as InvoiceDetails;
+        emailQueue.add('payment-receipt', {
+            type: 'payment-receipt',
+            to: details.buyer.email,
+            name: details.buyer.name,
+            eventTitle: details.event.title,
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.number,
+            currency: invoice.currency,
+            amount: invoice.total,
+            installment: details.installment ? `${details.installment.sequence} of ${details.installment.count}` : undefined,
+        }).catch(err => console.error('Failed to queue payment-receipt email:', err));
+    }
+
+    static downloadUrl(orderId: string, invoiceId: string) {
+        return `/api/v1/users/me/orders/${orderId}/invoices/${invoiceId}/pdf`;
+    }
+
+    static recipient(invoice: Invoice) {
+        return (invoice.details as unknown as InvoiceDetails).buyer.email;
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    /**
+     * Number and store a receipt. Issuing is serialized per organizer by locking their user
+     * row, so numbers run 1, 2, 3, ... with no gaps or repeats, and a receipt matching
+     * `existing` is returned instead of issuing a second one.
+     */
+    private static async issue(
+        organizerId: string,
+        existing: Prisma.InvoiceWhereInput,
+        data: Omit<Prisma.InvoiceUncheckedCreateInput, 'organizerId' | 'sequence' | 'number'>
+    ) {
+        return prisma.$transaction(async (tx) => {
+            await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${organizerId}::uuid FOR UPDATE`;
+
+            const issued = await tx.invoice.findFirst({ where: existing });
+            if (issued) return issued;
+
+            const { invoiceSequence } = await tx.user.update({
+                where: { id: organizerId },
+                data: { invoiceSequence: { increment: 1 } },
+                select: { invoiceSequence: true },
+            });
+            return tx.invoice.create({
+                data: { ...data, organizerId, sequence: invoiceSequence, number: invoiceNumber(organizerId, invoiceSequence) },
+            });
+        });
+    }
+
+    private static render(invoice: Invoice): Buffer {
+        const details = invoice.details as unknown as InvoiceDetails;
+        const { currency } = invoice;
+        const left = PdfDocument.margin;
+        const right = PdfDocument.width - PdfDocument.margin;
+        const middle = left + PdfDocument.contentWidth / 2;
+        const doc = new PdfDocument();
+
+        doc.text(left, 'EventFi', { size: 20, bold: true });
+        doc.text(right, invoice.kind === 'INSTALLMENT' ? 'INSTALLMENT RECEIPT' : 'RECEIPT', { size: 14, bold: true, align: 'right' });
+        doc.down(16).text(right, `No. ${invoice.number}`, { align: 'right' });
+        doc.down().text(right, `Issued ${formatDate(invoice.issuedAt)}`, { align: 'right' });
+        doc.down(10).rule().down(20);
+
+        doc.text(left, 'From', { bold: true }).text(middle, 'Billed to', { bold: true });
+        doc.down().text(left, details.organizer.name, { maxWidth: middle - left - 10 }).text(middle, details.buyer.name, { maxWidth: right - middle });
+        doc.down().text(left, details.organizer.email, { maxWidth: middle - left - 10 }).text(middle, details.buyer.email, { maxWidth: right - middle });
+        doc.down(24);
+
+        doc.text(left, `Event: ${details.event.title}`, { bold: true, maxWidth: right - left });
+        doc.down().text(left, [formatDate(details.event.startDate), details.event.venue].filter(Boolean).join(' | '), { maxWidth: right - left });
+        doc.down(24);
+
+        const qtyX = left + 300;
+        const unitX = left + 400;
+        doc.text(left, 'Description', { bold: true })
+            .text(qtyX, 'Qty', { bold: true, align: 'right' })
+            .text(unitX, 'Unit price', { bold: true, align: 'right' })
+            .text(right, 'Amount', { bold: true, align: 'right' });
+        doc.down(6).rule();
+        for (const item of details.items) {
+            doc.down(16)
+                .text(left, item.description, { maxWidth: qtyX - left - 40 })
+                .text(qtyX, String(item.quantity), { align: 'right' })
+                .text(unitX, money(item.unitPrice, currency), { align: 'right' })
+                .text(right, money(item.amount, currency), { align: 'right' });
+        }
+        doc.down(8).rule().down(20);
+
+        const labelX = left + 250;
+        const totalLine = (label: string, amount: string, bold = false) => {
+            doc.text(labelX, label, { bold }).text(right, amount, { bold, align: 'right' }).down(16);
+        };
+        if (invoice.kind === 'ORDER') {
+            totalLine('Subtotal', money(invoice.subtotal, currency));
+            if (invoice.discount > 0) totalLine('Discount', `-${money(invoice.discount, currency)}`);
+        }
+        totalLine('Service fee', money(invoice.serviceFee, currency));
+        totalLine(`VAT ${+(invoice.vatRate * 100).toFixed(2)}% (included in service fee)`, money(invoice.vatAmount, currency));
+        totalLine('Total paid', money(invoice.total, currency), true);
+
+        if (details.installment) {
+            doc.down(8);
+            totalLine('Order total', money(details.installment.orderTotal, currency));
+            totalLine('Paid to date', money(details.installment.paidToDate, currency));
+            totalLine('Balance due', money(details.installment.balance, currency), true);
+        }
+
+        doc.down(16);
+        doc.text(left, `Payment reference: ${invoice.paymentReference ?? 'n/a'}`).down();
+        if (details.paymentMethod) doc.text(left, `Payment method: ${details.paymentMethod.replace(/_/g, ' ')}`).down();
+        doc.down(16);
+        doc.text(left, `Sold by ${details.organizer.name} through EventFi (eventfi.live). Keep this receipt for your records.`, { size: 8, maxWidth: right - left });
+
+        return doc.toBuffer();
+    }
+}
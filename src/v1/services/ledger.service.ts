@@ -0,0 +1,451 @@
+import { randomUUID } from 'crypto';
+import { LedgerAccount, LedgerEntryType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { isSupportedCurrency, roundAmount } from '../utils/currency';
+
+/**
+ * Double-entry ledger of the money that passes through EventFi for each organizer.
+ *
+ * Every business event (a sale, a refund, a payout...) is one LedgerTransaction whose
+ * entries sum to zero across the accounts. Credits are positive and debits negative, so
+ * the ORGANIZER account's sum is what the organizer can be paid. The ledger is append-only:
+ * a correction is a new transaction, and each transaction has a unique key so that
+ * posting the same event twice is a no-op.
+ *
+ * An event's revenue can be shared with its team (EventTeamMember.revenueSharePercent):
+ * each beneficiary gets their own ORGANIZER entries, so balances, statements and payouts
+ * all work per beneficiary. The split is fixed when a sale is booked; changing the shares
+ * later only affects later sales.
+ */
+
+export interface AdjustmentInput {
+    organizerId: string;
+    eventId?: string | null;
+    currency: string;
+    amount: number; // positive credits the organizer, negative debits them
+    reason: string;
+}
+
+export interface ChargebackInput {
+    orderId: string;
+    amount: number;
+    reference: string; // the provider's dispute/chargeback ID
+    note?: string;
+}
+
+export interface StatementQuery {
+    currency: string;
+    eventId?: string;
+    from?: Date;
+    to?: Date;
+    page?: number;
+    limit?: number;
+}
+
+interface Leg {
+    account: LedgerAccount;
+    amount: number;
+    eventId?: string | null;
+    organizerId?: string; // whose balance an ORGANIZER leg belongs to, when not the posting's
+}
+
+interface Posting {
+    key: string;
+    type: LedgerEntryType;
+    organizerId: string;
+    currency: string;
+    description: string;
+    eventId?: string | null; // for legs that don't name their own, and the balancing leg
+    orderId?: string;
+    payoutRequestId?: string;
+    createdById?: string;
+    legs: Leg[];
+    against: LedgerAccount; // takes the opposite of the other legs, so the transaction balances
+}
+
+const PAYOUT_SETTLED_STATUSES = ['CANCELLED', 'REJECTED'];
+
+/**
+ * Split an organizer amount across beneficiaries: each share is rounded on its own and
+ * the owner takes whatever is left, so the legs always add up to `amount` exactly.
+ */
+function splitOrganizerLegs(
+    amount: number,
+    ownerId: string,
+    shares: { userId: string; percent: number }[],
+    currency: string
+): Leg[] {
+    const legs: Leg[] = shares.map(share => ({
+        account: 'ORGANIZER',
+        organizerId: share.userId,
+        amount: roundAmount((amount * share.percent) / 100, currency),
+    }));
+    const shared = legs.reduce((sum, leg) => sum + leg.amount, 0);
+    return [{ account: 'ORGANIZER', organizerId: ownerId, amount: roundAmount(amount - shared, currency) }, ...legs];
+}
+
+export class LedgerService {
+    // ─── Posting ──────────────────────────────────────────────────────────────
+
+    /**
+     * Book a confirmed, paid order: the ticket price (after discounts) to the organizer and
+     * the buyer-paid fee to the platform, then any fee the organizer absorbed. Both are
+     * split across the event's revenue shares as they stand now. Free and imported orders
+     * took no money through EventFi and are skipped.
+     */
+    static async recordSale(tx: Prisma.TransactionClient, orderId: string) {
+        const order = await tx.bookingOrder.findUniqueOrThrow({
+            where: { id: orderId },
+            include: { event: { select: { organizerId: true } } },
+        });
+        if (order.status !== 'CONFIRMED' || order.paymentStatus !== 'COMPLETED') return;
+        if (order.total <= 0 || order.paymentMethod === 'imported') return;
+
+        const members = await tx.eventTeamMember.findMany({
+            where: { eventId: order.eventId, status: 'ACTIVE', userId: { not: null }, revenueSharePercent: { gt: 0 } },
+            select: { userId: true, revenueSharePercent: true },
+        });
+        const shares = members.map(m => ({ userId: m.userId!, percent: m.revenueSharePercent }));
+        const ownerId = order.event.organizerId;
+
+        const base = {
+            organizerId: order.event.organizerId,
+            currency: order.currency,
+            eventId: order.eventId,
+            orderId,
+        };
+        await this.post(tx, {
+            ...base,
+            key: `order:${orderId}:sale`,
+            type: 'TICKET_SALE',
+            description: 'Ticket sale',
+            legs: [
+                ...splitOrganizerLegs(order.total - order.serviceFee, ownerId, shares, order.currency),
+                { account: 'PLATFORM', amount: order.serviceFee },
+            ],
+            against: 'PROCESSOR',
+        });
+        await this.post(tx, {
+            ...base,
+            key: `order:${orderId}:fee`,
+            type: 'SERVICE_FEE',
+            description: 'Platform fee absorbed',
+            legs: splitOrganizerLegs(-order.absorbedFee, ownerId, shares, order.currency),
+            against: 'PLATFORM',
+        });
+    }
+
+    /**
+     * Book money returned to a buyer. It comes out of the organizer's ticket revenue first;
+     * only what goes beyond it (a refund of the buyer-paid fee) is taken from the platform.
+     * Beneficiaries give back in proportion to what they still hold of the sale.
+     * Orders whose sale was never booked — an installment plan that didn't complete — hold
+     * none of the organizer's money, so their refunds are skipped.
+     */
+    static async recordRefund(tx: Prisma.TransactionClient, orderId: string, amount: number, key: string) {
+        return this.postReturn(tx, orderId, amount, key, 'REFUND', 'Refund to buyer');
+    }
+
+    /** Admin: book a chargeback the provider took back from EventFi on an order. */
+    static async recordChargeback(adminId: string, input: ChargebackInput) {
+        if (typeof input.amount !== 'number' || input.amount <= 0) throw new Error('Invalid amount: must be more than 0');
+        if (!input.reference?.trim()) throw new Error('Invalid reference: the chargeback reference is required');
+
+        const order = await prisma.bookingOrder.findUnique({ where: { id: input.orderId }, select: { total: true } });
+        if (!order) throw new Error('Order not found');
+        if (input.amount > order.total) throw new Error('Invalid amount: a chargeback cannot exceed the order total');
+
+        const description = input.note?.trim() ? `Chargeback: ${input.note.trim()}` : 'Chargeback';
+        const transaction = await prisma.$transaction(tx => this.postReturn(
+            tx, input.orderId, input.amount, `order:${input.orderId}:chargeback:${input.reference.trim()}`,
+            'CHARGEBACK', description, adminId
+        ));
+        if (!transaction) throw new Error('This order has no sale in the ledger to charge back');
+        return transaction;
+    }
+
+    /** Admin: credit (positive amount) or debit (negative) an organizer, against the platform. */
+    static async recordAdjustment(adminId: string, input: AdjustmentInput) {
+        const currency = input.currency?.toUpperCase();
+        if (!currency || !isSupportedCurrency(currency)) throw new Error(`Invalid currency: ${input.currency}`);
+        if (typeof input.amount !== 'number' || roundAmount(input.amount, currency) === 0) {
+            throw new Error('Invalid amount: must be a non-zero number');
+        }
+        if (!input.reason?.trim()) throw new Error('Invalid reason: say why the balance is being adjusted');
+
+        const organizer = await prisma.user.findUnique({ where: { id: input.organizerId }, select: { id: true } });
+        if (!organizer) throw new Error('Organizer not found');
+        if (input.eventId) {
+            // Not only the owner: a co-host with a revenue share can be adjusted on the event too
+            const event = await prisma.event.findUnique({ where: { id: input.eventId }, select: { id: true } });
+            if (!event) throw new Error('Event not found');
+        }
+
+        return prisma.$transaction(tx => this.post(tx, {
+            key: `adjustment:${randomUUID()}`,
+            type: 'ADJUSTMENT',
+            organizerId: input.organizerId,
+            currency,
+            eventId: input.eventId ?? null,
+            description: input.reason.trim(),
+            createdById: adminId,
+            legs: [{ account: 'ORGANIZER', amount: input.amount }],
+            against: 'PLATFORM',
+        }));
+    }
+
+    /**
+     * Bring the books in line with a payout: the organizer's balance (per event, for a
+     * rollup) is debited by what the payout currently claims — nothing, once it's cancelled
+     * or rejected. Only the difference from what's already booked is posted, under `key`.
+     */
+    static async syncPayout(tx: Prisma.TransactionClient, payoutId: string, key: string, description: string) {
+        const payout = await tx.payoutRequest.findUniqueOrThrow({ where: { id: payoutId }, include: { allocations: true } });
+
+        const claimed = new Map<string | null, number>();
+        if (!PAYOUT_SETTLED_STATUSES.includes(payout.status)) {
+            if (payout.allocations.length > 0) {
+                for (const allocation of payout.allocations) {
+                    claimed.set(allocation.eventId, (claimed.get(allocation.eventId) ?? 0) + allocation.amount);
+                }
+            } else {
+                claimed.set(payout.eventId, payout.netAmount);
+            }
+        }
+
+        const booked = await tx.ledgerEntry.groupBy({
+            by: ['eventId'],
+            where: { account: 'ORGANIZER', transaction: { payoutRequestId: payoutId } },
+            _sum: { amount: true },
+        });
+        const debited = new Map(booked.map(row => [row.eventId, -(row._sum.amount ?? 0)]));
+
+        const eventIds = new Set([...claimed.keys(), ...debited.keys()]);
+        const legs: Leg[] = [...eventIds].map(eventId => ({
+            account: 'ORGANIZER',
+            eventId,
+            amount: (debited.get(eventId) ?? 0) - (claimed.get(eventId) ?? 0),
+        }));
+
+        return this.post(tx, {
+            key,
+            type: 'PAYOUT',
+            organizerId: payout.organizerId,
+            currency: payout.currency,
+            eventId: payout.eventId,
+            description,
+            payoutRequestId: payoutId,
+            legs,
+            against: 'PAYOUT_CLEARING',
+        });
+    }
+
+    /** Book a payout's money leaving for the organizer's bank under transfer `reference`. */
+    static async recordPayoutSent(tx: Prisma.TransactionClient, payoutId: string, reference: string) {
+        return this.postTransfer(tx, payoutId, `payout:${payoutId}:sent:${reference}`, 'Payout sent to bank', -1);
+    }
+
+    /** Book a sent payout coming back — the bank reversed the transfer. */
+    static async recordPayoutReturned(tx: Prisma.TransactionClient, payoutId: string, reference: string) {
+        return this.postTransfer(tx, payoutId, `payout:${payoutId}:returned:${reference}`, 'Payout returned by bank', 1);
+    }
+
+    // ─── Reading ──────────────────────────────────────────────────────────────
+
+    /**
+     * The organizer's account line by line, oldest first, with the running balance after
+     * each line. Every line is one transaction's organizer entry, so the lines of a page
+     * add up to the difference between its opening and closing balances.
+     */
+    static async statement(organizerId: string, query: StatementQuery) {
+        const currency = query.currency.toUpperCase();
+        if (!isSupportedCurrency(currency)) throw new Error(`Unsupported currency: ${query.currency}`);
+        if (query.from && isNaN(query.from.getTime())) throw new Error('Invalid from date');
+        if (query.to && isNaN(query.to.getTime())) throw new Error('Invalid to date');
+        const page = Math.max(1, query.page ?? 1);
+        const limit = Math.min(Math.max(1, query.limit ?? 50), 200);
+
+        const account: Prisma.LedgerEntryWhereInput = {
+            organizerId,
+            currency,
+            account: 'ORGANIZER',
+            ...(query.eventId ? { eventId: query.eventId } : {}),
+        };
+        const where: Prisma.LedgerEntryWhereInput = {
+            ...account,
+            ...(query.from || query.to ? { createdAt: { ...(query.from && { gte: query.from }), ...(query.to && { lte: query.to }) } } : {}),
+        };
+
+        const [total, entries, current] = await Promise.all([
+            prisma.ledgerEntry.count({ where }),
+            prisma.ledgerEntry.findMany({
+                where,
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+                skip: (page - 1) * limit,
+                take: limit,
+                include: { transaction: { select: { key: true, description: true, orderId: true, payoutRequestId: true } } },
+            }),
+            prisma.ledgerEntry.aggregate({ where: account, _sum: { amount: true } }),
+        ]);
+
+        // Everything booked before the first line on this page, whatever the date filter
+        let openingBalance = 0;
+        const first = entries[0];
+        if (first) {
+            const before = await prisma.ledgerEntry.aggregate({
+                where: {
+                    ...account,
+                    OR: [
+                        { createdAt: { lt: first.createdAt } },
+                        { createdAt: first.createdAt, id: { lt: first.id } },
+                    ],
+                },
+                _sum: { amount: true },
+            });
+            openingBalance = roundAmount(before._sum.amount ?? 0, currency);
+        }
+
+        const eventIds = [...new Set(entries.map(e => e.eventId).filter((id): id is string => !!id))];
+        const events = await prisma.event.findMany({ where: { id: { in: eventIds } }, select: { id: true, title: true } });
+        const titles = new Map(events.map(e => [e.id, e.title]));
+
+        let running = openingBalance;
+        const lines = entries.map(entry => {
+            running = roundAmount(running + entry.amount, currency);
+            return {
+                id: entry.id,
+                transactionId: entry.transactionId,
+                date: entry.createdAt,
+                type: entry.type,
+                description: entry.transaction.description,
+                event: entry.eventId ? { id: entry.eventId, title: titles.get(entry.eventId) ?? null } : null,
+                orderId: entry.transaction.orderId,
+                payoutRequestId: entry.transaction.payoutRequestId,
+                amount: entry.amount,
+                balance: running,
+            };
+        });
+
+        return {
+            currency,
+            eventId: query.eventId ?? null,
+            openingBalance,
+            closingBalance: running,
+            currentBalance: roundAmount(current._sum.amount ?? 0, currency),
+            lines,
+            meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+        };
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async postReturn(
+        tx: Prisma.TransactionClient,
+        orderId: string,
+        amount: number,
+        key: string,
+        type: 'REFUND' | 'CHARGEBACK',
+        description: string,
+        createdById?: string
+    ) {
+        const sale = await tx.ledgerTransaction.findUnique({ where: { key: `order:${orderId}:sale` }, include: { entries: true } });
+        if (!sale) return null;
+
+        // What each beneficiary still holds of the sale's ticket revenue
+        const held = new Map<string, number>();
+        for (const entry of sale.entries) {
+            if (entry.account === 'ORGANIZER') held.set(entry.organizerId, (held.get(entry.organizerId) ?? 0) + entry.amount);
+        }
+        const returned = await tx.ledgerEntry.groupBy({
+            by: ['organizerId'],
+            where: { account: 'ORGANIZER', type: { in: ['REFUND', 'CHARGEBACK'] }, transaction: { orderId } },
+            _sum: { amount: true },
+        });
+        for (const row of returned) {
+            if (held.has(row.organizerId)) held.set(row.organizerId, held.get(row.organizerId)! + (row._sum.amount ?? 0));
+        }
+        const holders = [...held].map(([organizerId, amount]) => ({ organizerId, amount: Math.max(0, amount) }));
+        const totalHeld = holders.reduce((sum, h) => sum + h.amount, 0);
+        const fromOrganizers = roundAmount(Math.min(amount, totalHeld), sale.currency);
+
+        // Pro rata, with the last holder taking the rounding remainder so the legs add up exactly
+        let allotted = 0;
+        const organizerLegs: Leg[] = holders.map((h, index) => {
+            const share = fromOrganizers === 0 ? 0
+                : index === holders.length - 1 ? fromOrganizers - allotted
+                : roundAmount((fromOrganizers * h.amount) / totalHeld, sale.currency);
+            allotted += share;
+            return { account: 'ORGANIZER', organizerId: h.organizerId, amount: -share };
+        });
+        const fromPlatform = amount - fromOrganizers;
+
+        const organizerLeg = sale.entries.find(e => e.account === 'ORGANIZER');
+        return this.post(tx, {
+            key,
+            type,
+            organizerId: sale.organizerId,
+            currency: sale.currency,
+            eventId: organizerLeg?.eventId ?? null,
+            description,
+            orderId,
+            createdById,
+            legs: [...organizerLegs, { account: 'PLATFORM', amount: -fromPlatform }],
+            against: 'PROCESSOR',
+        });
+    }
+
+    private static async postTransfer(tx: Prisma.TransactionClient, payoutId: string, key: string, description: string, direction: 1 | -1) {
+        const payout = await tx.payoutRequest.findUniqueOrThrow({ where: { id: payoutId } });
+        return this.post(tx, {
+            key,
+            type: 'PAYOUT',
+            organizerId: payout.organizerId,
+            currency: payout.currency,
+            eventId: payout.eventId,
+            description,
+            payoutRequestId: payoutId,
+            legs: [{ account: 'PAYOUT_CLEARING', amount: direction * payout.netAmount }],
+            against: 'PROCESSOR',
+        });
+    }
+
+    /**
+     * Write one balanced transaction. A key that's already booked returns the existing
+     * transaction; legs that round to zero are dropped, and nothing is written if none remain.
+     */
+    private static async post(tx: Prisma.TransactionClient, posting: Posting) {
+        const existing = await tx.ledgerTransaction.findUnique({ where: { key: posting.key } });
+        if (existing) return existing;
+
+        const legs = posting.legs
+            .map(leg => ({ ...leg, amount: roundAmount(leg.amount, posting.currency) }))
+            .filter(leg => leg.amount !== 0);
+        if (legs.length === 0) return null;
+        const balancing = roundAmount(-legs.reduce((sum, leg) => sum + leg.amount, 0), posting.currency);
+        if (balancing !== 0) legs.push({ account: posting.against, amount: balancing, eventId: posting.eventId });
+
+        return tx.ledgerTransaction.create({
+            data: {
+                key: posting.key,
+                type: posting.type,
+                organizerId: posting.organizerId,
+                currency: posting.currency,
+                description: posting.description,
+                orderId: posting.orderId ?? null,
+                payoutRequestId: posting.payoutRequestId ?? null,
+                createdById: posting.createdById ?? null,
+                entries: {
+                    create: legs.map(leg => ({
+                        account: leg.account,
+                        type: posting.type,
+                        organizerId: leg.organizerId ?? posting.organizerId,
+                        eventId: leg.eventId !== undefined ? leg.eventId : posting.eventId ?? null,
+                        currency: posting.currency,
+                        amount: leg.amount,
+                    })),
+                },
+            },
+            include: { entries: true },
+        });
+    }
+}
@@ -1,10 +1,19 @@
 import { prisma } from '../config/database';
 import { emailQueue } from '../jobs/email.queue';
 import { smsQueue } from '../jobs/sms.queue';
+import { refundQueue } from '../jobs/refund.queue';
+import { TicketQrService } from './ticketQr.service';
 import redis from '../config/redis';
+import { roundAmount } from '../utils/currency';
 
 const ACCESS_CACHE_TTL = 120; // 2 min — team membership rarely changes mid-session
 
+/** A registration answer as one readable cell. */
+function displayAnswer(type: string, value: string[]): string {
+    if (type === 'CHECKBOX') return value[0] === 'true' ? 'Yes' : 'No';
+    return value.join('; ');
+}
+
 interface TeamPermissions {
     canEdit: boolean;
     canManageAttendees: boolean;
@@ -310,6 +319,23 @@ export class ManageService {
         });
         const avgOrderValue = Math.round(avgOrderAgg._avg.total ?? 0);
 
+        // Donations are reported apart from ticket sales, per currency — they're already in totalRevenue
+        const donationItems = await prisma.orderItem.findMany({
+            where: {
+                isDonation: true,
+                order: { eventId, status: 'CONFIRMED', ...(startDate ? { createdAt: { gte: startDate } } : {}) },
+            },
+            select: { quantity: true, totalPrice: true, order: { select: { currency: true } } },
+        });
+        const donationsByCurrency = new Map<string, { currency: string; total: number; tickets: number }>();
+        for (const item of donationItems) {
+            const entry = donationsByCurrency.get(item.order.currency) ?? { currency: item.order.currency, total: 0, tickets: 0 };
+            entry.total = roundAmount(entry.total + item.totalPrice, entry.currency);
+            entry.tickets += item.quantity;
+            donationsByCurrency.set(entry.currency, entry);
+        }
+        const donations = [...donationsByCurrency.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+
         // Repeat attendees — parallelise the two lookup queries
         let repeatAttendeesRate = 0;
         if (event && stats.ticketsSold > 0) {
@@ -349,6 +375,7 @@ export class ManageService {
             peakSalesDay,
             avgOrderValue,
             repeatAttendeesRate,
+            donations,
         };
     }
 
@@ -362,7 +389,8 @@ export class ManageService {
         limit: number = 20,
         search?: string,
         status?: string,
-        ticketType?: string
+        ticketType?: string,
+        answer?: { questionId: string; value?: string }
     ) {
         await this.checkEventAccess(userId, eventId, 'canManageAttendees');
 
@@ -383,6 +411,10 @@ export class ManageService {
         if (status === 'checked_in') where.checkedIn = true;
         if (status === 'not_checked_in') where.checkedIn = false;
         if (ticketType && ticketType !== 'all') where.ticketId = ticketType;
+        // Registration answer filter — without a value, anyone who answered the question
+        if (answer) {
+            where.answers = { some: { questionId: answer.questionId, ...(answer.value && { value: { has: answer.value } }) } };
+        }
 
         const [total, attendees] = await prisma.$transaction([
             prisma.attendee.count({ where }),
@@ -393,7 +425,8 @@ export class ManageService {
                 orderBy: { createdAt: 'desc' },
                 include: {
                     ticket: { select: { name: true, price: true } },
-                    order: { select: { id: true } }
+                    order: { select: { id: true } },
+                    answers: { include: { question: { select: { label: true, type: true } } } }
                 }
             })
         ]);
@@ -411,7 +444,13 @@ export class ManageService {
                 status: a.checkedIn ? 'checked_in' : 'not_checked_in',
                 checkInTime: a.checkedInAt?.toISOString() || null,
                 orderId: a.order.id,
-                ticketCode: a.ticketCode
+                ticketCode: a.ticketCode,
+                answers: a.answers.map(ans => ({
+                    questionId: ans.questionId,
+                    label: ans.question.label,
+                    value: ans.value,
+                    display: displayAnswer(ans.question.type, ans.value),
+                }))
             })),
             total,
             page,
@@ -436,15 +475,23 @@ export class ManageService {
         if (status === 'checked_in') where.checkedIn = true;
         if (status === 'not_checked_in') where.checkedIn = false;
 
-        const attendees = await prisma.attendee.findMany({
-            where,
-            orderBy: { createdAt: 'desc' },
-            take: 10_000, // hard cap — stream for larger datasets
-            include: {
-                ticket: { select: { name: true, price: true } },
-                order: { select: { id: true } },
-            },
-        });
+        const [attendees, questions] = await Promise.all([
+            prisma.attendee.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                take: 10_000, // hard cap — stream for larger datasets
+                include: {
+                    ticket: { select: { name: true, price: true } },
+                    order: { select: { id: true } },
+                    answers: { select: { questionId: true, value: true } },
+                },
+            }),
+            prisma.registrationQuestion.findMany({
+                where: { eventId },
+                orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+                select: { id: true, label: true, type: true },
+            }),
+        ]);
 
         const escape = (val: any) => {
             const str = val == null ? '' : String(val);
@@ -455,7 +502,8 @@ export class ManageService {
 
         const headers = [
             'Name', 'Email', 'Phone', 'City', 'Location', 'Ticket Type', 'Ticket Price',
-            'Ticket Code', 'Order ID', 'Check-in Status', 'Check-in Time', 'Purchase Date'
+            'Ticket Code', 'Order ID', 'Check-in Status', 'Check-in Time', 'Purchase Date',
+            ...questions.map(q => escape(q.label)) // one column per registration question
         ];
 
         const rows = attendees.map(a => [
@@ -471,13 +519,19 @@ export class ManageService {
             escape(a.checkedIn ? 'Checked In' : 'Not Checked In'),
             escape(a.checkedInAt ? a.checkedInAt.toISOString() : ''),
             escape(a.createdAt.toISOString()),
+            ...questions.map(q => {
+                const ans = a.answers.find(x => x.questionId === q.id);
+                return escape(ans ? displayAnswer(q.type, ans.value) : '');
+            }),
         ].join(','));
 
         return [headers.join(','), ...rows].join('\n');
     }
 
     /**
-     * Export confirmed orders as CSV (financial report)
+     * Export confirmed orders as CSV (financial report). After the order columns, one
+     * "Net to" column per revenue beneficiary shows what the ledger booked to them for the
+     * order — the organizer's share first — net of absorbed fees and refunds.
      */
     static async exportRevenue(eventId: string, userId: string): Promise<string> {
         await this.checkEventAccess(userId, eventId, 'canViewAnalytics');
@@ -492,6 +546,30 @@ export class ManageService {
             orderBy: { createdAt: 'asc' },
         });
 
+        const [event, entries] = await Promise.all([
+            prisma.event.findUnique({ where: { id: eventId }, select: { organizerId: true } }),
+            prisma.ledgerEntry.findMany({
+                where: { account: 'ORGANIZER', transaction: { orderId: { in: orders.map(o => o.id) } } },
+                select: { organizerId: true, amount: true, transaction: { select: { orderId: true } } },
+            }),
+        ]);
+
+        // orderId → beneficiary → net amount booked to them
+        const split = new Map<string, Map<string, number>>();
+        for (const entry of entries) {
+            const orderId = entry.transaction.orderId!;
+            const byBeneficiary = split.get(orderId) ?? new Map<string, number>();
+            byBeneficiary.set(entry.organizerId, (byBeneficiary.get(entry.organizerId) ?? 0) + entry.amount);
+            split.set(orderId, byBeneficiary);
+        }
+        const beneficiaryIds = [...new Set([event?.organizerId, ...entries.map(e => e.organizerId)])]
+            .filter((id): id is string => !!id);
+        const beneficiaries = await prisma.user.findMany({
+            where: { id: { in: beneficiaryIds } },
+            select: { id: true, displayName: true, email: true },
+        });
+        const names = new Map(beneficiaries.map(b => [b.id, b.displayName || b.email]));
+
         const escape = (val: any) => {
             const str = val == null ? '' : String(val);
             return str.includes(',') || str.includes('"') || str.includes('\n')
@@ -501,25 +579,30 @@ export class ManageService {
 
         const headers = [
             'Order ID', 'Customer Name', 'Customer Email',
-            'Tickets', 'Subtotal', 'Service Fee', 'Discount', 'Total',
-            'Currency', 'Payment Method', 'Promo Code', 'Order Date'
+            'Tickets', 'Subtotal', 'Donations', 'Service Fee', 'Absorbed Fee', 'Discount', 'Total',
+            'Currency', 'Payment Method', 'Promo Code', 'Order Date',
+            ...beneficiaryIds.map(id => escape(`Net to ${names.get(id) ?? id}`)),
         ];
 
         const rows = orders.map(o => {
             const ticketCount = o.items.reduce((sum, i) => sum + i.quantity, 0);
+            const donations = o.items.filter(i => i.isDonation).reduce((sum, i) => sum + i.totalPrice, 0);
             return [
                 escape(o.id),
                 escape(o.user?.displayName || ''),
                 escape(o.user?.email || ''),
                 escape(ticketCount),
                 escape(o.subtotal),
+                escape(donations),
                 escape(o.serviceFee),
+                escape(o.absorbedFee),
                 escape(o.discount),
                 escape(o.total),
                 escape(o.currency),
                 escape(o.paymentMethod || ''),
                 escape(o.promoCode || ''),
                 escape(o.createdAt.toISOString()),
+                ...beneficiaryIds.map(id => escape(roundAmount(split.get(o.id)?.get(id) ?? 0, o.currency))),
             ].join(',');
         });
 
@@ -534,10 +617,15 @@ export class ManageService {
         attendeeId: string,
         userId: string,
         method: 'manual' | 'qr_scan',
-        ticketCode?: string
+        ticketCode?: string,
+        qrPayload?: string
     ) {
         await this.checkEventAccess(userId, eventId, 'canManageAttendees');
 
+        const claims = qrPayload ? TicketQrService.verify(qrPayload) : null;
+        if (claims && claims.attendeeId !== attendeeId) throw new Error('Invalid ticket QR code for this attendee');
+        if (claims && claims.eventId !== eventId) throw new Error('Invalid ticket QR code: it is for a different event');
+
         const attendee = await prisma.attendee.findUnique({
             where: { id: attendeeId },
             include: { order: { select: { eventId: true } } }
@@ -546,11 +634,16 @@ export class ManageService {
         if (!attendee) throw new Error('Attendee not found');
         if (attendee.order.eventId !== eventId) throw new Error('Attendee does not belong to this event');
         if (attendee.checkedIn) throw new Error('Attendee already checked in');
+        if (attendee.status === 'cancelled') throw new Error('This ticket has been cancelled');
 
         // Validate ticket code if provided
         if (ticketCode && attendee.ticketCode !== ticketCode) {
             throw new Error('Invalid ticket code');
         }
+        // A transfer re-issues the code, which revokes QR codes signed for the old one
+        if (claims && attendee.ticketCode !== claims.ticketCode) {
+            throw new Error('Invalid ticket QR code: this ticket has been re-issued');
+        }
 
         const updated = await prisma.attendee.update({
             where: { id: attendeeId },
@@ -568,6 +661,14 @@ export class ManageService {
         };
     }
 
+    /**
+     * Check in whoever a scanned QR payload belongs to — the attendee is read from the signed claims.
+     */
+    static async checkInByQr(eventId: string, userId: string, qrPayload: string) {
+        const claims = TicketQrService.verify(qrPayload);
+        return this.checkInAttendee(eventId, claims.attendeeId, userId, 'qr_scan', undefined, qrPayload);
+    }
+
     /**
      * Duplicate event
      */
@@ -576,7 +677,7 @@ export class ManageService {
 
         const event = await prisma.event.findUnique({
             where: { id: eventId },
-            include: { tickets: true, scheduleItems: true }
+            include: { tickets: { include: { pricePhases: true } }, scheduleItems: true }
         });
 
         if (!event) throw new Error('Event not found');
@@ -621,7 +722,19 @@ export class ManageService {
                         remaining: t.quantity,
                         maxPerUser: t.maxPerUser,
                         salesStart: t.salesStart,
-                        salesEnd: t.salesEnd
+                        salesEnd: t.salesEnd,
+                        minDonation: t.minDonation,
+                        suggestedAmounts: t.suggestedAmounts,
+                        pricePhases: {
+                            create: t.pricePhases.map(p => ({
+                                name: p.name,
+                                price: p.price,
+                                startsAt: p.startsAt,
+                                endsAt: p.endsAt,
+                                soldLimit: p.soldLimit,
+                                position: p.position
+                            }))
+                        }
                     }))
                 },
                 scheduleItems: {
@@ -643,14 +756,20 @@ export class ManageService {
     }
 
     /**
-     * Cancel event
+     * Cancel event. Paid orders are refunded through the refund queue — one job per
+     * order, retried with backoff — using the chosen policy:
+     *   full    — everything the buyer paid, service fee included
+     *   partial — refundPercent (or the event's configured percentage) of the ticket price
+     *   none    — no money is returned
+     * Progress is tracked per order on RefundRequest (source EVENT_CANCELLATION).
      */
     static async cancelEvent(
         eventId: string,
         userId: string,
         reason: string,
         notifyAttendees: boolean,
-        refundPolicy: 'full' | 'partial' | 'none'
+        refundPolicy: 'full' | 'partial' | 'none',
+        refundPercent?: number
     ) {
         await this.checkEventAccess(userId, eventId, 'canEdit');
 
@@ -661,33 +780,108 @@ export class ManageService {
         if (!event) throw new Error('Event not found');
         if (event.status === 'CANCELLED') throw new Error('Event already cancelled');
 
-        // Fetch only the fields needed for refund + notification (no full row load)
+        const percent = refundPolicy === 'partial' ? (refundPercent ?? event.refundPercent) : 100;
+        if (refundPolicy === 'partial' && (!percent || percent <= 0 || percent >= 100)) {
+            throw new Error('A partial refund needs a refundPercent between 1 and 99');
+        }
+
+        // Update event status
+        await prisma.event.update({
+            where: { id: eventId },
+            data: { status: 'CANCELLED' }
+        });
+
+        // Group bookings stop collecting: each open group is closed like at its deadline, so
+        // unpaid seats are released and an order with paid shares is settled for those seats
+        // (and booked to the ledger) before it is refunded below. A group nobody paid into expires.
+        // Imported lazily — services the booking service imports depend on this one.
+        const { BookingService } = await import('./booking.service');
+        const openGroups = await prisma.groupBooking.findMany({
+            where: { status: 'OPEN', bookingOrder: { eventId } },
+            select: { bookingOrderId: true },
+        });
+        for (const group of openGroups) {
+            await BookingService.closeGroupBooking(group.bookingOrderId, true);
+        }
+
+        // Unpaid checkouts are cancelled and their seats released; a charge that still
+        // settles on one is refunded by the payment webhook
+        const pendingOrders = await prisma.bookingOrder.findMany({
+            where: { eventId, status: 'PENDING', installmentPlan: { is: null }, groupBooking: { is: null } },
+            select: { id: true },
+        });
+        for (const order of pendingOrders) {
+            await BookingService.cancelPendingOrder(order.id);
+        }
+
+        // Confirmed orders, plus installment orders still being paid off — those buyers
+        // have money in too. Only the fields needed for refund + notification are loaded.
         const orders = await prisma.bookingOrder.findMany({
-            where: { eventId, status: 'CONFIRMED' },
+            where: {
+                eventId,
+                OR: [
+                    { status: 'CONFIRMED' },
+                    { status: 'PENDING', installmentPlan: { status: 'ACTIVE' } },
+                ],
+            },
             select: {
                 id: true,
+                userId: true,
+                status: true,
+                total: true,
+                serviceFee: true,
+                currency: true,
                 attendees: { select: { email: true, name: true } },
+                installmentPlan: {
+                    select: { id: true, payments: { where: { status: 'PAID' }, select: { amount: true } } }
+                },
+                groupBooking: {
+                    select: { shares: { where: { status: 'PAID' }, select: { amount: true } } }
+                },
+                refundRequest: { select: { id: true, status: true } },
             },
         });
 
-        // Update event status
-        await prisma.event.update({
-            where: { id: eventId },
-            data: { status: 'CANCELLED' }
-        });
+        // Stop installment reminders/defaults right away — refunds (if any) settle the rest
+        const planIds = orders.filter(o => o.installmentPlan).map(o => o.installmentPlan!.id);
+        if (planIds.length > 0) {
+            await prisma.installmentPlan.updateMany({ where: { id: { in: planIds } }, data: { status: 'CANCELLED' } });
+        }
 
         let refundsInitiated = 0;
-        if (refundPolicy !== 'none' && orders.length > 0) {
-            // Mark all orders for refund in a single transaction
-            await prisma.$transaction(
-                orders.map(order =>
-                    prisma.bookingOrder.update({
-                        where: { id: order.id },
-                        data: { status: 'REFUNDED', paymentStatus: 'REFUNDED' },
-                    })
-                )
-            );
-            refundsInitiated = orders.length;
+        if (refundPolicy !== 'none') {
+            for (const order of orders) {
+                // Already refunded, or an attendee-requested refund is mid-flight
+                if (order.refundRequest && ['REFUNDED', 'PROCESSING'].includes(order.refundRequest.status)) continue;
+
+                const paid = order.installmentPlan
+                    ? order.installmentPlan.payments.reduce((sum, p) => sum + p.amount, 0)
+                    : order.groupBooking
+                    ? order.groupBooking.shares.reduce((sum, sh) => sum + sh.amount, 0)
+                    : order.total;
+                const ticketShare = order.total > 0 ? (order.total - order.serviceFee) / order.total : 0;
+                const amount = refundPolicy === 'full' ? paid : roundAmount(paid * ticketShare * percent! / 100, order.currency);
+                if (amount <= 0) continue;
+
+                const data = {
+                    source: 'EVENT_CANCELLATION' as const,
+                    status: 'PENDING' as const,
+                    amount,
+                    refundPercent: percent!,
+                    reason,
+                };
+                const request = await prisma.refundRequest.upsert({
+                    where: { orderId: order.id },
+                    create: { orderId: order.id, eventId, userId: order.userId, ...data },
+                    // A pending/denied/failed attendee request is superseded by the cancellation refund
+                    update: { ...data, failureReason: null },
+                });
+
+                await refundQueue.add('event-cancellation', { type: 'event-cancellation', refundRequestId: request.id }, {
+                    jobId: `refund-${request.id}`,
+                });
+                refundsInitiated++;
+            }
         }
 
         // Send notification emails to attendees via queue
@@ -1,158 +1,81 @@
-import crypto from 'crypto';
-
-const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY;
-
-if (!PAYSTACK_SECRET_KEY) {
-    console.warn('WARNING: PAYSTACK_SECRET_KEY is not set. Payment features will be unavailable.');
-}
-
-export interface CustomerObject {
-    email: string;
-    name?: string;
-    phone?: string;
+import { PaymentProvider, PaymentProviderName } from './payment/payment.provider';
+import { PaystackProvider } from './payment/paystack.provider';
+import { FlutterwaveProvider } from './payment/flutterwave.provider';
+import { FakeProvider } from './payment/fake.provider';
+
+export type {
+    PaymentProvider, PaymentProviderName, CustomerObject, PaymentInitResult,
+    PaymentVerifyResult, PaymentWebhookEvent, TransferParams, TransferResult, ResolvedAccount,
+} from './payment/payment.provider';
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+    paystack: new PaystackProvider(),
+    flutterwave: new FlutterwaveProvider(),
+    fake: new FakeProvider(),
+};
+
+// Orders paid before providers were pluggable only ever went through Paystack
+const LEGACY_PROVIDER: PaymentProviderName = 'paystack';
+
+// Organizer payouts and bank account lookups go through Paystack Transfers unless configured otherwise
+const PAYOUT_PROVIDER = (process.env.PAYOUT_PROVIDER || 'paystack') as PaymentProviderName;
+
+/** Platform-wide default, overridable per currency with e.g. PAYMENT_PROVIDER_BY_CURRENCY="KES:flutterwave,ZAR:flutterwave". */
+const DEFAULT_PROVIDER = (process.env.DEFAULT_PAYMENT_PROVIDER || 'paystack') as PaymentProviderName;
+const PROVIDER_BY_CURRENCY: Record<string, PaymentProviderName> = Object.fromEntries(
+    (process.env.PAYMENT_PROVIDER_BY_CURRENCY || '')
+        .split(',')
+        .map(pair => pair.split(':').map(s => s.trim()))
+        .filter(([currency, name]) => currency && name)
+        .map(([currency, name]) => [currency.toUpperCase(), name.toLowerCase() as PaymentProviderName])
+);
+
+if (!providers.paystack.isEnabled() && !providers.flutterwave.isEnabled()) {
+    console.warn('WARNING: Neither PAYSTACK_SECRET_KEY nor FLUTTERWAVE_SECRET_KEY is set. Payment features will be unavailable.');
 }
 
-export interface PaymentInitResult {
-    paymentUrl: string;
-    reference: string;
-}
-
-export interface PaymentVerifyResult {
-    status: 'success' | 'failed' | 'abandoned';
-    reference: string;
-    amount: number;
-    currency: string;
+export function isPaymentProviderName(value: string): value is PaymentProviderName {
+    return Object.prototype.hasOwnProperty.call(providers, value);
 }
 
 export class PaymentService {
     /**
-     * Initialize a Paystack transaction and return the hosted checkout URL.
-     * Amount is in NGN; Paystack expects kobo (NGN × 100).
+     * Look up a provider by name. Throws for unknown names and for providers that aren't
+     * available here (the fake provider in production).
      */
-    static async initializeTransaction(
-        amount: number,
-        _currency: string,
-        description: string,
-        customer: CustomerObject,
-        metadata?: Record<string, any>,
-        callbackUrl?: string
-    ): Promise<PaymentInitResult> {
-        if (!PAYSTACK_SECRET_KEY) {
-            throw new Error('Payment service not configured. Set PAYSTACK_SECRET_KEY environment variable.');
-        }
-
-        const payload: Record<string, any> = {
-            email: customer.email,
-            amount: Math.round(amount * 100), // NGN → kobo
-            currency: 'NGN',
-            metadata: {
-                ...metadata,
-                customer_name: customer.name,
-                customer_phone: customer.phone,
-                description,
-            },
-        };
-
-        if (callbackUrl) payload.callback_url = callbackUrl;
-
-        console.log('[Paystack] initialize payload:', JSON.stringify(payload, null, 2));
-
-        const response = await fetch('https://api.paystack.co/transaction/initialize', {
-            method: 'POST',
-            headers: {
-                Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(payload),
-        });
-
-        const data = await response.json() as any;
-        console.log('[Paystack] initialize response:', JSON.stringify(data, null, 2));
-
-        if (!data.status || !data.data?.authorization_url) {
-            throw new Error(data.message || 'Paystack did not return a payment URL');
-        }
-
-        return {
-            paymentUrl: data.data.authorization_url,
-            reference: data.data.reference,
-        };
+    static provider(name: string): PaymentProvider {
+        if (!isPaymentProviderName(name)) throw new Error(`Unknown payment provider: ${name}`);
+        const provider = providers[name];
+        if (name === 'fake' && !provider.isEnabled()) throw new Error('Payment provider fake is not available');
+        return provider;
     }
 
     /**
-     * Verify a Paystack transaction by reference.
+     * The provider that holds a stored payment reference — what refunds and verification must go through.
      */
-    static async verifyTransaction(reference: string): Promise<PaymentVerifyResult> {
-        if (!PAYSTACK_SECRET_KEY) {
-            throw new Error('Payment service not configured. Set PAYSTACK_SECRET_KEY environment variable.');
-        }
-
-        const response = await fetch(
-            `https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`,
-            {
-                headers: { Authorization: `Bearer ${PAYSTACK_SECRET_KEY}` },
-            }
-        );
-
-        const data = await response.json() as any;
-
-        if (!data.status) {
-            throw new Error(data.message || 'Failed to verify transaction');
-        }
+    static providerFor(name: string | null | undefined): PaymentProvider {
+        return this.provider(name || LEGACY_PROVIDER);
+    }
 
-        const tx = data.data;
-        return {
-            status: tx.status === 'success' ? 'success' : tx.status === 'abandoned' ? 'abandoned' : 'failed',
-            reference: tx.reference,
-            amount: tx.amount / 100, // kobo → NGN
-            currency: tx.currency,
-        };
+    /** The provider organizer payouts are sent through and bank accounts are resolved with. */
+    static forPayouts(): PaymentProvider {
+        return this.provider(PAYOUT_PROVIDER);
     }
 
     /**
-     * Refund a previously-settled Paystack transaction (fully or partially).
-     * Paystack processes refunds asynchronously — a 'status' of 'pending' or
-     * 'processing' just means the request was accepted, not that funds moved yet.
+     * Pick the provider a new checkout should use: the event's own choice when it handles the
+     * currency, otherwise the platform default for that currency.
      */
-    static async refundTransaction(reference: string, amount: number): Promise<{ status: string }> {
-        if (!PAYSTACK_SECRET_KEY) {
-            throw new Error('Payment service not configured. Set PAYSTACK_SECRET_KEY environment variable.');
+    static forCheckout(currency: string, eventProvider?: string | null): PaymentProvider {
+        if (eventProvider) {
+            const preferred = this.provider(eventProvider);
+            if (preferred.supportsCurrency(currency)) return preferred;
         }
 
-        const response = await fetch('https://api.paystack.co/refund', {
-            method: 'POST',
-            headers: {
-                Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                transaction: reference,
-                amount: Math.round(amount * 100), // NGN → kobo
-            }),
-        });
-
-        const data = await response.json() as any;
-
-        if (!data.status) {
-            throw new Error(data.message || 'Failed to initiate refund');
+        const provider = this.provider(PROVIDER_BY_CURRENCY[currency] ?? DEFAULT_PROVIDER);
+        if (!provider.supportsCurrency(currency)) {
+            throw new Error(`Payments in ${currency} are not available`);
         }
-
-        return { status: data.data?.status ?? 'pending' };
-    }
-
-    /**
-     * Verify a Paystack webhook signature.
-     * Algorithm: HMAC-SHA512(rawBody, PAYSTACK_SECRET_KEY)
-     * Header:    x-paystack-signature: {hex_digest}
-     */
-    static verifyWebhookSignature(rawBody: string, signatureHeader: string): boolean {
-        if (!PAYSTACK_SECRET_KEY) return false;
-
-        const hash = crypto
-            .createHmac('sha512', PAYSTACK_SECRET_KEY)
-            .update(rawBody)
-            .digest('hex');
-
-        return hash === signatureHeader;
+        return provider;
     }
 }
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { isSupportedCurrency } from '../../utils/currency';
+import {
+    PaymentProvider, PaymentInitParams, PaymentInitResult, PaymentVerifyResult,
+    TransferParams, TransferResult, ResolvedAccount, PaymentWebhookEvent, headerValue,
+} from './payment.provider';
+
+const FAKE_WEBHOOK_SECRET = process.env.FAKE_PAYMENT_WEBHOOK_SECRET || 'fake-webhook-secret';
+
+interface FakeTransaction {
+    reference: string;
+    amount: number;
+    currency: string;
+    status: PaymentVerifyResult['status'];
+    refunded: number;
+}
+
+/**
+ * In-memory provider for local development and tests: no network calls, and checkouts
+ * stay pending until settled with `FakeProvider.webhookFor`. Never enabled in production.
+ */
+export class FakeProvider implements PaymentProvider {
+    readonly name = 'fake' as const;
+
+    static readonly transactions = new Map<string, FakeTransaction>();
+    static readonly transfers = new Map<string, TransferParams>();
+    /** Account names the fake bank knows, keyed by `bankCode:accountNumber`. */
+    static readonly bankAccounts = new Map<string, string>();
+
+    /**
+     * A signed webhook for a fake checkout, ready to POST to /webhooks/fake.
+     * Settling it also updates what `verifyTransaction` reports.
+     */
+    static webhookFor(reference: string, outcome: 'success' | 'failed' = 'success') {
+        const tx = FakeProvider.transactions.get(reference);
+        if (!tx) throw new Error(`Unknown fake transaction: ${reference}`);
+        tx.status = outcome;
+
+        const body = JSON.stringify({
+            event: outcome === 'success' ? 'charge.success' : 'charge.failed',
+            data: { reference, amount: tx.amount, currency: tx.currency },
+        });
+        return FakeProvider.signed(body);
+    }
+
+    /** A signed webhook settling a fake transfer, ready to POST to /webhooks/fake. */
+    static transferWebhookFor(reference: string, outcome: 'success' | 'failed' = 'success') {
+        const transfer = FakeProvider.transfers.get(reference);
+        if (!transfer) throw new Error(`Unknown fake transfer: ${reference}`);
+
+        const body = JSON.stringify({
+            event: outcome === 'success' ? 'transfer.success' : 'transfer.failed',
+            data: { reference, amount: transfer.amount, currency: transfer.currency },
+        });
+        return FakeProvider.signed(body);
+    }
+
+    private static signed(body: string) {
+        const signature = crypto.createHmac('sha256', FAKE_WEBHOOK_SECRET).update(body).digest('hex');
+        return { body, headers: { 'content-type': 'application/json', 'x-fake-signature': signature } };
+    }
+
+    isEnabled() {
+        return process.env.NODE_ENV !== 'production';
+    }
+
+    supportsCurrency(currency: string) {
+        return isSupportedCurrency(currency);
+    }
+
+    async initializeTransaction(params: PaymentInitParams): Promise<PaymentInitResult> {
+        if (!isSupportedCurrency(params.currency)) throw new Error(`Unsupported currency: ${params.currency}`);
+
+        const reference = `FAKE-${crypto.randomBytes(8).toString('hex')}`;
+        FakeProvider.transactions.set(reference, {
+            reference,
+            amount: params.amount,
+            currency: params.currency,
+            status: 'pending',
+            refunded: 0,
+        });
+        return { paymentUrl: `${params.callbackUrl ?? 'http://localhost:3000'}?reference=${reference}&fake=1`, reference };
+    }
+
+    async verifyTransaction(reference: string): Promise<PaymentVerifyResult> {
+        const tx = FakeProvider.transactions.get(reference);
+        if (!tx) throw new Error('Failed to verify transaction');
+        return { status: tx.status, reference, amount: tx.amount, currency: tx.currency };
+    }
+
+    async refundTransaction(reference: string, amount: number, currency: string): Promise<{ status: string }> {
+        const tx = FakeProvider.transactions.get(reference);
+        if (!tx || tx.status !== 'success') throw new Error('Transaction has not been paid');
+        if (tx.currency !== currency) throw new Error(`Transaction ${reference} was not charged in ${currency}`);
+        if (tx.refunded + amount > tx.amount + 0.005) throw new Error('Refund exceeds the amount paid');
+
+        tx.refunded += amount;
+        return { status: 'processed' };
+    }
+
+    // Transfers stay pending until settled with `FakeProvider.transferWebhookFor`
+    async transfer(params: TransferParams): Promise<TransferResult> {
+        FakeProvider.transfers.set(params.reference, params);
+        return {
+            status: 'pending',
+            reference: params.reference,
+            providerReference: `FAKE-TRF-${params.reference}`,
+            recipientCode: params.recipient.code ?? `FAKE-RCP-${params.recipient.bankCode}-${params.recipient.accountNumber}`,
+        };
+    }
+
+    async resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount> {
+        const accountName = FakeProvider.bankAccounts.get(`${bankCode}:${accountNumber}`);
+        if (!accountName) throw new Error('Could not resolve bank account');
+        return { accountName, accountNumber };
+    }
+
+    verifyWebhook(rawBody: string, headers: Record<string, string | string[] | undefined>): boolean {
+        const signature = headerValue(headers, 'x-fake-signature');
+        if (!this.isEnabled() || !signature) return false;
+
+        const hash = crypto.createHmac('sha256', FAKE_WEBHOOK_SECRET).update(rawBody).digest('hex');
+        return hash.length === signature.length && crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature));
+    }
+
+    parseWebhook(body: any): PaymentWebhookEvent {
+        const event = String(body?.event ?? '');
+        const data = body?.data ?? {};
+        const known = ['charge.success', 'charge.failed', 'transfer.success', 'transfer.failed'] as const;
+        return {
+            type: (known as readonly string[]).includes(event) ? event as typeof known[number] : 'ignored',
+            providerEvent: event,
+            eventKey: `${event}:${data.reference}`,
+            reference: data.reference,
+            amount: typeof data.amount === 'number' ? data.amount : undefined,
+            currency: data.currency,
+        };
+    }
+}
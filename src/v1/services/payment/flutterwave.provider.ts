@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import { isSupportedCurrency } from '../../utils/currency';
+import {
+    PaymentProvider, PaymentInitParams, PaymentInitResult, PaymentVerifyResult,
+    TransferParams, TransferResult, ResolvedAccount, PaymentWebhookEvent, headerValue,
+} from './payment.provider';
+
+const FLUTTERWAVE_SECRET_KEY = process.env.FLUTTERWAVE_SECRET_KEY;
+const FLUTTERWAVE_WEBHOOK_HASH = process.env.FLUTTERWAVE_WEBHOOK_HASH; // "secret hash" set on the Flutterwave dashboard
+const FLUTTERWAVE_API = 'https://api.flutterwave.com/v3';
+
+function requireKey(): string {
+    if (!FLUTTERWAVE_SECRET_KEY) {
+        throw new Error('Payment service not configured. Set FLUTTERWAVE_SECRET_KEY environment variable.');
+    }
+    return FLUTTERWAVE_SECRET_KEY;
+}
+
+async function flutterwaveRequest(path: string, init: { method?: string; body?: unknown } = {}) {
+    const response = await fetch(`${FLUTTERWAVE_API}${path}`, {
+        method: init.method ?? 'GET',
+        headers: {
+            Authorization: `Bearer ${requireKey()}`,
+            ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+    });
+    return await response.json() as any;
+}
+
+/**
+ * Flutterwave Standard checkout. Unlike Paystack, Flutterwave takes amounts in major units
+ * and lets the merchant choose the transaction reference (`tx_ref`).
+ */
+export class FlutterwaveProvider implements PaymentProvider {
+    readonly name = 'flutterwave' as const;
+
+    isEnabled() {
+        return !!FLUTTERWAVE_SECRET_KEY;
+    }
+
+    supportsCurrency(currency: string) {
+        return isSupportedCurrency(currency);
+    }
+
+    async initializeTransaction(params: PaymentInitParams): Promise<PaymentInitResult> {
+        requireKey();
+        if (!isSupportedCurrency(params.currency)) throw new Error(`Unsupported currency: ${params.currency}`);
+
+        const reference = `EVF-${crypto.randomBytes(12).toString('hex')}`;
+        const data = await flutterwaveRequest('/payments', {
+            method: 'POST',
+            body: {
+                tx_ref: reference,
+                amount: params.amount,
+                currency: params.currency,
+                redirect_url: params.callbackUrl,
+                customer: {
+                    email: params.customer.email,
+                    name: params.customer.name,
+                    phonenumber: params.customer.phone,
+                },
+                customizations: { title: 'EventFi', description: params.description },
+                meta: params.metadata,
+            },
+        });
+
+        if (data.status !== 'success' || !data.data?.link) {
+            throw new Error(data.message || 'Flutterwave did not return a payment URL');
+        }
+
+        return { paymentUrl: data.data.link, reference };
+    }
+
+    async verifyTransaction(reference: string): Promise<PaymentVerifyResult> {
+        const tx = await this.findTransaction(reference);
+        return {
+            status: tx.status === 'successful' ? 'success'
+                : tx.status === 'pending' ? 'pending'
+                : 'failed',
+            reference: tx.tx_ref,
+            amount: tx.amount,
+            currency: tx.currency,
+        };
+    }
+
+    /**
+     * Flutterwave refunds by transaction id, not by our reference, so look the id up first.
+     */
+    async refundTransaction(reference: string, amount: number, currency: string): Promise<{ status: string }> {
+        const tx = await this.findTransaction(reference);
+        if (tx.currency !== currency) throw new Error(`Transaction ${reference} was not charged in ${currency}`);
+
+        const data = await flutterwaveRequest(`/transactions/${tx.id}/refund`, {
+            method: 'POST',
+            body: { amount },
+        });
+        if (data.status !== 'success') {
+            throw new Error(data.message || 'Failed to initiate refund');
+        }
+
+        return { status: data.data?.status ?? 'pending' };
+    }
+
+    async transfer(params: TransferParams): Promise<TransferResult> {
+        const data = await flutterwaveRequest('/transfers', {
+            method: 'POST',
+            body: {
+                account_bank: params.recipient.bankCode,
+                account_number: params.recipient.accountNumber,
+                beneficiary_name: params.recipient.name,
+                amount: params.amount,
+                currency: params.currency,
+                narration: params.reason,
+                reference: params.reference,
+            },
+        });
+        if (data.status !== 'success') {
+            throw new Error(data.message || 'Failed to initiate transfer');
+        }
+
+        const status = String(data.data?.status ?? '').toUpperCase();
+        return {
+            status: status === 'SUCCESSFUL' ? 'success' : status === 'FAILED' ? 'failed' : 'pending',
+            reference: params.reference,
+            providerReference: data.data?.id ? String(data.data.id) : undefined,
+        };
+    }
+
+    async resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount> {
+        const data = await flutterwaveRequest('/accounts/resolve', {
+            method: 'POST',
+            body: { account_number: accountNumber, account_bank: bankCode },
+        });
+        if (data.status !== 'success' || !data.data?.account_name) {
+            throw new Error(data.message || 'Could not resolve bank account');
+        }
+
+        return { accountName: data.data.account_name, accountNumber: data.data.account_number ?? accountNumber };
+    }
+
+    /**
+     * Flutterwave sends the dashboard "secret hash" verbatim in the `verif-hash` header.
+     */
+    verifyWebhook(_rawBody: string, headers: Record<string, string | string[] | undefined>): boolean {
+        const hash = headerValue(headers, 'verif-hash');
+        if (!FLUTTERWAVE_WEBHOOK_HASH || !hash) return false;
+
+        return hash.length === FLUTTERWAVE_WEBHOOK_HASH.length &&
+            crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(FLUTTERWAVE_WEBHOOK_HASH));
+    }
+
+    parseWebhook(body: any): PaymentWebhookEvent {
+        const event = String(body?.event ?? '');
+        const data = body?.data ?? {};
+
+        let type: PaymentWebhookEvent['type'] = 'ignored';
+        if (event === 'charge.completed') {
+            type = data.status === 'successful' ? 'charge.success'
+                : data.status === 'failed' ? 'charge.failed'
+                : 'ignored';
+        } else if (event === 'transfer.completed') {
+            const status = String(data.status ?? '').toUpperCase();
+            type = status === 'SUCCESSFUL' ? 'transfer.success'
+                : status === 'FAILED' ? 'transfer.failed'
+                : 'ignored';
+        }
+
+        return {
+            type,
+            providerEvent: event,
+            eventKey: `${event}:${data.id ?? data.tx_ref}:${data.status}`,
+            // Transfers carry the reference we chose; charges carry it as tx_ref
+            reference: event === 'transfer.completed' ? data.reference : data.tx_ref,
+            amount: typeof data.amount === 'number' ? data.amount : undefined,
+            currency: data.currency,
+        };
+    }
+
+    private async findTransaction(reference: string) {
+        const data = await flutterwaveRequest(`/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`);
+        if (data.status !== 'success' || !data.data) {
+            throw new Error(data.message || 'Failed to verify transaction');
+        }
+        return data.data;
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Contract every payment provider adapter implements. Amounts crossing this boundary are
+ * always in major units of the given currency; each adapter converts to whatever its API expects.
+ */
+
+export type PaymentProviderName = 'paystack' | 'flutterwave' | 'fake';
+
+export interface CustomerObject {
+    email: string;
+    name?: string;
+    phone?: string;
+}
+
+export interface PaymentInitParams {
+    amount: number;
+    currency: string;
+    description: string;
+    customer: CustomerObject;
+    metadata?: Record<string, any>;
+    callbackUrl?: string;
+}
+
+export interface PaymentInitResult {
+    paymentUrl: string;
+    reference: string;
+}
+
+export interface PaymentVerifyResult {
+    status: 'success' | 'failed' | 'abandoned' | 'pending';
+    reference: string;
+    amount: number;
+    currency: string;
+}
+
+export interface TransferParams {
+    amount: number;
+    currency: string;
+    reference: string;
+    reason: string;
+    recipient: {
+        name: string;
+        accountNumber: string;
+        bankCode: string;
+        code?: string | null; // provider's saved recipient from an earlier transfer, if any
+    };
+}
+
+export interface TransferResult {
+    status: 'pending' | 'success' | 'failed';
+    reference: string;
+    providerReference?: string;
+    recipientCode?: string; // save and pass back as `recipient.code` to skip re-registering the account
+}
+
+export interface ResolvedAccount {
+    accountName: string;
+    accountNumber: string;
+}
+
+/**
+ * A provider webhook reduced to what the booking and payout flows care about. `type` is
+ * 'ignored' for events that don't settle or fail a charge or transfer (subscriptions, ...).
+ * A reversed transfer counts as failed — the money is back in the platform balance.
+ */
+export interface PaymentWebhookEvent {
+    type: 'charge.success' | 'charge.failed' | 'transfer.success' | 'transfer.failed' | 'ignored';
+    providerEvent: string;
+    /** Identifies the event itself, so a redelivery of the same event gets the same key. */
+    eventKey: string;
+    reference?: string;
+    amount?: number;
+    currency?: string;
+}
+
+export interface PaymentProvider {
+    readonly name: PaymentProviderName;
+
+    /** Whether the provider is configured (keys present) and usable in this environment. */
+    isEnabled(): boolean;
+    supportsCurrency(currency: string): boolean;
+
+    initializeTransaction(params: PaymentInitParams): Promise<PaymentInitResult>;
+    verifyTransaction(reference: string): Promise<PaymentVerifyResult>;
+    refundTransaction(reference: string, amount: number, currency: string): Promise<{ status: string }>;
+    transfer(params: TransferParams): Promise<TransferResult>;
+    /** Look up the name a bank holds for an account, so it never has to be taken from the user. */
+    resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount>;
+
+    /** Check a webhook came from the provider. `rawBody` is the request body exactly as received. */
+    verifyWebhook(rawBody: string, headers: Record<string, string | string[] | undefined>): boolean;
+    parseWebhook(body: any): PaymentWebhookEvent;
+}
+
+export function headerValue(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
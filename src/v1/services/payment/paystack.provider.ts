@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { toMinorUnits, fromMinorUnits, isSupportedCurrency } from '../../utils/currency';
+import {
+    PaymentProvider, PaymentInitParams, PaymentInitResult, PaymentVerifyResult,
+    TransferParams, TransferResult, ResolvedAccount, PaymentWebhookEvent, headerValue,
+} from './payment.provider';
+
+const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY;
+const PAYSTACK_API = 'https://api.paystack.co';
+
+// Transfer recipient type for a local bank account in each payout currency
+const RECIPIENT_TYPES: Record<string, string> = { NGN: 'nuban', GHS: 'ghipss', KES: 'kepss', ZAR: 'basa' };
+
+function requireKey(): string {
+    if (!PAYSTACK_SECRET_KEY) {
+        throw new Error('Payment service not configured. Set PAYSTACK_SECRET_KEY environment variable.');
+    }
+    return PAYSTACK_SECRET_KEY;
+}
+
+async function paystackRequest(path: string, init: { method?: string; body?: unknown } = {}) {
+    const response = await fetch(`${PAYSTACK_API}${path}`, {
+        method: init.method ?? 'GET',
+        headers: {
+            Authorization: `Bearer ${requireKey()}`,
+            ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+    });
+    return await response.json() as any;
+}
+
+export class PaystackProvider implements PaymentProvider {
+    readonly name = 'paystack' as const;
+
+    isEnabled() {
+        return !!PAYSTACK_SECRET_KEY;
+    }
+
+    // Paystack settles all of the platform's currencies
+    supportsCurrency(currency: string) {
+        return isSupportedCurrency(currency);
+    }
+
+    /**
+     * Initialize a Paystack transaction and return the hosted checkout URL.
+     * Paystack expects minor units (kobo, pesewas, cents).
+     */
+    async initializeTransaction(params: PaymentInitParams): Promise<PaymentInitResult> {
+        requireKey();
+        if (!isSupportedCurrency(params.currency)) throw new Error(`Unsupported currency: ${params.currency}`);
+
+        const payload: Record<string, any> = {
+            email: params.customer.email,
+            amount: toMinorUnits(params.amount, params.currency),
+            currency: params.currency,
+            metadata: {
+                ...params.metadata,
+                customer_name: params.customer.name,
+                customer_phone: params.customer.phone,
+                description: params.description,
+            },
+        };
+
+        if (params.callbackUrl) payload.callback_url = params.callbackUrl;
+
+        console.log('[Paystack] initialize payload:', JSON.stringify(payload, null, 2));
+
+        const data = await paystackRequest('/transaction/initialize', { method: 'POST', body: payload });
+        console.log('[Paystack] initialize response:', JSON.stringify(data, null, 2));
+
+        if (!data.status || !data.data?.authorization_url) {
+            throw new Error(data.message || 'Paystack did not return a payment URL');
+        }
+
+        return {
+            paymentUrl: data.data.authorization_url,
+            reference: data.data.reference,
+        };
+    }
+
+    async verifyTransaction(reference: string): Promise<PaymentVerifyResult> {
+        requireKey();
+
+        const data = await paystackRequest(`/transaction/verify/${encodeURIComponent(reference)}`);
+        if (!data.status) {
+            throw new Error(data.message || 'Failed to verify transaction');
+        }
+
+        const tx = data.data;
+        return {
+            status: tx.status === 'success' ? 'success'
+                : tx.status === 'abandoned' ? 'abandoned'
+                : tx.status === 'ongoing' || tx.status === 'pending' ? 'pending'
+                : 'failed',
+            reference: tx.reference,
+            amount: fromMinorUnits(tx.amount, tx.currency),
+            currency: tx.currency,
+        };
+    }
+
+    /**
+     * Refund a previously-settled transaction (fully or partially).
+     * Paystack processes refunds asynchronously — a 'status' of 'pending' or
+     * 'processing' just means the request was accepted, not that funds moved yet.
+     */
+    async refundTransaction(reference: string, amount: number, currency: string): Promise<{ status: string }> {
+        requireKey();
+
+        const data = await paystackRequest('/refund', {
+            method: 'POST',
+            body: { transaction: reference, amount: toMinorUnits(amount, currency) },
+        });
+        if (!data.status) {
+            throw new Error(data.message || 'Failed to initiate refund');
+        }
+
+        return { status: data.data?.status ?? 'pending' };
+    }
+
+    /**
+     * Pay out to a bank account: register the account as a transfer recipient (unless it
+     * already is one), then transfer from the Paystack balance. Transfers settle
+     * asynchronously, like refunds — the outcome arrives as a transfer webhook.
+     */
+    async transfer(params: TransferParams): Promise<TransferResult> {
+        requireKey();
+        const type = RECIPIENT_TYPES[params.currency];
+        if (!type) throw new Error(`Paystack transfers are not available in ${params.currency}`);
+
+        let recipientCode = params.recipient.code;
+        if (!recipientCode) {
+            const recipient = await paystackRequest('/transferrecipient', {
+                method: 'POST',
+                body: {
+                    type,
+                    name: params.recipient.name,
+                    account_number: params.recipient.accountNumber,
+                    bank_code: params.recipient.bankCode,
+                    currency: params.currency,
+                },
+            });
+            if (!recipient.status || !recipient.data?.recipient_code) {
+                throw new Error(recipient.message || 'Failed to create transfer recipient');
+            }
+            recipientCode = recipient.data.recipient_code as string;
+        }
+
+        const data = await paystackRequest('/transfer', {
+            method: 'POST',
+            body: {
+                source: 'balance',
+                amount: toMinorUnits(params.amount, params.currency),
+                recipient: recipientCode,
+                reason: params.reason,
+                reference: params.reference,
+            },
+        });
+        if (!data.status) {
+            throw new Error(data.message || 'Failed to initiate transfer');
+        }
+
+        return {
+            status: data.data?.status === 'success' ? 'success' : data.data?.status === 'failed' ? 'failed' : 'pending',
+            reference: params.reference,
+            providerReference: data.data?.transfer_code,
+            recipientCode,
+        };
+    }
+
+    async resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount> {
+        requireKey();
+
+        const query = new URLSearchParams({ account_number: accountNumber, bank_code: bankCode });
+        const data = await paystackRequest(`/bank/resolve?${query}`);
+        if (!data.status || !data.data?.account_name) {
+            throw new Error(data.message || 'Could not resolve bank account');
+        }
+
+        return { accountName: data.data.account_name, accountNumber: data.data.account_number ?? accountNumber };
+    }
+
+    /**
+     * Algorithm: HMAC-SHA512(rawBody, PAYSTACK_SECRET_KEY)
+     * Header:    x-paystack-signature: {hex_digest}
+     */
+    verifyWebhook(rawBody: string, headers: Record<string, string | string[] | undefined>): boolean {
+        const signature = headerValue(headers, 'x-paystack-signature');
+        if (!PAYSTACK_SECRET_KEY || !signature) return false;
+
+        const hash = crypto.createHmac('sha512', PAYSTACK_SECRET_KEY).update(rawBody).digest('hex');
+        return hash.length === signature.length && crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature));
+    }
+
+    parseWebhook(body: any): PaymentWebhookEvent {
+        const event = String(body?.event ?? '');
+        const data = body?.data ?? {};
+        const type = event === 'charge.success' ? 'charge.success'
+            : event === 'charge.failed' ? 'charge.failed'
+            : event === 'transfer.success' ? 'transfer.success'
+            : event === 'transfer.failed' || event === 'transfer.reversed' ? 'transfer.failed'
+            : 'ignored';
+
+        return {
+            type,
+            providerEvent: event,
+            // Paystack sends no event id; the transaction (or transfer) id is stable across retries
+            eventKey: `${event}:${data.id ?? data.reference}`,
+            reference: data.reference,
+            amount: typeof data.amount === 'number' && isSupportedCurrency(data.currency ?? '')
+                ? fromMinorUnits(data.amount, data.currency)
+                : undefined,
+            currency: data.currency,
+        };
+    }
+}
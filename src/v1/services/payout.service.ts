@@ -1,14 +1,30 @@
+import { LedgerAccount, LedgerEntryType, PayoutFrequency, PayoutSchedule, PayoutStatus } from '@prisma/client';
 import { prisma } from '../config/database';
 import redis from '../config/redis';
 import { emailQueue } from '../jobs/email.queue';
+import { PaymentService, PaymentProviderName, PaymentWebhookEvent } from './payment.service';
+import { LedgerService } from './ledger.service';
+import { CurrencyCode, BASE_CURRENCY, isSupportedCurrency, formatMoney, roundAmount } from '../utils/currency';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-/** Minimum payout in the event's base currency (NGN). */
-const MIN_PAYOUT_AMOUNT = 5_000;
+/** Minimum payout, per currency. */
+const MIN_PAYOUT_AMOUNT: Record<CurrencyCode, number> = {
+    NGN: 5_000,
+    GHS: 50,
+    KES: 500,
+    ZAR: 100,
+    USD: 10,
+};
 
-/** Maximum total payout an organizer can request within a rolling 24-hour window (NGN). */
-const MAX_DAILY_PAYOUT_AMOUNT = 2_000_000;
+/** Maximum total payout an organizer can request within a rolling 24-hour window, per currency. */
+const MAX_DAILY_PAYOUT_AMOUNT: Record<CurrencyCode, number> = {
+    NGN: 2_000_000,
+    GHS: 15_000,
+    KES: 150_000,
+    ZAR: 25_000,
+    USD: 1_500,
+};
 
 /**
  * Hours after an event ends before a payout can be requested.
@@ -19,73 +35,121 @@ const PAYOUT_HOLDOFF_HOURS = 24;
 /** Max payout requests per organizer in a 24-hour rolling window. */
 const MAX_REQUESTS_PER_DAY = 3;
 
-/** Statuses that "lock" revenue so it cannot be requested again. */
-const ACTIVE_PAYOUT_STATUSES = ['PENDING', 'APPROVED', 'PROCESSING', 'COMPLETED'] as const;
+/** Payouts that still claim the organizer's money — counted against the daily limit. */
+const ACTIVE_PAYOUT_STATUSES: PayoutStatus[] = ['PENDING', 'APPROVED', 'PROCESSING', 'COMPLETED'];
+
+/** Statuses of a payout that hasn't settled yet. */
+const INFLIGHT_PAYOUT_STATUSES: PayoutStatus[] = ['PENDING', 'APPROVED', 'PROCESSING'];
+
+/** Automatic payouts above this amount, per currency, wait for an admin to approve them. */
+const AUTO_APPROVE_LIMIT: Record<CurrencyCode, number> = {
+    NGN: 500_000,
+    GHS: 5_000,
+    KES: 50_000,
+    ZAR: 10_000,
+    USD: 500,
+};
+
+/**
+ * Days after an event ends during which automatic payouts hold back the organizer's
+ * reserve. Once they pass, the next scheduled run pays the reserve out too.
+ */
+const RESERVE_HOLD_DAYS = 30;
+
+/** A weekly schedule that ran within this many days has already paid out this week. */
+const WEEKLY_RERUN_GUARD_DAYS = 6;
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+export interface PayoutScheduleInput {
+    enabled?: boolean;
+    frequency?: PayoutFrequency;
+    delayDays?: number;
+    weekday?: number;
+    reservePercent?: number;
+}
+
+/** One event's share of a scheduled payout run. */
+interface ScheduledShare {
+    eventId: string;
+    title: string;
+    amount: number;
+    reserveHeld: number;
+    balance: Awaited<ReturnType<typeof computeBalance>>;
+}
+
 export interface RegisterAccountInput {
     bankName: string;
     bankCode: string;
     accountNumber: string;
-    accountName: string; // organizer-supplied; must be re-confirmed by caller via bank verification
+    accountName: string; // organizer-supplied; replaced by the bank's own record at verification
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 /**
- * Compute the organizer's available payout balance for a given event (or all events).
- * Returns a breakdown so the response is transparent to the organizer.
+ * Whether two account names are the same person. Banks often return the surname first
+ * ("OKAFOR CHIOMA ADA" for "Chioma Ada Okafor"), so word order is ignored.
  */
-async function computeBalance(organizerId: string, eventId?: string) {
-    const eventFilter = eventId ? { eventId } : { event: { organizerId } };
-
-    // 1. Sum subtotals from confirmed, fully-paid orders
-    const revenueAgg = await prisma.bookingOrder.aggregate({
-        where: {
-            ...eventFilter,
-            status: 'CONFIRMED',
-            paymentStatus: 'COMPLETED',
-        },
-        _sum: { subtotal: true },
-    });
-    const grossRevenue = revenueAgg._sum.subtotal ?? 0;
-
-    // 2. Platform fees (service charges) already collected — stay with EventFi
-    const feeAgg = await prisma.bookingOrder.aggregate({
-        where: {
-            ...eventFilter,
-            status: 'CONFIRMED',
-            paymentStatus: 'COMPLETED',
-        },
-        _sum: { serviceFee: true },
-    });
-    const platformFee = feeAgg._sum.serviceFee ?? 0;
+function sameAccountName(a: string, b: string): boolean {
+    const words = (s: string) => s.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean).sort().join(' ');
+    return words(a) === words(b);
+}
 
-    // 3. Total amount refunded to customers
-    const refundAgg = await prisma.bookingOrder.aggregate({
-        where: {
-            ...eventFilter,
-            status: 'REFUNDED',
-        },
-        _sum: { total: true },
-    });
-    const refundsTotal = refundAgg._sum.total ?? 0;
+/** Provider-side reference for one transfer attempt — unique per attempt, so a retry is never mistaken for the first try. */
+function transferReference(payoutId: string, attempt: number): string {
+    return `payout_${payoutId.replace(/-/g, '')}_${attempt}`;
+}
 
-    // 4. Already-claimed or in-flight payouts (prevent double-claiming)
-    const priorPayoutsAgg = await prisma.payoutRequest.aggregate({
+/**
+ * The organizer's available payout balance for a given event (or all events) in one
+ * currency, read from the ledger — sales in different currencies are never netted against
+ * each other. Returns a breakdown by entry type so the response is transparent to the
+ * organizer. `excludePayoutId` leaves one payout out of the previous payouts, for
+ * re-checking the balance behind that payout itself; `asOf` counts only what was booked
+ * by then.
+ */
+async function computeBalance(organizerId: string, currency: string, eventId?: string, excludePayoutId?: string, asOf?: Date) {
+    const rows = await prisma.ledgerEntry.groupBy({
+        by: ['account', 'type'],
         where: {
             organizerId,
+            currency,
+            account: { in: ['ORGANIZER', 'PLATFORM'] },
             ...(eventId ? { eventId } : {}),
-            status: { in: ACTIVE_PAYOUT_STATUSES as any },
+            ...(excludePayoutId ? { NOT: { transaction: { payoutRequestId: excludePayoutId } } } : {}),
+            ...(asOf ? { createdAt: { lte: asOf } } : {}),
         },
-        _sum: { netAmount: true },
+        _sum: { amount: true },
     });
-    const previousPayouts = priorPayoutsAgg._sum.netAmount ?? 0;
+    const sum = (account: LedgerAccount, ...types: LedgerEntryType[]) => roundAmount(
+        rows.filter(r => r.account === account && types.includes(r.type)).reduce((total, r) => total + (r._sum.amount ?? 0), 0),
+        currency
+    );
+
+    // Ticket revenue after discounts; the platform keeps the buyer-paid fee and whatever
+    // fee the organizer chose to absorb
+    const grossRevenue = sum('ORGANIZER', 'TICKET_SALE');
+    const absorbedFees = -sum('ORGANIZER', 'SERVICE_FEE');
+    const platformFee = sum('PLATFORM', 'TICKET_SALE', 'SERVICE_FEE');
+    // The organizer's part of refunds and chargebacks (the buyer-paid fee is the platform's to return)
+    const refundsTotal = -sum('ORGANIZER', 'REFUND', 'CHARGEBACK');
+    // Already-claimed or in-flight payouts (prevent double-claiming)
+    const previousPayouts = -sum('ORGANIZER', 'PAYOUT');
+    const adjustments = sum('ORGANIZER', 'ADJUSTMENT');
 
-    const netAmount = Math.max(0, grossRevenue - refundsTotal - previousPayouts);
+    const netAmount = Math.max(0, roundAmount(grossRevenue - absorbedFees - refundsTotal - previousPayouts + adjustments, currency));
 
-    return { grossRevenue, platformFee, refundsTotal, previousPayouts, netAmount };
+    return { currency, grossRevenue, platformFee, absorbedFees, refundsTotal, previousPayouts, adjustments, netAmount };
+}
+
+/** Currencies the organizer (or one event) has money booked in. */
+async function salesCurrencies(organizerId: string, eventId?: string): Promise<string[]> {
+    const groups = await prisma.ledgerEntry.groupBy({
+        by: ['currency'],
+        where: { organizerId, account: 'ORGANIZER', ...(eventId ? { eventId } : {}) },
+    });
+    return groups.map(g => g.currency).sort();
 }
 
 /**
@@ -111,6 +175,42 @@ async function checkRateLimit(organizerId: string): Promise<void> {
     }
 }
 
+/** Whether the organizer already has an unsettled payout covering this event in this currency. */
+async function hasInflightPayout(organizerId: string, eventId: string, currency: string) {
+    const inflight = await prisma.payoutRequest.findFirst({
+        where: {
+            organizerId,
+            currency,
+            status: { in: INFLIGHT_PAYOUT_STATUSES },
+            OR: [{ eventId }, { allocations: { some: { eventId } } }],
+        },
+        select: { id: true },
+    });
+    return inflight !== null;
+}
+
+/**
+ * Whether the organizer has a stake in the event's revenue: they own it, or a revenue
+ * share has booked part of its sales to them (which stays theirs even if the share is
+ * later removed).
+ */
+async function isBeneficiary(organizerId: string, eventId: string, ownerId: string) {
+    if (ownerId === organizerId) return true;
+    const entry = await prisma.ledgerEntry.findFirst({
+        where: { organizerId, eventId, account: 'ORGANIZER' },
+        select: { id: true },
+    });
+    return entry !== null;
+}
+
+/** Whether a schedule is due to run now. Weekly rollups run once, on their weekday. */
+function isDue(schedule: PayoutSchedule, now: Date) {
+    if (schedule.frequency === 'AFTER_EVENT') return true;
+    if (now.getUTCDay() !== schedule.weekday) return false;
+    const guard = new Date(now.getTime() - WEEKLY_RERUN_GUARD_DAYS * 24 * 60 * 60 * 1000);
+    return !schedule.lastRunAt || schedule.lastRunAt < guard;
+}
+
 // ─── Service ──────────────────────────────────────────────────────────────────
 
 export class PayoutService {
@@ -150,6 +250,7 @@ export class PayoutService {
                 bankCode: data.bankCode,
                 accountNumber: data.accountNumber,
                 accountName: data.accountName,
+                recipientCode: null, // the provider's recipient points at the old account
                 isVerified: false, // reset verification on any change
                 verifiedAt: null,
             },
@@ -159,27 +260,33 @@ export class PayoutService {
     }
 
     /**
-     * Mark the account as verified (called after a successful bank name-enquiry
-     * from the frontend — typically using Paystack's Resolve Account API).
-     * The caller is responsible for confirming the verifiedName matches what the
-     * organizer provided; this method just records the outcome.
+     * Look up the name the bank holds for an account, so the organizer can check it
+     * before registering.
+     */
+    static async resolveAccount(accountNumber: string, bankCode: string) {
+        return PaymentService.forPayouts().resolveAccount(accountNumber, bankCode);
+    }
+
+    /**
+     * Verify the saved account with a bank name-enquiry (the payout provider's resolve
+     * API). The name the bank returns must match the one the organizer registered; on a
+     * match it replaces it, so payouts always go out in the bank's own spelling.
      */
-    static async verifyAccount(organizerId: string, verifiedName: string) {
+    static async verifyAccount(organizerId: string) {
         const account = await prisma.payoutAccount.findUnique({ where: { organizerId } });
         if (!account) throw new Error('No payout account found. Register one first.');
 
-        // Loose name match: both sides lowercased, extra spaces collapsed
-        const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
-        if (normalize(verifiedName) !== normalize(account.accountName)) {
+        const resolved = await this.resolveAccount(account.accountNumber, account.bankCode);
+        if (!sameAccountName(resolved.accountName, account.accountName)) {
             throw new Error(
-                'Verified account name does not match the name you provided. ' +
+                `The bank has this account under "${resolved.accountName}", which does not match the name you provided. ` +
                 'Please register the account again with the correct account name.'
             );
         }
 
         return prisma.payoutAccount.update({
             where: { organizerId },
-            data: { isVerified: true, verifiedAt: new Date() },
+            data: { accountName: resolved.accountName, isVerified: true, verifiedAt: new Date() },
         });
     }
 
@@ -200,22 +307,34 @@ export class PayoutService {
     // ─── Balance enquiry ──────────────────────────────────────────────────────
 
     /**
-     * Returns the available payout balance for one event or all events.
+     * Returns the available payout balance for one event or all events, in one currency
+     * (the base currency unless asked otherwise). `currencies` lists every currency with sales.
      * Does NOT require a verified account — organizers can check their balance
      * before setting up a payout account.
      */
-    static async getBalance(organizerId: string, eventId?: string) {
+    static async getBalance(organizerId: string, eventId?: string, currency: string = BASE_CURRENCY) {
+        if (!isSupportedCurrency(currency)) throw new Error(`Unsupported currency: ${currency}`);
+
+        const currencies = await salesCurrencies(organizerId, eventId);
         if (eventId) {
-            // Confirm organizer owns the event
+            // Confirm the organizer owns the event or shares in its revenue
             const event = await prisma.event.findUnique({
                 where: { id: eventId },
                 select: { organizerId: true, title: true, endDate: true, status: true },
             });
             if (!event) throw new Error('Event not found');
-            if (event.organizerId !== organizerId) throw new Error('Unauthorized');
-            return { event: { id: eventId, title: event.title }, ...(await computeBalance(organizerId, eventId)) };
+            if (!(await isBeneficiary(organizerId, eventId, event.organizerId))) throw new Error('Unauthorized');
+            return { event: { id: eventId, title: event.title }, ...(await computeBalance(organizerId, currency, eventId)), currencies };
         }
-        return computeBalance(organizerId);
+        return { ...(await computeBalance(organizerId, currency)), currencies };
+    }
+
+    /**
+     * The balance breakdown across all events as it stood at `asOf` — the same figures
+     * getBalance reports, for statements covering a past period.
+     */
+    static async getBalanceAsOf(organizerId: string, currency: string, asOf: Date) {
+        return computeBalance(organizerId, currency, undefined, undefined, asOf);
     }
 
     // ─── Request payout ───────────────────────────────────────────────────────
@@ -226,7 +345,8 @@ export class PayoutService {
     static async requestPayout(
         organizerId: string,
         eventId: string,
-        requestIp?: string
+        requestIp?: string,
+        requestedCurrency?: string
     ) {
         // ── 1. Organizer must have a verified payout account ─────────────────
         const account = await prisma.payoutAccount.findUnique({ where: { organizerId } });
@@ -237,7 +357,7 @@ export class PayoutService {
             );
         }
 
-        // ── 2. Event must exist and belong to this organizer ─────────────────
+        // ── 2. Event must exist and pay this organizer (owner or revenue share)
         const event = await prisma.event.findUnique({
             where: { id: eventId },
             select: {
@@ -245,11 +365,20 @@ export class PayoutService {
                 title: true,
                 endDate: true,
                 status: true,
-                tickets: { select: { currency: true }, take: 1 },
             },
         });
         if (!event) throw new Error('Event not found');
-        if (event.organizerId !== organizerId) throw new Error('Unauthorized');
+        if (!(await isBeneficiary(organizerId, eventId, event.organizerId))) throw new Error('Unauthorized');
+
+        // ── 2b. Pick the currency — an event selling in several is paid out once per currency
+        const currencies = await salesCurrencies(organizerId, eventId);
+        const currency = requestedCurrency ?? (currencies.length === 1 ? currencies[0] : undefined);
+        if (!currency) {
+            throw new Error(currencies.length === 0
+                ? 'This event has no paid sales to withdraw.'
+                : `This event has sales in ${currencies.join(', ')}. Specify which currency to withdraw.`);
+        }
+        if (!isSupportedCurrency(currency)) throw new Error(`Unsupported currency: ${currency}`);
 
         // ── 3. Event must have ended (holdoff period) ─────────────────────────
         const holdoffCutoff = new Date(Date.now() - PAYOUT_HOLDOFF_HOURS * 60 * 60 * 1000);
@@ -264,26 +393,19 @@ export class PayoutService {
             );
         }
 
-        // ── 4. No other active payout for this event ──────────────────────────
-        const existingPayout = await prisma.payoutRequest.findFirst({
-            where: {
-                organizerId,
-                eventId,
-                status: { in: ACTIVE_PAYOUT_STATUSES as any },
-            },
-        });
-        if (existingPayout) {
-            throw new Error(
-                `A payout request for this event already exists (status: ${existingPayout.status.toLowerCase()}).`
-            );
+        // ── 4. No other unsettled payout for this event and currency ──────────
+        //    (completed ones are already deducted from the balance — a reserve
+        //    held back by an automatic payout is withdrawn this way)
+        if (await hasInflightPayout(organizerId, eventId, currency)) {
+            throw new Error(`A ${currency} payout request for this event is already in progress.`);
         }
 
         // ── 5. Compute balance and enforce minimum ────────────────────────────
-        const balance = await computeBalance(organizerId, eventId);
-        if (balance.netAmount < MIN_PAYOUT_AMOUNT) {
+        const balance = await computeBalance(organizerId, currency, eventId);
+        if (balance.netAmount < MIN_PAYOUT_AMOUNT[currency]) {
             throw new Error(
-                `Minimum payout is ₦${MIN_PAYOUT_AMOUNT.toLocaleString()} NGN. ` +
-                `Available balance is ₦${balance.netAmount.toFixed(2)} NGN.`
+                `Minimum payout is ${formatMoney(MIN_PAYOUT_AMOUNT[currency], currency)} ${currency}. ` +
+                `Available balance is ${formatMoney(balance.netAmount, currency)} ${currency}.`
             );
         }
 
@@ -292,59 +414,51 @@ export class PayoutService {
         const dailyAgg = await prisma.payoutRequest.aggregate({
             where: {
                 organizerId,
-                status: { in: ACTIVE_PAYOUT_STATUSES as any },
+                currency,
+                status: { in: ACTIVE_PAYOUT_STATUSES },
                 createdAt: { gte: since },
             },
             _sum: { netAmount: true },
         });
+        const dailyLimit = MAX_DAILY_PAYOUT_AMOUNT[currency];
         const dailyTotal = (dailyAgg._sum.netAmount ?? 0) + balance.netAmount;
-        if (dailyTotal > MAX_DAILY_PAYOUT_AMOUNT) {
-            const remaining = Math.max(0, MAX_DAILY_PAYOUT_AMOUNT - (dailyAgg._sum.netAmount ?? 0));
+        if (dailyTotal > dailyLimit) {
+            const remaining = Math.max(0, dailyLimit - (dailyAgg._sum.netAmount ?? 0));
             throw new Error(
-                `Daily withdrawal limit of ₦${MAX_DAILY_PAYOUT_AMOUNT.toLocaleString()} reached. ` +
-                `You can withdraw up to ₦${remaining.toLocaleString()} more today.`
+                `Daily withdrawal limit of ${formatMoney(dailyLimit, currency)} reached. ` +
+                `You can withdraw up to ${formatMoney(remaining, currency)} more today.`
             );
         }
 
         // ── 6. Rate limit ─────────────────────────────────────────────────────
         await checkRateLimit(organizerId);
 
-        // ── 7. Create the request ─────────────────────────────────────────────
-        const payout = await prisma.payoutRequest.create({
-            data: {
-                organizerId,
-                accountId: account.id,
-                eventId,
-                grossRevenue: balance.grossRevenue,
-                platformFee: balance.platformFee,
-                refundsTotal: balance.refundsTotal,
-                previousPayouts: balance.previousPayouts,
-                netAmount: balance.netAmount,
-                currency: event.tickets[0]?.currency ?? 'NGN',
-                requestIp: requestIp ?? null,
-            },
-            include: {
-                event: { select: { title: true } },
-                account: { select: { bankName: true, accountName: true } },
-            },
-        });
-
-        // Notify organizer
-        const organizer = await prisma.user.findUnique({
-            where: { id: organizerId },
-            select: { email: true, displayName: true },
+        // ── 7. Create the request and take it out of the balance ──────────────
+        const payout = await prisma.$transaction(async tx => {
+            const created = await tx.payoutRequest.create({
+                data: {
+                    organizerId,
+                    accountId: account.id,
+                    eventId,
+                    grossRevenue: balance.grossRevenue,
+                    platformFee: balance.platformFee,
+                    absorbedFees: balance.absorbedFees,
+                    refundsTotal: balance.refundsTotal,
+                    previousPayouts: balance.previousPayouts,
+                    netAmount: balance.netAmount,
+                    currency,
+                    requestIp: requestIp ?? null,
+                },
+                include: {
+                    event: { select: { title: true } },
+                    account: { select: { bankName: true, accountName: true } },
+                },
+            });
+            await LedgerService.syncPayout(tx, created.id, `payout:${created.id}:requested`, 'Payout requested');
+            return created;
         });
-        if (organizer?.email) {
-            emailQueue.add('payout-requested', {
-                type: 'payout-requested',
-                to: organizer.email,
-                name: organizer.displayName || organizer.email.split('@')[0],
-                eventTitle: event.title,
-                netAmount: balance.netAmount,
-                currency: event.tickets[0]?.currency ?? 'NGN',
-            }).catch(() => {});
-        }
 
+        await this.notifyRequested(organizerId, event.title, balance.netAmount, currency);
         return payout;
     }
 
@@ -362,9 +476,15 @@ export class PayoutService {
             );
         }
 
-        return prisma.payoutRequest.update({
-            where: { id: payoutId },
-            data: { status: 'CANCELLED' },
+        // The money goes back into the balance
+        return prisma.$transaction(async tx => {
+            const cancelled = await tx.payoutRequest.updateMany({
+                where: { id: payoutId, status: 'PENDING' },
+                data: { status: 'CANCELLED' },
+            });
+            if (cancelled.count === 0) throw new Error('Cannot cancel a payout that is already being reviewed.');
+            await LedgerService.syncPayout(tx, payoutId, `payout:${payoutId}:released`, 'Payout cancelled');
+            return tx.payoutRequest.findUniqueOrThrow({ where: { id: payoutId } });
         });
     }
 
@@ -381,6 +501,7 @@ export class PayoutService {
                 include: {
                     event: { select: { id: true, title: true, coverImage: true } },
                     account: { select: { bankName: true, accountName: true } },
+                    allocations: { select: { amount: true, event: { select: { id: true, title: true } } } },
                 },
             }),
         ]);
@@ -407,6 +528,7 @@ export class PayoutService {
                     organizer: { select: { id: true, email: true, displayName: true } },
                     event: { select: { id: true, title: true } },
                     account: true,
+                    allocations: { select: { amount: true, event: { select: { id: true, title: true } } } },
                 },
             }),
         ]);
@@ -417,14 +539,17 @@ export class PayoutService {
     }
 
     /**
-     * Admin: approve a payout request.
+     * Admin: approve a payout request and send the transfer.
      * Approving re-validates the balance to catch any refunds issued after the
      * original request — prevents paying out money that has since been refunded.
+     * A transfer that can't be started leaves the payout APPROVED with a failureReason,
+     * for an admin to retry with adminDisbursePayout. A null reviewer is the payout
+     * schedule approving its own payout.
      */
-    static async adminApprovePayout(payoutId: string, reviewerId: string, note?: string) {
+    static async adminApprovePayout(payoutId: string, reviewerId: string | null, note?: string) {
         const payout = await prisma.payoutRequest.findUnique({
             where: { id: payoutId },
-            include: { organizer: { select: { email: true, displayName: true } } },
+            include: { organizer: { select: { email: true, displayName: true } }, allocations: true },
         });
         if (!payout) throw new Error('Payout request not found');
         if (payout.status !== 'PENDING') {
@@ -434,7 +559,9 @@ export class PayoutService {
         // Re-validate balance at approval time (refunds may have come in since request)
         const currentBalance = await computeBalance(
             payout.organizerId,
-            payout.eventId ?? undefined
+            payout.currency,
+            payout.eventId ?? undefined,
+            payout.id
         );
 
         // If available balance shrank below the requested amount, cap it
@@ -446,18 +573,46 @@ export class PayoutService {
             );
         }
 
-        const updated = await prisma.payoutRequest.update({
-            where: { id: payoutId },
-            data: {
-                status: 'APPROVED',
-                reviewerId,
-                reviewNote: note ?? null,
-                netAmount: approvedAmount, // may be lower than originally requested
-                // refresh the financial snapshot
-                grossRevenue: currentBalance.grossRevenue,
-                refundsTotal: currentBalance.refundsTotal,
-                previousPayouts: currentBalance.previousPayouts,
-            },
+        // A capped rollup shrinks every event's share in proportion
+        const ratio = approvedAmount / payout.netAmount;
+        const allocations = payout.allocations.map(allocation => ({
+            id: allocation.id,
+            amount: ratio < 1 ? roundAmount(allocation.amount * ratio, payout.currency) : allocation.amount,
+        }));
+        const approvedNet = allocations.length > 0
+            ? roundAmount(allocations.reduce((sum, allocation) => sum + allocation.amount, 0), payout.currency)
+            : approvedAmount;
+
+        // A rollup's snapshot stays as it was taken across its events
+        const snapshot = payout.eventId ? {
+            grossRevenue: currentBalance.grossRevenue,
+            platformFee: currentBalance.platformFee,
+            absorbedFees: currentBalance.absorbedFees,
+            refundsTotal: currentBalance.refundsTotal,
+            previousPayouts: currentBalance.previousPayouts,
+        } : {};
+
+        const updated = await prisma.$transaction(async tx => {
+            const approved = await tx.payoutRequest.updateMany({
+                where: { id: payoutId, status: 'PENDING' },
+                data: {
+                    status: 'APPROVED',
+                    reviewerId,
+                    reviewNote: note ?? null,
+                    netAmount: approvedNet, // may be lower than originally requested
+                    ...snapshot, // refresh the financial snapshot
+                },
+            });
+            if (approved.count === 0) throw new Error('This payout is no longer pending.');
+
+            if (ratio < 1) {
+                for (const allocation of allocations) {
+                    await tx.payoutAllocation.update({ where: { id: allocation.id }, data: { amount: allocation.amount } });
+                }
+            }
+            // A capped payout hands the difference back to the balance
+            await LedgerService.syncPayout(tx, payoutId, `payout:${payoutId}:approved`, 'Payout reduced at approval');
+            return tx.payoutRequest.findUniqueOrThrow({ where: { id: payoutId } });
         });
 
         // Notify organizer
@@ -466,12 +621,22 @@ export class PayoutService {
                 type: 'payout-approved',
                 to: payout.organizer.email,
                 name: payout.organizer.displayName ?? payout.organizer.email.split('@')[0],
-                netAmount: approvedAmount,
+                netAmount: approvedNet,
                 currency: payout.currency,
             }).catch(() => {});
         }
 
-        return updated;
+        try {
+            return await this.disburse(updated.id);
+        } catch (error: any) {
+            console.error(`[Payout] Transfer for payout ${updated.id} could not be started:`, error.message);
+            return prisma.payoutRequest.findUniqueOrThrow({ where: { id: updated.id } });
+        }
+    }
+
+    /** Admin: retry the transfer for an approved payout whose last attempt failed. */
+    static async adminDisbursePayout(payoutId: string) {
+        return this.disburse(payoutId);
     }
 
     /** Admin: reject a payout request with a mandatory reason. */
@@ -487,9 +652,15 @@ export class PayoutService {
             throw new Error(`Cannot reject a payout with status: ${payout.status}`);
         }
 
-        const updated = await prisma.payoutRequest.update({
-            where: { id: payoutId },
-            data: { status: 'REJECTED', reviewerId, rejectionReason: reason },
+        // The money goes back into the balance
+        const updated = await prisma.$transaction(async tx => {
+            const rejected = await tx.payoutRequest.updateMany({
+                where: { id: payoutId, status: { in: ['PENDING', 'APPROVED'] } },
+                data: { status: 'REJECTED', reviewerId, rejectionReason: reason },
+            });
+            if (rejected.count === 0) throw new Error('This payout is already being disbursed.');
+            await LedgerService.syncPayout(tx, payoutId, `payout:${payoutId}:released`, 'Payout rejected');
+            return tx.payoutRequest.findUniqueOrThrow({ where: { id: payoutId } });
         });
 
         if (payout.organizer?.email) {
@@ -506,9 +677,10 @@ export class PayoutService {
     }
 
     /**
-     * Admin: mark a payout as completed after the bank transfer is confirmed.
-     * The payment reference (bank transaction ID) is required and recorded for
-     * auditing purposes.
+     * Admin: mark a payout as completed after paying it outside the transfer API (a
+     * currency the provider can't transfer in, or a manual bank payment after repeated
+     * failures). The payment reference (bank transaction ID) is required and recorded
+     * for auditing purposes. Payouts with a transfer in flight settle by webhook instead.
      */
     static async adminCompletePayout(
         payoutId: string,
@@ -524,7 +696,7 @@ export class PayoutService {
             include: { organizer: { select: { email: true, displayName: true } } },
         });
         if (!payout) throw new Error('Payout request not found');
-        if (payout.status !== 'APPROVED' && payout.status !== 'PROCESSING') {
+        if (payout.status !== 'APPROVED') {
             throw new Error(`Cannot complete a payout with status: ${payout.status}`);
         }
 
@@ -539,27 +711,372 @@ export class PayoutService {
             );
         }
 
-        const updated = await prisma.payoutRequest.update({
+        const updated = await prisma.$transaction(async tx => {
+            const completed = await tx.payoutRequest.updateMany({
+                where: { id: payoutId, status: 'APPROVED' },
+                data: {
+                    status: 'COMPLETED',
+                    paymentReference,
+                    reviewerId,
+                    completedAt: new Date(),
+                },
+            });
+            if (completed.count === 0) throw new Error('This payout is already being disbursed.');
+            await LedgerService.recordPayoutSent(tx, payoutId, paymentReference);
+            return tx.payoutRequest.findUniqueOrThrow({ where: { id: payoutId } });
+        });
+
+        this.notifyCompleted(payout, paymentReference);
+        return updated;
+    }
+
+    // ─── Payout schedule ──────────────────────────────────────────────────────
+
+    /** The organizer's automatic payout schedule (null if never set up) and the review thresholds. */
+    static async getSchedule(organizerId: string) {
+        const schedule = await prisma.payoutSchedule.findUnique({ where: { organizerId } });
+        return { schedule, reviewThresholds: AUTO_APPROVE_LIMIT, reserveHoldDays: RESERVE_HOLD_DAYS };
+    }
+
+    /** Create or update the organizer's schedule. Turning it on needs a verified payout account. */
+    static async updateSchedule(organizerId: string, data: PayoutScheduleInput) {
+        const existing = await prisma.payoutSchedule.findUnique({ where: { organizerId } });
+        const enabling = data.enabled ?? existing?.enabled ?? true;
+        if (enabling) {
+            const account = await prisma.payoutAccount.findUnique({ where: { organizerId } });
+            if (!account?.isVerified) {
+                throw new Error('Automatic payouts need a verified payout account. Please complete bank verification first.');
+            }
+        }
+
+        return prisma.payoutSchedule.upsert({
+            where: { organizerId },
+            create: { organizerId, ...data },
+            update: data,
+        });
+    }
+
+    /**
+     * Run every enabled payout schedule that is due. Called daily by the payout scheduler;
+     * one organizer's failure doesn't stop the others.
+     */
+    static async runSchedules() {
+        const now = new Date();
+        const schedules = await prisma.payoutSchedule.findMany({ where: { enabled: true } });
+        const stats = { organizers: 0, created: 0, autoApproved: 0, forReview: 0, errors: 0 };
+
+        for (const schedule of schedules) {
+            if (!isDue(schedule, now)) continue;
+            try {
+                const result = await this.runSchedule(schedule, now);
+                stats.organizers++;
+                stats.created += result.created;
+                stats.autoApproved += result.autoApproved;
+                stats.forReview += result.created - result.autoApproved;
+            } catch (error: any) {
+                stats.errors++;
+                console.error(`[Payout] Schedule for organizer ${schedule.organizerId} failed:`, error.message);
+            }
+        }
+        return stats;
+    }
+
+    /**
+     * Pay out one organizer's ended events: each event that ended at least `delayDays` ago
+     * (and past the payout holdoff) with no payout in progress contributes its balance, less
+     * the reserve while the event is within RESERVE_HOLD_DAYS of ending. AFTER_EVENT makes
+     * one payout per event; WEEKLY rolls every event into one payout per currency.
+     */
+    private static async runSchedule(schedule: PayoutSchedule, now: Date) {
+        const result = { created: 0, autoApproved: 0 };
+        const account = await prisma.payoutAccount.findUnique({ where: { organizerId: schedule.organizerId } });
+        if (!account?.isVerified) return result;
+
+        const delayMs = Math.max(schedule.delayDays * 24 * 60 * 60 * 1000, PAYOUT_HOLDOFF_HOURS * 60 * 60 * 1000);
+        const cutoff = new Date(now.getTime() - delayMs);
+        const reserveUntil = new Date(now.getTime() - RESERVE_HOLD_DAYS * 24 * 60 * 60 * 1000);
+
+        // Every event with revenue booked to this organizer — their own, and any they share in
+        const booked = await prisma.ledgerEntry.groupBy({
+            by: ['eventId', 'currency'],
+            where: { organizerId: schedule.organizerId, account: 'ORGANIZER', eventId: { not: null } },
+        });
+        const sales = booked.map(row => ({ eventId: row.eventId!, currency: row.currency }));
+        const events = await prisma.event.findMany({
+            where: { id: { in: [...new Set(sales.map(s => s.eventId))] }, endDate: { lte: cutoff } },
+            select: { id: true, title: true, endDate: true },
+        });
+        const eventsById = new Map(events.map(e => [e.id, e]));
+
+        const sharesByCurrency = new Map<CurrencyCode, ScheduledShare[]>();
+        for (const { eventId, currency } of sales) {
+            const event = eventsById.get(eventId);
+            if (!event || !isSupportedCurrency(currency)) continue;
+            if (await hasInflightPayout(schedule.organizerId, eventId, currency)) continue;
+
+            const balance = await computeBalance(schedule.organizerId, currency, eventId);
+            const earned = balance.grossRevenue - balance.absorbedFees - balance.refundsTotal;
+            const reserve = event.endDate > reserveUntil ? roundAmount(earned * schedule.reservePercent, currency) : 0;
+            const amount = roundAmount(Math.max(0, balance.netAmount - reserve), currency);
+            if (amount <= 0) continue;
+
+            const shares = sharesByCurrency.get(currency) ?? [];
+            shares.push({ eventId, title: event.title, amount, reserveHeld: Math.min(reserve, balance.netAmount), balance });
+            sharesByCurrency.set(currency, shares);
+        }
+
+        for (const [currency, shares] of sharesByCurrency) {
+            const batches = schedule.frequency === 'WEEKLY' ? [shares] : shares.map(share => [share]);
+            for (const batch of batches) {
+                const total = batch.reduce((sum, share) => sum + share.amount, 0);
+                if (total < MIN_PAYOUT_AMOUNT[currency]) continue;
+
+                const approved = await this.createScheduledPayout(schedule.organizerId, account.id, currency, batch);
+                result.created++;
+                if (approved) result.autoApproved++;
+            }
+        }
+
+        await prisma.payoutSchedule.update({ where: { id: schedule.id }, data: { lastRunAt: now } });
+        return result;
+    }
+
+    /**
+     * Create one scheduled payout and approve it straight away unless it's above the
+     * review threshold or the daily withdrawal limit. Returns whether it was approved.
+     */
+    private static async createScheduledPayout(
+        organizerId: string,
+        accountId: string,
+        currency: CurrencyCode,
+        shares: ScheduledShare[]
+    ): Promise<boolean> {
+        const sum = (pick: (share: ScheduledShare) => number) =>
+            roundAmount(shares.reduce((total, share) => total + pick(share), 0), currency);
+        const netAmount = sum(share => share.amount);
+        const single = shares.length === 1 ? shares[0] : null;
+
+        const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        const dailyAgg = await prisma.payoutRequest.aggregate({
+            where: {
+                organizerId,
+                currency,
+                status: { in: ACTIVE_PAYOUT_STATUSES },
+                createdAt: { gte: since },
+            },
+            _sum: { netAmount: true },
+        });
+        const needsReview = netAmount > AUTO_APPROVE_LIMIT[currency]
+            || (dailyAgg._sum.netAmount ?? 0) + netAmount > MAX_DAILY_PAYOUT_AMOUNT[currency];
+
+        const payout = await prisma.$transaction(async tx => {
+            const created = await tx.payoutRequest.create({
+                data: {
+                    organizerId,
+                    accountId,
+                    eventId: single?.eventId ?? null,
+                    grossRevenue: sum(share => share.balance.grossRevenue),
+                    platformFee: sum(share => share.balance.platformFee),
+                    absorbedFees: sum(share => share.balance.absorbedFees),
+                    refundsTotal: sum(share => share.balance.refundsTotal),
+                    previousPayouts: sum(share => share.balance.previousPayouts),
+                    netAmount,
+                    currency,
+                    automatic: true,
+                    reserveHeld: sum(share => share.reserveHeld),
+                    ...(single ? {} : {
+                        allocations: { create: shares.map(share => ({ eventId: share.eventId, amount: share.amount })) },
+                    }),
+                },
+            });
+            await LedgerService.syncPayout(tx, created.id, `payout:${created.id}:requested`, 'Automatic payout');
+            return created;
+        });
+
+        if (needsReview) {
+            const title = single ? single.title : `${shares.length} events`;
+            await this.notifyRequested(organizerId, title, netAmount, currency);
+            return false;
+        }
+
+        await this.adminApprovePayout(payout.id, null, 'Approved automatically by payout schedule');
+        return true;
+    }
+
+    // ─── Automated disbursement ───────────────────────────────────────────────
+
+    /**
+     * Send an APPROVED payout to the organizer's bank through the payout provider. The
+     * payout moves to PROCESSING before the transfer starts, so it can't be sent twice;
+     * the provider's transfer webhook then completes it or puts it back to APPROVED.
+     */
+    private static async disburse(payoutId: string) {
+        const payout = await prisma.payoutRequest.findUnique({
             where: { id: payoutId },
+            include: { account: true, event: { select: { title: true } } },
+        });
+        if (!payout) throw new Error('Payout request not found');
+        if (payout.status !== 'APPROVED') throw new Error(`Cannot disburse a payout with status: ${payout.status}`);
+        if (!payout.account.isVerified) throw new Error('The payout account is no longer verified.');
+
+        const provider = PaymentService.forPayouts();
+        const attempt = payout.transferAttempts + 1;
+        const reference = transferReference(payout.id, attempt);
+
+        const claimed = await prisma.payoutRequest.updateMany({
+            where: { id: payoutId, status: 'APPROVED', transferAttempts: payout.transferAttempts },
             data: {
-                status: 'COMPLETED',
-                paymentReference,
-                reviewerId,
-                completedAt: new Date(),
+                status: 'PROCESSING',
+                transferProvider: provider.name,
+                transferAttempts: attempt,
+                paymentReference: reference,
+                transferCode: null,
+                failureReason: null,
             },
         });
+        if (claimed.count === 0) throw new Error('This payout is already being disbursed.');
 
-        if (payout.organizer?.email) {
-            emailQueue.add('payout-completed', {
-                type: 'payout-completed',
-                to: payout.organizer.email,
-                name: payout.organizer.displayName ?? payout.organizer.email.split('@')[0],
-                netAmount: payout.netAmount,
+        let result;
+        try {
+            result = await provider.transfer({
+                amount: payout.netAmount,
                 currency: payout.currency,
-                paymentReference,
-            }).catch(() => {});
+                reference,
+                reason: payout.event ? `EventFi payout: ${payout.event.title}` : 'EventFi payout',
+                recipient: {
+                    name: payout.account.accountName,
+                    accountNumber: payout.account.accountNumber,
+                    bankCode: payout.account.bankCode,
+                    code: payout.account.recipientCode,
+                },
+            });
+        } catch (error: any) {
+            await this.failTransfer(payoutId, reference, error.message || 'Transfer could not be started');
+            throw error;
         }
 
-        return updated;
+        if (result.recipientCode && result.recipientCode !== payout.account.recipientCode) {
+            await prisma.payoutAccount.update({
+                where: { id: payout.accountId },
+                data: { recipientCode: result.recipientCode },
+            });
+        }
+        await prisma.payoutRequest.updateMany({
+            where: { id: payoutId, paymentReference: reference },
+            data: { transferCode: result.providerReference ?? null },
+        });
+
+        if (result.status === 'success') await this.completeTransfer(payoutId, reference);
+        if (result.status === 'failed') await this.failTransfer(payoutId, reference, 'Transfer was declined by the provider');
+
+        return prisma.payoutRequest.findUniqueOrThrow({ where: { id: payoutId } });
+    }
+
+    /**
+     * Settle a payout from the provider's transfer webhook. Only the payout's current
+     * attempt, sent through the same provider, matches — a late webhook for an earlier
+     * failed attempt can't complete a retry.
+     */
+    static async handleTransferWebhook(provider: PaymentProviderName, event: PaymentWebhookEvent) {
+        if (!event.reference) throw new Error('Missing reference in transfer webhook payload');
+
+        const payout = await prisma.payoutRequest.findFirst({
+            where: { paymentReference: event.reference, transferProvider: provider },
+            select: { id: true, netAmount: true, currency: true },
+        });
+        if (!payout) return { received: true };
+
+        if (event.type === 'transfer.success') {
+            if (event.currency && event.currency !== payout.currency) {
+                console.error(`[Payout] Transfer ${event.reference} settled in ${event.currency}, expected ${payout.currency}`);
+            }
+            const completed = await this.completeTransfer(payout.id, event.reference);
+            return { received: true, ...(!completed && { duplicate: true }) };
+        }
+
+        const failed = await this.failTransfer(
+            payout.id,
+            event.reference,
+            event.providerEvent === 'transfer.reversed' ? 'Transfer was reversed by the bank' : 'Transfer failed at the bank'
+        );
+        return { received: true, ...(!failed && { duplicate: true }) };
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async completeTransfer(payoutId: string, reference: string): Promise<boolean> {
+        const completed = await prisma.$transaction(async tx => {
+            const claimed = await tx.payoutRequest.updateMany({
+                where: { id: payoutId, status: 'PROCESSING', paymentReference: reference },
+                data: { status: 'COMPLETED', completedAt: new Date() },
+            });
+            if (claimed.count > 0) await LedgerService.recordPayoutSent(tx, payoutId, reference);
+            return claimed.count > 0;
+        });
+        if (!completed) return false;
+
+        const payout = await prisma.payoutRequest.findUniqueOrThrow({
+            where: { id: payoutId },
+            include: { organizer: { select: { email: true, displayName: true } } },
+        });
+        this.notifyCompleted(payout, reference);
+        return true;
+    }
+
+    /**
+     * Put a payout whose transfer failed back to APPROVED so an admin can retry or reject
+     * it. A reversal can arrive after the transfer was reported successful, so a
+     * COMPLETED payout is reopened too.
+     */
+    private static async failTransfer(payoutId: string, reference: string, reason: string): Promise<boolean> {
+        const reopened = await prisma.$transaction(async tx => {
+            const reversed = await tx.payoutRequest.updateMany({
+                where: { id: payoutId, status: 'COMPLETED', paymentReference: reference },
+                data: { status: 'APPROVED', failureReason: reason, completedAt: null },
+            });
+            if (reversed.count > 0) {
+                // The money had been booked as sent — it's back with the provider
+                await LedgerService.recordPayoutReturned(tx, payoutId, reference);
+                return true;
+            }
+            const failed = await tx.payoutRequest.updateMany({
+                where: { id: payoutId, status: 'PROCESSING', paymentReference: reference },
+                data: { status: 'APPROVED', failureReason: reason, completedAt: null },
+            });
+            return failed.count > 0;
+        });
+        if (reopened) console.error(`[Payout] Transfer ${reference} for payout ${payoutId} failed: ${reason}`);
+        return reopened;
+    }
+
+    private static async notifyRequested(organizerId: string, eventTitle: string, netAmount: number, currency: string) {
+        const organizer = await prisma.user.findUnique({
+            where: { id: organizerId },
+            select: { email: true, displayName: true },
+        });
+        if (!organizer?.email) return;
+        emailQueue.add('payout-requested', {
+            type: 'payout-requested',
+            to: organizer.email,
+            name: organizer.displayName || organizer.email.split('@')[0],
+            eventTitle,
+            netAmount,
+            currency,
+        }).catch(() => {});
+    }
+
+    private static notifyCompleted(
+        payout: { netAmount: number; currency: string; organizer: { email: string; displayName: string | null } | null },
+        paymentReference: string
+    ) {
+        if (!payout.organizer?.email) return;
+        emailQueue.add('payout-completed', {
+            type: 'payout-completed',
+            to: payout.organizer.email,
+            name: payout.organizer.displayName ?? payout.organizer.email.split('@')[0],
+            netAmount: payout.netAmount,
+            currency: payout.currency,
+            paymentReference,
+        }).catch(() => {});
     }
 }
@@ -0,0 +1,268 @@
+import { Prisma, PromoCode, PromoDiscountType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ManageService } from './manage.service';
+import { roundAmount } from '../utils/currency';
+
+export interface PromoCodeInput {
+    code: string;
+    discountType: PromoDiscountType;
+    discountValue: number;
+    maxUses?: number | null;
+    maxUsesPerUser?: number | null;
+    validFrom?: string | null;
+    validUntil?: string | null;
+    minOrderAmount?: number | null;
+    ticketIds?: string[];
+    appliesToAllEvents?: boolean;
+    isActive?: boolean;
+}
+
+interface RedeemableOrder {
+    id: string;
+    userId: string;
+    eventId: string;
+    subtotal: number;
+    currency: string;
+    items: { ticketId: string; totalPrice: number; isDonation: boolean }[];
+}
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export class PromoService {
+    /**
+     * Resolve the event and confirm the caller can manage its promo codes.
+     * Organizer-wide codes (eventId = null) are restricted to the event owner,
+     * since they apply to every event the organizer runs.
+     */
+    private static async getManageContext(eventId: string, userId: string) {
+        const { role } = await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+
+        const event = await prisma.event.findUnique({
+            where: { id: eventId },
+            select: { id: true, organizerId: true }
+        });
+        if (!event) throw new Error('Event not found');
+
+        return { event, isOwner: role === 'ORGANIZER' };
+    }
+
+    private static async findManagedPromo(eventId: string, promoId: string, userId: string) {
+        const { event, isOwner } = await this.getManageContext(eventId, userId);
+
+        const promo = await prisma.promoCode.findUnique({ where: { id: promoId } });
+        if (!promo || promo.organizerId !== event.organizerId) throw new Error('Promo code not found');
+        if (promo.eventId && promo.eventId !== eventId) throw new Error('Promo code not found');
+        if (!promo.eventId && !isOwner) throw new Error('Insufficient permissions');
+
+        return { event, isOwner, promo };
+    }
+
+    /**
+     * List promo codes usable on an event — both event-specific codes and the
+     * organizer's account-wide codes.
+     */
+    static async listPromoCodes(eventId: string, userId: string) {
+        const { event } = await this.getManageContext(eventId, userId);
+
+        const promos = await prisma.promoCode.findMany({
+            where: {
+                organizerId: event.organizerId,
+                OR: [{ eventId }, { eventId: null }],
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return promos.map(p => this.formatPromo(p));
+    }
+
+    static async createPromoCode(eventId: string, userId: string, data: PromoCodeInput) {
+        const { event, isOwner } = await this.getManageContext(eventId, userId);
+        if (data.appliesToAllEvents && !isOwner) {
+            throw new Error('Only the event organizer can create promo codes for all events');
+        }
+        await this.assertTicketsBelongToEvent(eventId, data.ticketIds);
+
+        try {
+            const promo = await prisma.promoCode.create({
+                data: {
+                    code: normalizeCode(data.code),
+                    organizerId: event.organizerId,
+                    eventId: data.appliesToAllEvents ? null : eventId,
+                    discountType: data.discountType,
+                    discountValue: data.discountValue,
+                    maxUses: data.maxUses ?? null,
+                    maxUsesPerUser: data.maxUsesPerUser ?? null,
+                    validFrom: data.validFrom ? new Date(data.validFrom) : null,
+                    validUntil: data.validUntil ? new Date(data.validUntil) : null,
+                    minOrderAmount: data.minOrderAmount ?? null,
+                    // Ticket restrictions only make sense for a single event's ticket types
+                    ticketIds: data.appliesToAllEvents ? [] : (data.ticketIds ?? []),
+                    isActive: data.isActive ?? true,
+                }
+            });
+            return this.formatPromo(promo);
+        } catch (error: any) {
+            if (error.code === 'P2002') throw new Error('A promo code with this code already exists');
+            throw error;
+        }
+    }
+
+    static async updatePromoCode(eventId: string, promoId: string, userId: string, data: Partial<PromoCodeInput>) {
+        const { promo } = await this.findManagedPromo(eventId, promoId, userId);
+        if (data.ticketIds) await this.assertTicketsBelongToEvent(eventId, data.ticketIds);
+
+        if (data.maxUses != null && data.maxUses < promo.usedCount) {
+            throw new Error(`maxUses cannot be lower than the ${promo.usedCount} redemption(s) already made`);
+        }
+
+        try {
+            const updated = await prisma.promoCode.update({
+                where: { id: promoId },
+                data: {
+                    ...(data.code !== undefined ? { code: normalizeCode(data.code) } : {}),
+                    ...(data.discountType !== undefined ? { discountType: data.discountType } : {}),
+                    ...(data.discountValue !== undefined ? { discountValue: data.discountValue } : {}),
+                    ...(data.maxUses !== undefined ? { maxUses: data.maxUses } : {}),
+                    ...(data.maxUsesPerUser !== undefined ? { maxUsesPerUser: data.maxUsesPerUser } : {}),
+                    ...(data.validFrom !== undefined ? { validFrom: data.validFrom ? new Date(data.validFrom) : null } : {}),
+                    ...(data.validUntil !== undefined ? { validUntil: data.validUntil ? new Date(data.validUntil) : null } : {}),
+                    ...(data.minOrderAmount !== undefined ? { minOrderAmount: data.minOrderAmount } : {}),
+                    ...(data.ticketIds !== undefined && promo.eventId ? { ticketIds: data.ticketIds } : {}),
+                    ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+                }
+            });
+            return this.formatPromo(updated);
+        } catch (error: any) {
+            if (error.code === 'P2002') throw new Error('A promo code with this code already exists');
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a promo code. Codes that have already been redeemed are deactivated
+     * instead so existing orders keep their redemption record.
+     */
+    static async deletePromoCode(eventId: string, promoId: string, userId: string) {
+        const { promo } = await this.findManagedPromo(eventId, promoId, userId);
+
+        const redemptions = await prisma.promoRedemption.count({ where: { promoCodeId: promo.id } });
+        if (redemptions > 0) {
+            await prisma.promoCode.update({ where: { id: promo.id }, data: { isActive: false } });
+            return { message: 'Promo code has been used, so it was deactivated instead of deleted' };
+        }
+
+        await prisma.promoCode.delete({ where: { id: promo.id } });
+        return { message: 'Promo code deleted' };
+    }
+
+    /**
+     * Validate a code against an order and record the redemption. Must run inside
+     * the caller's transaction: the global cap is enforced with a conditional
+     * increment, so two buyers racing for the last use can't both succeed, and the
+     * per-user cap under a lock on the buyer's user row.
+     */
+    static async redeem(tx: Prisma.TransactionClient, order: RedeemableOrder, rawCode: string) {
+        const code = normalizeCode(rawCode);
+
+        const event = await tx.event.findUnique({
+            where: { id: order.eventId },
+            select: { organizerId: true }
+        });
+        if (!event) throw new Error('Event not found');
+
+        const promo = await tx.promoCode.findUnique({
+            where: { organizerId_code: { organizerId: event.organizerId, code } }
+        });
+        if (!promo || !promo.isActive || (promo.eventId && promo.eventId !== order.eventId)) {
+            throw new Error('Invalid promo code');
+        }
+
+        const now = new Date();
+        if (promo.validFrom && promo.validFrom > now) throw new Error('This promo code is not active yet');
+        if (promo.validUntil && promo.validUntil < now) throw new Error('This promo code has expired');
+
+        if (order.subtotal <= 0) throw new Error('Promo codes cannot be applied to free orders');
+        if (promo.minOrderAmount && order.subtotal < promo.minOrderAmount) {
+            throw new Error(`A minimum order of ${order.currency} ${promo.minOrderAmount.toLocaleString()} is required for this promo code`);
+        }
+
+        // Donations are never discounted — the buyer already chose what to pay
+        const eligibleSubtotal = order.items
+            .filter(i => !i.isDonation)
+            .filter(i => promo.ticketIds.length === 0 || promo.ticketIds.includes(i.ticketId))
+            .reduce((sum, i) => sum + i.totalPrice, 0);
+        if (eligibleSubtotal <= 0) throw new Error('This promo code does not apply to the selected tickets');
+
+        const discount = promo.discountType === 'PERCENTAGE'
+            ? roundAmount(eligibleSubtotal * Math.min(promo.discountValue, 100) / 100, order.currency)
+            : Math.min(promo.discountValue, eligibleSubtotal);
+
+        if (promo.maxUsesPerUser) {
+            // Serialize this buyer's redemptions on their user row — the same lock the per-user
+            // ticket limits take — so two orders applying the code at once can't both pass the cap
+            await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${order.userId}::uuid FOR UPDATE`;
+            const usedByUser = await tx.promoRedemption.count({
+                where: { promoCodeId: promo.id, userId: order.userId }
+            });
+            if (usedByUser >= promo.maxUsesPerUser) throw new Error('You have already used this promo code');
+        }
+
+        const claimed = await tx.promoCode.updateMany({
+            where: {
+                id: promo.id,
+                ...(promo.maxUses ? { usedCount: { lt: promo.maxUses } } : {}),
+            },
+            data: { usedCount: { increment: 1 } }
+        });
+        if (claimed.count === 0) throw new Error('This promo code has reached its usage limit');
+
+        await tx.promoRedemption.create({
+            data: { promoCodeId: promo.id, userId: order.userId, orderId: order.id, discount }
+        });
+
+        return { code: promo.code, discount };
+    }
+
+    /**
+     * Release an order's redemption (if any) so the use counts towards the caps
+     * again — called when a code is swapped/removed or the order never completes.
+     */
+    static async releaseForOrder(tx: Prisma.TransactionClient, orderId: string) {
+        const redemption = await tx.promoRedemption.findUnique({ where: { orderId } });
+        if (!redemption) return false;
+
+        await tx.promoRedemption.delete({ where: { id: redemption.id } });
+        await tx.promoCode.update({
+            where: { id: redemption.promoCodeId },
+            data: { usedCount: { decrement: 1 } }
+        });
+        return true;
+    }
+
+    private static async assertTicketsBelongToEvent(eventId: string, ticketIds?: string[]) {
+        if (!ticketIds || ticketIds.length === 0) return;
+        const count = await prisma.ticket.count({ where: { id: { in: ticketIds }, eventId } });
+        if (count !== new Set(ticketIds).size) throw new Error('One or more ticket types do not belong to this event');
+    }
+
+    private static formatPromo(promo: PromoCode) {
+        return {
+            id: promo.id,
+            code: promo.code,
+            scope: promo.eventId ? 'event' : 'organizer',
+            eventId: promo.eventId,
+            discountType: promo.discountType.toLowerCase(),
+            discountValue: promo.discountValue,
+            maxUses: promo.maxUses,
+            maxUsesPerUser: promo.maxUsesPerUser,
+            usedCount: promo.usedCount,
+            validFrom: promo.validFrom?.toISOString() ?? null,
+            validUntil: promo.validUntil?.toISOString() ?? null,
+            minOrderAmount: promo.minOrderAmount,
+            ticketIds: promo.ticketIds,
+            isActive: promo.isActive,
+            createdAt: promo.createdAt.toISOString(),
+            updatedAt: promo.updatedAt.toISOString(),
+        };
+    }
+}
@@ -0,0 +1,366 @@
+import { Prisma, PaymentDiscrepancyType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { PaymentService, PaymentVerifyResult } from './payment.service';
+import { WebhookService } from './webhook.service';
+import { emailQueue } from '../jobs/email.queue';
+import { formatMoney } from '../utils/currency';
+
+const ONE_MINUTE_MS = 60 * 1000;
+const ONE_DAY_MS = 24 * 60 * ONE_MINUTE_MS;
+const SETTLE_AFTER_MINUTES = 10; // leave the provider's webhook this long to arrive before asking ourselves
+const LOOKBACK_DAYS = 3; // references older than this are left for manual follow-up
+const BATCH_SIZE = 100;
+
+interface Unsettled {
+    provider: string | null;
+    reference: string;
+    orderId: string;
+    installmentPaymentId?: string;
+    groupShareId?: string;
+    amount: number;
+    currency: string;
+    live: boolean; // the order (and plan) can still take this payment
+}
+
+export interface ReconciliationStats {
+    checked: number;
+    settled: number;
+    failed: number;
+    discrepancies: number;
+    errors: number;
+}
+
+async function recordDiscrepancy(
+    type: PaymentDiscrepancyType,
+    item: Unsettled,
+    details: string,
+    verified?: PaymentVerifyResult,
+    resolved = false
+) {
+    const provider = item.provider ?? 'paystack';
+    const now = new Date();
+    await prisma.paymentDiscrepancy.upsert({
+        where: { reference_type: { reference: item.reference, type } },
+        create: {
+            type,
+            provider,
+            reference: item.reference,
+            orderId: item.orderId,
+            installmentPaymentId: item.installmentPaymentId ?? null,
+            groupShareId: item.groupShareId ?? null,
+            expectedAmount: item.amount,
+            actualAmount: verified?.amount ?? null,
+            currency: item.currency,
+            providerStatus: verified?.status ?? null,
+            details,
+            ...(resolved && { resolvedAt: now, resolutionNote: 'Applied automatically by reconciliation' }),
+        },
+        update: { details, lastSeenAt: now, providerStatus: verified?.status ?? undefined },
+    });
+}
+
+export class ReconciliationService {
+    /**
+     * Ask the provider about every recent payment still waiting on a webhook, and settle or fail
+     * it through the webhook path. Anything that can't be applied cleanly becomes a discrepancy.
+     */
+    static async run(): Promise<ReconciliationStats> {
+        const stats: ReconciliationStats = { checked: 0, settled: 0, failed: 0, discrepancies: 0, errors: 0 };
+
+        for (const item of await this.findUnsettled()) {
+            stats.checked++;
+            try {
+                await this.reconcile(item, stats);
+            } catch (error) {
+                stats.errors++;
+                console.error(`[Reconciliation] Failed to reconcile ${item.reference}:`, error);
+            }
+        }
+
+        return stats;
+    }
+
+    /**
+     * Discrepancies found in one UTC day (default: the last 24 hours), plus everything still unresolved.
+     */
+    static async getReport(date?: string) {
+        let from: Date, to: Date;
+        if (date) {
+            from = new Date(`${date}T00:00:00.000Z`);
+            if (isNaN(from.getTime())) throw new Error('Invalid date — use YYYY-MM-DD');
+            to = new Date(from.getTime() + ONE_DAY_MS);
+        } else {
+            to = new Date();
+            from = new Date(to.getTime() - ONE_DAY_MS);
+        }
+
+        const [found, unresolved] = await Promise.all([
+            prisma.paymentDiscrepancy.findMany({
+                where: { detectedAt: { gte: from, lt: to } },
+                orderBy: { detectedAt: 'asc' },
+                include: { order: { select: { id: true, status: true, event: { select: { id: true, title: true } } } } },
+            }),
+            prisma.paymentDiscrepancy.count({ where: { resolvedAt: null } }),
+        ]);
+
+        const byType = Object.fromEntries(Object.values(PaymentDiscrepancyType).map(t => [t, 0])) as Record<PaymentDiscrepancyType, number>;
+        for (const d of found) byType[d.type]++;
+
+        return {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            total: found.length,
+            byType,
+            unresolved,
+            discrepancies: found,
+        };
+    }
+
+    /**
+     * Email the previous UTC day's report to every admin. Quiet days with nothing open send nothing.
+     */
+    static async sendDailyReport() {
+        const yesterday = new Date(Date.now() - ONE_DAY_MS).toISOString().slice(0, 10);
+        const report = await this.getReport(yesterday);
+        if (report.total === 0 && report.unresolved === 0) return report;
+
+        const admins = (process.env.ADMIN_EMAILS ?? '').split(',').map(e => e.trim()).filter(Boolean);
+        for (const to of admins) {
+            emailQueue.add('reconciliation-report', {
+                type: 'reconciliation-report',
+                to,
+                date: yesterday,
+                byType: report.byType,
+                unresolved: report.unresolved,
+                items: report.discrepancies.slice(0, 50).map(d => ({
+                    type: d.type,
+                    reference: d.reference,
+                    eventTitle: d.order?.event.title ?? null,
+                    amount: d.expectedAmount !== null && d.currency ? formatMoney(d.expectedAmount, d.currency) : null,
+                    details: d.details,
+                })),
+            }).catch(err => console.error('Failed to queue reconciliation report email:', err));
+        }
+        return report;
+    }
+
+    static async listDiscrepancies(filters: { type?: string; resolved?: boolean; page?: number; limit?: number } = {}) {
+        const page = filters.page || 1;
+        const limit = filters.limit || 20;
+        const type = filters.type?.toUpperCase();
+        if (type && !(type in PaymentDiscrepancyType)) throw new Error(`Invalid type: ${filters.type}`);
+
+        const where: Prisma.PaymentDiscrepancyWhereInput = {
+            ...(type && { type: type as PaymentDiscrepancyType }),
+            ...(filters.resolved !== undefined && { resolvedAt: filters.resolved ? { not: null } : null }),
+        };
+
+        const [total, discrepancies] = await Promise.all([
+            prisma.paymentDiscrepancy.count({ where }),
+            prisma.paymentDiscrepancy.findMany({
+                where,
+                skip: (page - 1) * limit,
+                take: limit,
+                orderBy: { detectedAt: 'desc' },
+                include: { order: { select: { id: true, status: true, paymentStatus: true, event: { select: { id: true, title: true } } } } },
+            }),
+        ]);
+
+        return {
+            meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+            data: discrepancies,
+        };
+    }
+
+    static async resolveDiscrepancy(id: string, adminId: string, note?: string) {
+        const resolved = await prisma.paymentDiscrepancy.updateMany({
+            where: { id, resolvedAt: null },
+            data: { resolvedAt: new Date(), resolvedById: adminId, resolutionNote: note || null },
+        });
+        if (resolved.count === 0) {
+            const exists = await prisma.paymentDiscrepancy.findUnique({ where: { id }, select: { id: true } });
+            throw new Error(exists ? 'Discrepancy is already resolved' : 'Discrepancy not found');
+        }
+        return prisma.paymentDiscrepancy.findUniqueOrThrow({ where: { id } });
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async findUnsettled(): Promise<Unsettled[]> {
+        const settleBefore = new Date(Date.now() - SETTLE_AFTER_MINUTES * ONE_MINUTE_MS);
+        const lookback = new Date(Date.now() - LOOKBACK_DAYS * ONE_DAY_MS);
+
+        // Checkout opened but neither charge.success nor charge.failed ever arrived. Orders that
+        // expired meanwhile are included — a late payment on those is exactly what we need to catch.
+        const orders = await prisma.bookingOrder.findMany({
+            where: {
+                paymentStatus: 'PROCESSING',
+                paymentReference: { not: null },
+                updatedAt: { lt: settleBefore, gte: lookback },
+                installmentPlan: { is: null },
+            },
+            select: { id: true, status: true, total: true, currency: true, paymentProvider: true, paymentReference: true },
+            orderBy: { updatedAt: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        const installments = await prisma.installmentPayment.findMany({
+            where: {
+                status: { in: ['PENDING', 'OVERDUE'] },
+                paymentReference: { not: null },
+                updatedAt: { lt: settleBefore, gte: lookback },
+            },
+            select: {
+                id: true, amount: true, paymentProvider: true, paymentReference: true,
+                installmentPlan: { select: { status: true, bookingOrder: { select: { id: true, status: true, currency: true } } } },
+            },
+            orderBy: { updatedAt: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        const shares = await prisma.groupBookingShare.findMany({
+            where: {
+                status: 'PENDING',
+                paymentReference: { not: null },
+                updatedAt: { lt: settleBefore, gte: lookback },
+            },
+            select: {
+                id: true, amount: true, paymentProvider: true, paymentReference: true,
+                groupBooking: { select: { status: true, bookingOrder: { select: { id: true, currency: true } } } },
+            },
+            orderBy: { updatedAt: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        return [
+            ...orders.map(o => ({
+                provider: o.paymentProvider,
+                reference: o.paymentReference!,
+                orderId: o.id,
+                amount: o.total,
+                currency: o.currency,
+                live: o.status === 'PENDING',
+            })),
+            ...installments.map(i => ({
+                provider: i.paymentProvider,
+                reference: i.paymentReference!,
+                orderId: i.installmentPlan.bookingOrder.id,
+                installmentPaymentId: i.id,
+                amount: i.amount,
+                currency: i.installmentPlan.bookingOrder.currency,
+                live: i.installmentPlan.status === 'ACTIVE' && i.installmentPlan.bookingOrder.status === 'PENDING',
+            })),
+            ...shares.map(sh => ({
+                provider: sh.paymentProvider,
+                reference: sh.paymentReference!,
+                orderId: sh.groupBooking.bookingOrder.id,
+                groupShareId: sh.id,
+                amount: sh.amount,
+                currency: sh.groupBooking.bookingOrder.currency,
+                live: sh.groupBooking.status === 'OPEN',
+            })),
+        ];
+    }
+
+    private static async reconcile(item: Unsettled, stats: ReconciliationStats) {
+        const provider = PaymentService.providerFor(item.provider);
+
+        let verified: PaymentVerifyResult;
+        try {
+            verified = await provider.verifyTransaction(item.reference);
+        } catch (error: any) {
+            stats.discrepancies++;
+            await recordDiscrepancy('VERIFY_FAILED', item, error.message || 'Verification failed');
+            return;
+        }
+
+        // Still in progress — or abandoned on a checkout the buyer can come back to
+        if (verified.status === 'pending' || (verified.status === 'abandoned' && item.live)) return;
+
+        if (verified.status === 'success') {
+            if (verified.currency !== item.currency || verified.amount + 0.005 < item.amount) {
+                stats.discrepancies++;
+                await recordDiscrepancy(
+                    'AMOUNT_MISMATCH', item,
+                    `Expected ${formatMoney(item.amount, item.currency)}, provider charged ${formatMoney(verified.amount, verified.currency)}`,
+                    verified
+                );
+                return;
+            }
+
+            if (!item.live) {
+                // Money taken with no ticket to show for it — record the payment so it can be refunded
+                await this.markPaidWithoutTicket(item);
+                stats.discrepancies++;
+                await recordDiscrepancy(
+                    'PAID_AFTER_EXPIRY', item,
+                    `Charged ${formatMoney(verified.amount, verified.currency)} after the ${
+                        item.installmentPaymentId ? 'installment plan ended'
+                        : item.groupShareId ? 'group booking closed'
+                        : 'order expired or was cancelled'} — refund the buyer`,
+                    verified
+                );
+                return;
+            }
+        } else if (!item.live) {
+            // A dead checkout on a dead order: nothing to apply, just stop checking it
+            await this.markFailed(item);
+            stats.failed++;
+            return;
+        }
+
+        const type = verified.status === 'success' ? 'charge.success' : 'charge.failed';
+        await WebhookService.applyVerified(provider.name, {
+            type,
+            providerEvent: 'reconciliation.verify',
+            eventKey: `reconcile:${type}:${item.reference}`,
+            reference: item.reference,
+            amount: verified.amount,
+            currency: verified.currency,
+        });
+
+        if (type === 'charge.success') stats.settled++;
+        else stats.failed++;
+        stats.discrepancies++;
+        await recordDiscrepancy('WEBHOOK_MISSED', item, `No ${type} webhook received — applied from provider verification`, verified, true);
+    }
+
+    private static async markPaidWithoutTicket(item: Unsettled) {
+        if (item.installmentPaymentId) {
+            await prisma.installmentPayment.updateMany({
+                where: { id: item.installmentPaymentId, status: { not: 'PAID' } },
+                data: { status: 'PAID', paidAt: new Date() },
+            });
+        } else if (item.groupShareId) {
+            // The seat is gone, so the share isn't PAID — paidAt alone records the money taken
+            await prisma.groupBookingShare.updateMany({
+                where: { id: item.groupShareId, paidAt: null },
+                data: { status: 'CANCELLED', paidAt: new Date() },
+            });
+        } else {
+            await prisma.bookingOrder.updateMany({
+                where: { id: item.orderId, paymentStatus: 'PROCESSING' },
+                data: { paymentStatus: 'COMPLETED', paidAt: new Date() },
+            });
+        }
+    }
+
+    private static async markFailed(item: Unsettled) {
+        if (item.installmentPaymentId) {
+            await prisma.installmentPayment.updateMany({
+                where: { id: item.installmentPaymentId, status: { in: ['PENDING', 'OVERDUE'] } },
+                data: { status: 'FAILED' },
+            });
+        } else if (item.groupShareId) {
+            await prisma.groupBookingShare.updateMany({
+                where: { id: item.groupShareId, status: 'PENDING' },
+                data: { status: 'FAILED' },
+            });
+        } else {
+            await prisma.bookingOrder.updateMany({
+                where: { id: item.orderId, paymentStatus: 'PROCESSING' },
+                data: { paymentStatus: 'FAILED' },
+            });
+        }
+    }
+}
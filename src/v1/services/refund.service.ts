@@ -0,0 +1,513 @@
+import { RefundPolicyType, RefundRequestStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ManageService } from './manage.service';
+import { PaymentService } from './payment.service';
+import { NotificationService } from './notification.service';
+import { WaitlistService } from './waitlist.service';
+import { LedgerService } from './ledger.service';
+import { emailQueue } from '../jobs/email.queue';
+import { refundQueue } from '../jobs/refund.queue';
+import { roundAmount } from '../utils/currency';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RefundPolicyInput {
+    refundPolicy: RefundPolicyType;
+    refundDeadlineDays?: number;
+    refundPercent?: number | null;
+}
+
+interface PolicyEvent {
+    startDate: Date;
+    refundPolicy: RefundPolicyType;
+    refundDeadlineDays: number;
+    refundPercent: number | null;
+}
+
+/**
+ * What the event's policy would refund on an order right now. The service fee is
+ * never refundable — only the (post-discount) ticket price.
+ */
+function quoteRefund(event: PolicyEvent, order: { total: number; serviceFee: number; currency: string }, now = new Date()) {
+    const refundableBase = Math.max(0, order.total - order.serviceFee);
+    const deadline = new Date(event.startDate.getTime() - event.refundDeadlineDays * ONE_DAY_MS);
+
+    if (event.refundPolicy === 'NONE') {
+        return { eligible: false, percent: 0, amount: 0, deadline: null, reason: 'This event does not offer refunds' };
+    }
+    if (now >= deadline) {
+        return { eligible: false, percent: 0, amount: 0, deadline, reason: 'The refund window for this event has closed' };
+    }
+
+    const percent = event.refundPolicy === 'FULL' ? 100 : (event.refundPercent ?? 0);
+    const amount = roundAmount(refundableBase * percent / 100, order.currency);
+    if (amount <= 0) {
+        return { eligible: false, percent, amount: 0, deadline, reason: 'There is nothing to refund on this order' };
+    }
+
+    return { eligible: true, percent, amount, deadline, reason: null };
+}
+
+/**
+ * Split a refund across the payments that funded an order, newest first. Installment
+ * orders and group bookings were paid in several charges, each of which must be refunded separately.
+ * Deterministic, so a retry can skip the parts that already went through.
+ */
+function allocateRefund(
+    order: {
+        paymentProvider: string | null;
+        paymentReference: string | null;
+        total: number;
+        installmentPlan: { payments: { sequence: number; amount: number; status: string; paymentProvider: string | null; paymentReference: string | null }[] } | null;
+        groupBooking: { shares: { amount: number; status: string; paymentProvider: string | null; paymentReference: string | null; paidAt: Date | null }[] } | null;
+    },
+    amount: number
+) {
+    const sources = order.installmentPlan
+        ? order.installmentPlan.payments
+            .filter(p => p.status === 'PAID' && p.paymentReference)
+            .sort((a, b) => b.sequence - a.sequence)
+            .map(p => ({ provider: p.paymentProvider, reference: p.paymentReference!, available: p.amount }))
+        : order.groupBooking
+        ? order.groupBooking.shares
+            .filter(sh => sh.status === 'PAID' && sh.paymentReference)
+            .sort((a, b) => (b.paidAt?.getTime() ?? 0) - (a.paidAt?.getTime() ?? 0))
+            .map(sh => ({ provider: sh.paymentProvider, reference: sh.paymentReference!, available: sh.amount }))
+        : order.paymentReference ? [{ provider: order.paymentProvider, reference: order.paymentReference, available: order.total }] : [];
+
+    const parts: { provider: string | null; reference: string; amount: number }[] = [];
+    let left = amount;
+    for (const source of sources) {
+        if (left <= 0) break;
+        const part = Math.min(left, source.available);
+        parts.push({ provider: source.provider, reference: source.reference, amount: part });
+        left -= part;
+    }
+    if (left > 0) throw new Error('Could not find the original payment to refund');
+    return parts;
+}
+
+export class RefundService {
+    // ─── Organizer: policy ────────────────────────────────────────────────────
+
+    static async getPolicy(eventId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+
+        const event = await prisma.event.findUnique({
+            where: { id: eventId },
+            select: { refundPolicy: true, refundDeadlineDays: true, refundPercent: true }
+        });
+        if (!event) throw new Error('Event not found');
+
+        return this.formatPolicy(event);
+    }
+
+    /**
+     * Set the policy future refund requests are quoted against. Requests already
+     * made keep the amount they were quoted.
+     */
+    static async updatePolicy(eventId: string, userId: string, data: RefundPolicyInput) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+
+        const event = await prisma.event.update({
+            where: { id: eventId },
+            data: {
+                refundPolicy: data.refundPolicy,
+                refundDeadlineDays: data.refundDeadlineDays ?? 0,
+                refundPercent: data.refundPolicy === 'PARTIAL' ? data.refundPercent : null,
+            },
+            select: { refundPolicy: true, refundDeadlineDays: true, refundPercent: true }
+        });
+
+        return this.formatPolicy(event);
+    }
+
+    // ─── Attendee ─────────────────────────────────────────────────────────────
+
+    /**
+     * The caller's refund request for an order (if any) plus what they'd get if they
+     * asked now.
+     */
+    static async getOrderRefund(orderId: string, userId: string) {
+        const order = await prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            include: {
+                event: { select: { startDate: true, refundPolicy: true, refundDeadlineDays: true, refundPercent: true } },
+                refundRequest: true,
+            }
+        });
+        if (!order) throw new Error('Order not found');
+        if (order.userId !== userId) throw new Error('Unauthorized');
+
+        const quote = quoteRefund(order.event, order);
+        return {
+            policy: this.formatPolicy(order.event),
+            quote: { ...quote, deadline: quote.deadline?.toISOString() ?? null },
+            request: order.refundRequest ? this.formatRequest(order.refundRequest) : null,
+        };
+    }
+
+    /**
+     * Ask the organizer to refund a confirmed order. The amount is locked in from the
+     * event's policy at request time.
+     */
+    static async requestRefund(orderId: string, userId: string, reason?: string) {
+        const order = await prisma.bookingOrder.findUnique({
+            where: { id: orderId },
+            include: {
+                event: { select: { id: true, title: true, organizerId: true, startDate: true, refundPolicy: true, refundDeadlineDays: true, refundPercent: true } },
+                attendees: { select: { checkedIn: true, holderId: true } },
+                refundRequest: { select: { id: true } },
+            }
+        });
+        if (!order) throw new Error('Order not found');
+        if (order.userId !== userId) throw new Error('Unauthorized');
+        if (order.status !== 'CONFIRMED' || order.paymentStatus !== 'COMPLETED') {
+            throw new Error('Only confirmed, paid orders can be refunded');
+        }
+        if (order.total <= 0) throw new Error('Free orders cannot be refunded');
+        if (order.refundRequest) throw new Error('A refund has already been requested for this order');
+        if (order.attendees.some(a => a.checkedIn)) throw new Error('Orders with checked-in tickets cannot be refunded');
+        if (order.attendees.some(a => a.holderId && a.holderId !== userId)) {
+            throw new Error('Orders with transferred tickets cannot be refunded');
+        }
+
+        const quote = quoteRefund(order.event, order);
+        if (!quote.eligible) throw new Error(quote.reason!);
+
+        let request;
+        try {
+            request = await prisma.refundRequest.create({
+                data: {
+                    orderId,
+                    eventId: order.eventId,
+                    userId,
+                    reason: reason || null,
+                    amount: quote.amount,
+                    refundPercent: quote.percent,
+                }
+            });
+        } catch (error: any) {
+            if (error.code === 'P2002') throw new Error('A refund has already been requested for this order');
+            throw error;
+        }
+
+        NotificationService.create({
+            userId: order.event.organizerId,
+            type: 'REFUND_REQUESTED',
+            title: 'Refund requested',
+            message: `An attendee requested a ${order.currency} ${quote.amount.toLocaleString()} refund for "${order.event.title}".`,
+            actionUrl: `/events/${order.eventId}/manage`,
+            metadata: { eventId: order.eventId, orderId, refundRequestId: request.id },
+        }).catch(() => {});
+
+        return this.formatRequest(request);
+    }
+
+    // ─── Organizer: review ────────────────────────────────────────────────────
+
+    static async listRequests(eventId: string, userId: string, status?: RefundRequestStatus) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        const requests = await prisma.refundRequest.findMany({
+            where: { eventId, ...(status ? { status } : {}) },
+            include: {
+                user: { select: { id: true, displayName: true, email: true, avatar: true } },
+                order: { select: { total: true, currency: true, items: { select: { ticketName: true, quantity: true } } } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return requests.map(r => ({
+            ...this.formatRequest(r),
+            user: r.user,
+            orderTotal: r.order.total,
+            currency: r.order.currency,
+            items: r.order.items,
+        }));
+    }
+
+    /**
+     * Approve a refund request: send the money back through the payment provider, then
+     * void the order's tickets and return them to inventory. Approving a FAILED request
+     * retries the provider call, resuming after any parts that already went through.
+     */
+    static async approveRequest(eventId: string, requestId: string, userId: string, note?: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+
+        const request = await prisma.refundRequest.findUnique({ where: { id: requestId } });
+        if (!request || request.eventId !== eventId) throw new Error('Refund request not found');
+        if (request.source !== 'ATTENDEE') throw new Error('Cancellation refunds are processed automatically — use retry instead');
+
+        // Claim the request so two reviewers can't both trigger a provider refund
+        const claimed = await prisma.refundRequest.updateMany({
+            where: { id: requestId, status: { in: ['PENDING', 'FAILED'] } },
+            data: {
+                status: 'PROCESSING',
+                reviewedById: userId,
+                reviewedAt: new Date(),
+                decisionNote: note ?? request.decisionNote,
+                failureReason: null,
+                attempts: { increment: 1 },
+                lastAttemptAt: new Date(),
+            }
+        });
+        if (claimed.count === 0) throw new Error(`This refund request cannot be approved (status: ${request.status.toLowerCase()})`);
+
+        return this.formatRequest(await this.executeRefund(requestId));
+    }
+
+    /**
+     * Process one queued cancellation refund. Called by the refund worker — throwing
+     * lets BullMQ retry with backoff; the request is left FAILED with the provider's
+     * reason in the meantime.
+     */
+    static async processQueuedRefund(requestId: string) {
+        // PROCESSING is re-claimable here: it means a previous worker died mid-refund, and
+        // jobs are keyed by request id so no other worker can hold the same request.
+        const claimed = await prisma.refundRequest.updateMany({
+            where: { id: requestId, source: 'EVENT_CANCELLATION', status: { in: ['PENDING', 'FAILED', 'PROCESSING'] } },
+            data: { status: 'PROCESSING', failureReason: null, attempts: { increment: 1 }, lastAttemptAt: new Date() }
+        });
+        if (claimed.count === 0) return null; // already refunded — nothing to do
+
+        return this.executeRefund(requestId);
+    }
+
+    // ─── Organizer: cancellation refunds ──────────────────────────────────────
+
+    /**
+     * Refund progress for a cancelled event: how many orders are refunded, still in
+     * flight or failing, and the amounts involved.
+     */
+    static async getCancellationProgress(eventId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+
+        const grouped = await prisma.refundRequest.groupBy({
+            by: ['status'],
+            where: { eventId, source: 'EVENT_CANCELLATION' },
+            _count: { _all: true },
+            _sum: { amount: true, refundedAmount: true },
+        });
+
+        const byStatus: Record<string, { orders: number; amount: number }> = {};
+        let totalOrders = 0;
+        let totalAmount = 0;
+        let refundedAmount = 0;
+        for (const row of grouped) {
+            byStatus[row.status.toLowerCase()] = { orders: row._count._all, amount: row._sum.amount ?? 0 };
+            totalOrders += row._count._all;
+            totalAmount += row._sum.amount ?? 0;
+            refundedAmount += row._sum.refundedAmount ?? 0;
+        }
+
+        const failures = await prisma.refundRequest.findMany({
+            where: { eventId, source: 'EVENT_CANCELLATION', status: 'FAILED' },
+            include: { user: { select: { id: true, displayName: true, email: true } } },
+            orderBy: { lastAttemptAt: 'desc' },
+            take: 100,
+        });
+
+        const completed = byStatus.refunded?.orders ?? 0;
+        return {
+            totalOrders,
+            completed,
+            percentComplete: totalOrders > 0 ? Math.round((completed / totalOrders) * 100) : 100,
+            totalAmount,
+            refundedAmount,
+            byStatus,
+            failures: failures.map(f => ({ ...this.formatRequest(f), user: f.user })),
+        };
+    }
+
+    /**
+     * Re-queue every FAILED cancellation refund for an event, e.g. after the organizer
+     * has sorted out a provider-side problem.
+     */
+    static async retryFailedCancellationRefunds(eventId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+
+        const failed = await prisma.refundRequest.findMany({
+            where: { eventId, source: 'EVENT_CANCELLATION', status: 'FAILED' },
+            select: { id: true },
+        });
+
+        for (const request of failed) {
+            // A new job id per retry — BullMQ ignores adds that reuse a failed job's id
+            await refundQueue.add('event-cancellation', { type: 'event-cancellation', refundRequestId: request.id }, {
+                jobId: `refund-${request.id}-retry-${Date.now()}`,
+            });
+        }
+
+        return { requeued: failed.length };
+    }
+
+    static async denyRequest(eventId: string, requestId: string, userId: string, note: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+
+        const request = await prisma.refundRequest.findUnique({
+            where: { id: requestId },
+            include: { event: { select: { title: true } } }
+        });
+        if (!request || request.eventId !== eventId) throw new Error('Refund request not found');
+
+        const denied = await prisma.refundRequest.updateMany({
+            where: { id: requestId, source: 'ATTENDEE', status: 'PENDING' },
+            data: { status: 'DENIED', reviewedById: userId, reviewedAt: new Date(), decisionNote: note }
+        });
+        if (denied.count === 0) throw new Error(`This refund request cannot be denied (status: ${request.status.toLowerCase()})`);
+
+        NotificationService.create({
+            userId: request.userId,
+            type: 'REFUND_DENIED',
+            title: 'Refund request declined',
+            message: `Your refund request for "${request.event.title}" was declined: ${note}`,
+            actionUrl: `/profile?tab=payments`,
+            metadata: { eventId, orderId: request.orderId, refundRequestId: requestId },
+        }).catch(() => {});
+
+        this.emailBuyer(request.userId, 'refund-denied', { eventTitle: request.event.title, note });
+
+        return this.formatRequest(await prisma.refundRequest.findUniqueOrThrow({ where: { id: requestId } }));
+    }
+
+    // ─── Internals ────────────────────────────────────────────────────────────
+
+    /**
+     * Send a claimed (PROCESSING) request's money back through the provider and, once
+     * all of it has gone through, close out the order: void its tickets, return them to
+     * inventory and cancel any installment plan.
+     */
+    private static async executeRefund(requestId: string) {
+        const request = await prisma.refundRequest.findUniqueOrThrow({
+            where: { id: requestId },
+            include: {
+                order: {
+                    include: {
+                        items: true,
+                        installmentPlan: { include: { payments: true } },
+                        groupBooking: { include: { shares: true } },
+                        event: { select: { title: true } },
+                    }
+                }
+            }
+        });
+        const order = request.order;
+
+        let refundedSoFar = request.refundedAmount;
+        try {
+            let covered = 0;
+            for (const part of allocateRefund(order, request.amount)) {
+                covered += part.amount;
+                if (covered <= refundedSoFar) continue;
+
+                await PaymentService.providerFor(part.provider).refundTransaction(part.reference, part.amount, order.currency);
+                refundedSoFar += part.amount;
+                await prisma.refundRequest.update({ where: { id: requestId }, data: { refundedAmount: refundedSoFar } });
+            }
+        } catch (error: any) {
+            await prisma.refundRequest.update({
+                where: { id: requestId },
+                data: { status: 'FAILED', failureReason: error.message || 'Refund failed' }
+            });
+            throw new Error(`Refund could not be sent: ${error.message || 'payment provider error'}`);
+        }
+
+        // Installment orders that never completed were not counted as attendees
+        const wasConfirmed = order.status === 'CONFIRMED';
+        // A cancelled order (paid after its event was cancelled) already gave its seats back
+        const holdsSeats = order.status === 'CONFIRMED' || order.status === 'PENDING';
+        // ...and a group booking only counted the seats that were paid for
+        const ticketCount = order.groupBooking
+            ? order.groupBooking.shares.filter(sh => sh.status === 'PAID').length
+            : order.items.reduce((sum, item) => sum + item.quantity, 0);
+        const updated = await prisma.$transaction(async (tx) => {
+            const refunded = await tx.refundRequest.update({ where: { id: requestId }, data: { status: 'REFUNDED' } });
+            await tx.bookingOrder.update({
+                where: { id: order.id },
+                data: { status: 'REFUNDED', paymentStatus: 'REFUNDED', refundedAmount: request.amount }
+            });
+            // Void the ticket codes so they can't be used at the door
+            await tx.attendee.updateMany({ where: { orderId: order.id }, data: { status: 'cancelled' } });
+            if (holdsSeats) {
+                for (const item of order.items) {
+                    await tx.ticket.update({
+                        where: { id: item.ticketId },
+                        data: { remaining: { increment: item.quantity } },
+                    });
+                }
+            }
+            if (wasConfirmed) {
+                await tx.event.update({ where: { id: order.eventId }, data: { attendeesCount: { decrement: ticketCount } } });
+            }
+            if (order.installmentPlan && order.installmentPlan.status === 'ACTIVE') {
+                await tx.installmentPlan.update({ where: { id: order.installmentPlan.id }, data: { status: 'CANCELLED' } });
+            }
+            await LedgerService.recordRefund(tx, order.id, request.amount, `refund:${requestId}`);
+            return refunded;
+        });
+
+        if (holdsSeats) {
+            WaitlistService.offerReleasedTickets(order.items.map(i => i.ticketId))
+                .catch(err => console.error('[Waitlist] Failed to offer refunded tickets:', err));
+        }
+
+        const cancelled = request.source === 'EVENT_CANCELLATION';
+        NotificationService.create({
+            userId: request.userId,
+            type: 'REFUND_APPROVED',
+            title: cancelled ? 'Refund issued' : 'Refund approved',
+            message: cancelled
+                ? `"${order.event.title}" was cancelled. Your ${order.currency} ${request.amount.toLocaleString()} refund is on its way.`
+                : `Your ${order.currency} ${request.amount.toLocaleString()} refund for "${order.event.title}" is on its way. Your tickets have been cancelled.`,
+            actionUrl: `/profile?tab=payments`,
+            metadata: { eventId: order.eventId, orderId: order.id, refundRequestId: requestId },
+        }).catch(() => {});
+
+        this.emailBuyer(request.userId, 'refund-approved', {
+            eventTitle: order.event.title,
+            currency: order.currency,
+            amount: request.amount,
+            eventCancelled: cancelled,
+        });
+
+        return updated;
+    }
+
+    private static emailBuyer(userId: string, type: 'refund-approved' | 'refund-denied', data: Record<string, any>) {
+        prisma.user.findUnique({ where: { id: userId }, select: { email: true, displayName: true } })
+            .then(user => {
+                if (!user?.email) return;
+                return emailQueue.add(type, { type, to: user.email, name: user.displayName, ...data });
+            })
+            .catch(err => console.error(`Failed to queue ${type} email:`, err));
+    }
+
+    private static formatPolicy(event: { refundPolicy: RefundPolicyType; refundDeadlineDays: number; refundPercent: number | null }) {
+        return {
+            refundPolicy: event.refundPolicy.toLowerCase(),
+            refundDeadlineDays: event.refundDeadlineDays,
+            refundPercent: event.refundPolicy === 'FULL' ? 100 : event.refundPolicy === 'PARTIAL' ? event.refundPercent : 0,
+        };
+    }
+
+    private static formatRequest(request: any) {
+        return {
+            id: request.id,
+            orderId: request.orderId,
+            eventId: request.eventId,
+            status: request.status.toLowerCase(),
+            reason: request.reason,
+            amount: request.amount,
+            refundPercent: request.refundPercent,
+            refundedAmount: request.refundedAmount,
+            source: request.source.toLowerCase(),
+            attempts: request.attempts,
+            decisionNote: request.decisionNote,
+            failureReason: request.failureReason,
+            reviewedAt: request.reviewedAt?.toISOString() ?? null,
+            createdAt: request.createdAt.toISOString(),
+            updatedAt: request.updatedAt.toISOString(),
+        };
+    }
+}
@@ -0,0 +1,211 @@
+import { RegistrationQuestion, RegistrationQuestionType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ManageService } from './manage.service';
+
+const DEFAULT_TEXT_MAX_LENGTH = 500;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface QuestionInput {
+    label: string;
+    helpText?: string | null;
+    type: RegistrationQuestionType;
+    options?: string[];
+    required?: boolean;
+    maxLength?: number | null;
+    ticketIds?: string[];
+    position?: number;
+}
+
+/** Answers keyed by question id, as submitted with each attendee. */
+export type AnswerInput = Record<string, string | string[] | boolean>;
+
+function hasChoices(type: RegistrationQuestionType) {
+    return type === 'SELECT' || type === 'MULTI_SELECT';
+}
+
+function appliesTo(question: RegistrationQuestion, ticketId: string) {
+    return question.ticketIds.length === 0 || question.ticketIds.includes(ticketId);
+}
+
+function checkShape(type: RegistrationQuestionType, options?: string[]) {
+    if (hasChoices(type) && (!options || options.length < 2)) {
+        throw new Error('Select questions cannot have fewer than 2 options');
+    }
+}
+
+/**
+ * Check one answer against its question and convert it to the stored form. Returns null
+ * for an optional question left blank.
+ */
+function normalizeAnswer(question: RegistrationQuestion, raw: string | string[] | boolean | undefined, attendeeNumber: number): string[] | null {
+    const invalid = (reason: string) => new Error(`Invalid answer to "${question.label}" for attendee ${attendeeNumber}: ${reason}`);
+    const blank = raw === undefined || raw === '' || (Array.isArray(raw) && raw.length === 0);
+
+    if (question.type === 'CHECKBOX') {
+        if (raw !== undefined && typeof raw !== 'boolean') throw invalid('expected true or false');
+        if (question.required && raw !== true) throw invalid('this box must be ticked');
+        return raw === undefined ? null : [String(raw)];
+    }
+
+    if (blank) {
+        if (question.required) throw invalid('an answer is required');
+        return null;
+    }
+
+    switch (question.type) {
+        case 'TEXT': {
+            if (typeof raw !== 'string') throw invalid('expected text');
+            const text = raw.trim();
+            const maxLength = question.maxLength ?? DEFAULT_TEXT_MAX_LENGTH;
+            if (text.length > maxLength) throw invalid(`must be at most ${maxLength} characters`);
+            if (!text) {
+                if (question.required) throw invalid('an answer is required');
+                return null;
+            }
+            return [text];
+        }
+        case 'SELECT':
+            if (typeof raw !== 'string' || !question.options.includes(raw)) throw invalid('not one of the options');
+            return [raw];
+        case 'MULTI_SELECT': {
+            if (!Array.isArray(raw) || raw.some(v => !question.options.includes(v))) throw invalid('not one of the options');
+            return [...new Set(raw)];
+        }
+        case 'DATE': {
+            if (typeof raw !== 'string' || !DATE_PATTERN.test(raw) || isNaN(new Date(`${raw}T00:00:00Z`).getTime())) {
+                throw invalid('expected a date as YYYY-MM-DD');
+            }
+            return [raw];
+        }
+    }
+    return null;
+}
+
+export class RegistrationQuestionService {
+    /**
+     * The event's questions in display order — public, since checkout renders them.
+     * With `ticketId`, only the questions asked of that ticket type.
+     */
+    static async list(eventId: string, ticketId?: string) {
+        const questions = await prisma.registrationQuestion.findMany({
+            where: { eventId },
+            orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        });
+        return questions
+            .filter(q => !ticketId || appliesTo(q, ticketId))
+            .map(q => this.formatQuestion(q));
+    }
+
+    static async create(eventId: string, userId: string, data: QuestionInput) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+        await this.assertTicketsBelongToEvent(eventId, data.ticketIds);
+        checkShape(data.type, data.options);
+
+        const last = await prisma.registrationQuestion.findFirst({
+            where: { eventId },
+            orderBy: { position: 'desc' },
+            select: { position: true },
+        });
+
+        const question = await prisma.registrationQuestion.create({
+            data: {
+                eventId,
+                label: data.label.trim(),
+                helpText: data.helpText?.trim() || null,
+                type: data.type,
+                options: hasChoices(data.type) ? data.options ?? [] : [],
+                required: data.required ?? false,
+                maxLength: data.type === 'TEXT' ? data.maxLength ?? null : null,
+                ticketIds: data.ticketIds ?? [],
+                position: data.position ?? (last ? last.position + 1 : 0),
+            },
+        });
+        return this.formatQuestion(question);
+    }
+
+    /**
+     * Update a question. Answers already given are kept as they were, even if an
+     * option they picked has since been renamed or removed.
+     */
+    static async update(eventId: string, questionId: string, userId: string, data: Partial<QuestionInput>) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+        const question = await prisma.registrationQuestion.findUnique({ where: { id: questionId } });
+        if (!question || question.eventId !== eventId) throw new Error('Question not found');
+        if (data.ticketIds) await this.assertTicketsBelongToEvent(eventId, data.ticketIds);
+
+        const type = data.type ?? question.type;
+        const options = data.options ?? question.options;
+        checkShape(type, options);
+
+        const updated = await prisma.registrationQuestion.update({
+            where: { id: questionId },
+            data: {
+                ...(data.label !== undefined ? { label: data.label.trim() } : {}),
+                ...(data.helpText !== undefined ? { helpText: data.helpText?.trim() || null } : {}),
+                type,
+                options: hasChoices(type) ? options : [],
+                ...(data.required !== undefined ? { required: data.required } : {}),
+                maxLength: type === 'TEXT' ? (data.maxLength !== undefined ? data.maxLength : question.maxLength) : null,
+                ...(data.ticketIds !== undefined ? { ticketIds: data.ticketIds } : {}),
+                ...(data.position !== undefined ? { position: data.position } : {}),
+            },
+        });
+        return this.formatQuestion(updated);
+    }
+
+    /** Delete a question along with every answer given to it. */
+    static async remove(eventId: string, questionId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canEdit');
+        const deleted = await prisma.registrationQuestion.deleteMany({ where: { id: questionId, eventId } });
+        if (deleted.count === 0) throw new Error('Question not found');
+        return { message: 'Question deleted' };
+    }
+
+    /**
+     * Validate the answers submitted with each attendee against the event's questions and
+     * normalize them for storage — one list of answer rows per attendee, in input order.
+     * Required questions must be answered for every attendee whose ticket type they apply to;
+     * answers to questions that don't apply to an attendee's ticket are dropped.
+     */
+    static async checkAnswers(eventId: string, attendees: { ticketTypeId: string; answers?: AnswerInput }[]) {
+        const questions = await prisma.registrationQuestion.findMany({ where: { eventId } });
+        const byId = new Map(questions.map(q => [q.id, q]));
+
+        return attendees.map((attendee, index) => {
+            const answers = attendee.answers ?? {};
+            for (const questionId of Object.keys(answers)) {
+                if (!byId.has(questionId)) throw new Error(`Invalid answer for attendee ${index + 1}: unknown question ${questionId}`);
+            }
+
+            const rows: { questionId: string; value: string[] }[] = [];
+            for (const question of questions) {
+                if (!appliesTo(question, attendee.ticketTypeId)) continue;
+                const value = normalizeAnswer(question, answers[question.id], index + 1);
+                if (value) rows.push({ questionId: question.id, value });
+            }
+            return rows;
+        });
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async assertTicketsBelongToEvent(eventId: string, ticketIds?: string[]) {
+        if (!ticketIds || ticketIds.length === 0) return;
+        const count = await prisma.ticket.count({ where: { id: { in: ticketIds }, eventId } });
+        if (count !== new Set(ticketIds).size) throw new Error('One or more ticket types do not belong to this event');
+    }
+
+    private static formatQuestion(question: RegistrationQuestion) {
+        return {
+            id: question.id,
+            label: question.label,
+            helpText: question.helpText,
+            type: question.type,
+            options: question.options,
+            required: question.required,
+            maxLength: question.type === 'TEXT' ? question.maxLength ?? DEFAULT_TEXT_MAX_LENGTH : null,
+            ticketIds: question.ticketIds,
+            position: question.position,
+        };
+    }
+}
@@ -0,0 +1,307 @@
+import { LedgerEntryType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { PayoutService } from './payout.service';
+import { isSupportedCurrency, roundAmount } from '../utils/currency';
+import { PdfDocument, money } from '../utils/pdf';
+
+/**
+ * Downloadable financial statements: every ledger line booked to an organizer in one
+ * currency over a period, grouped by event with running balances. The summary uses the
+ * same breakdown as /payouts/balance, taken at the start and end of the period, so a
+ * statement ending now closes on the balance the organizer sees there.
+ */
+
+export interface StatementExportQuery {
+    currency: string;
+    month?: string; // YYYY-MM, a calendar month in UTC
+    from?: string;
+    to?: string; // a bare date (YYYY-MM-DD) includes that whole day
+}
+
+type Breakdown = Awaited<ReturnType<typeof PayoutService.getBalanceAsOf>>;
+
+interface StatementLine {
+    date: Date;
+    type: LedgerEntryType;
+    description: string;
+    reference: string | null; // the order or payout the line belongs to
+    amount: number;
+    balance: number;
+}
+
+interface EventSection {
+    eventId: string | null;
+    title: string;
+    openingBalance: number;
+    closingBalance: number;
+    lines: StatementLine[];
+}
+
+export interface Statement {
+    organizer: { name: string; email: string };
+    currency: string;
+    from: Date;
+    to: Date;
+    openingBalance: number;
+    closingBalance: number;
+    availableBalance: number; // what can be paid out, as on /payouts/balance
+    period: { grossRevenue: number; absorbedFees: number; refundsTotal: number; payouts: number; adjustments: number };
+    opening: Breakdown;
+    closing: Breakdown;
+    events: EventSection[];
+}
+
+const MAX_STATEMENT_LINES = 20_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TYPE_LABELS: Record<LedgerEntryType, string> = {
+    TICKET_SALE: 'Sale',
+    SERVICE_FEE: 'Fee',
+    REFUND: 'Refund',
+    CHARGEBACK: 'Chargeback',
+    PAYOUT: 'Payout',
+    ADJUSTMENT: 'Adjustment',
+};
+
+/** The ORGANIZER account's balance: what the breakdown nets to before it's floored at zero. */
+function ledgerBalance(breakdown: Breakdown) {
+    const { grossRevenue, absorbedFees, refundsTotal, previousPayouts, adjustments, currency } = breakdown;
+    return roundAmount(grossRevenue - absorbedFees - refundsTotal - previousPayouts + adjustments, currency);
+}
+
+function parseDate(value: string, name: string, endOfDay: boolean) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new Error(`Invalid ${name} date`);
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) return new Date(date.getTime() + DAY_MS - 1);
+    return date;
+}
+
+/** The statement period: a month, an explicit range, or the current month to date. */
+function resolvePeriod(query: StatementExportQuery, now: Date) {
+    if (query.month) {
+        const match = /^(\d{4})-(\d{2})$/.exec(query.month);
+        if (!match || +match[2] < 1 || +match[2] > 12) throw new Error('Invalid month: use YYYY-MM');
+        const year = +match[1];
+        const month = +match[2] - 1;
+        return { from: new Date(Date.UTC(year, month, 1)), to: new Date(Date.UTC(year, month + 1, 1) - 1) };
+    }
+    const from = query.from ? parseDate(query.from, 'from', false) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const to = query.to ? parseDate(query.to, 'to', true) : now;
+    if (from > to) throw new Error('Invalid period: from is after to');
+    return { from, to };
+}
+
+function csvCell(value: unknown) {
+    const str = value == null ? '' : String(value);
+    return str.includes(',') || str.includes('"') || str.includes('\n') ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function formatDate(date: Date) {
+    return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+export class StatementService {
+    /** Build the statement for one currency and period. */
+    static async build(organizerId: string, query: StatementExportQuery): Promise<Statement> {
+        const currency = query.currency.toUpperCase();
+        if (!isSupportedCurrency(currency)) throw new Error(`Unsupported currency: ${query.currency}`);
+        const { from, to } = resolvePeriod(query, new Date());
+
+        const organizer = await prisma.user.findUnique({
+            where: { id: organizerId },
+            select: { displayName: true, username: true, email: true },
+        });
+        if (!organizer) throw new Error('Organizer not found');
+
+        const account = { organizerId, currency, account: 'ORGANIZER' as const };
+        const inPeriod = { ...account, createdAt: { gte: from, lte: to } };
+
+        const lineCount = await prisma.ledgerEntry.count({ where: inPeriod });
+        if (lineCount > MAX_STATEMENT_LINES) {
+            throw new Error(`This period has more than ${MAX_STATEMENT_LINES.toLocaleString('en-US')} lines. Choose a shorter period.`);
+        }
+
+        const [openingByEvent, entries, opening, closing] = await Promise.all([
+            prisma.ledgerEntry.groupBy({
+                by: ['eventId'],
+                where: { ...account, createdAt: { lt: from } },
+                _sum: { amount: true },
+            }),
+            prisma.ledgerEntry.findMany({
+                where: inPeriod,
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+                include: { transaction: { select: { description: true, orderId: true, payoutRequestId: true } } },
+            }),
+            PayoutService.getBalanceAsOf(organizerId, currency, new Date(from.getTime() - 1)),
+            PayoutService.getBalanceAsOf(organizerId, currency, to),
+        ]);
+
+        const eventIds = [...new Set([...openingByEvent, ...entries].map(e => e.eventId).filter((id): id is string => !!id))];
+        const events = await prisma.event.findMany({ where: { id: { in: eventIds } }, select: { id: true, title: true } });
+        const titles = new Map(events.map(e => [e.id, e.title]));
+
+        const sections = new Map<string | null, EventSection>();
+        const section = (eventId: string | null) => {
+            let existing = sections.get(eventId);
+            if (!existing) {
+                existing = {
+                    eventId,
+                    title: eventId ? titles.get(eventId) ?? 'Deleted event' : 'Not tied to an event',
+                    openingBalance: 0,
+                    closingBalance: 0,
+                    lines: [],
+                };
+                sections.set(eventId, existing);
+            }
+            return existing;
+        };
+
+        for (const row of openingByEvent) {
+            const amount = roundAmount(row._sum.amount ?? 0, currency);
+            if (amount === 0) continue;
+            const target = section(row.eventId);
+            target.openingBalance = target.closingBalance = amount;
+        }
+        for (const entry of entries) {
+            const target = section(entry.eventId);
+            target.closingBalance = roundAmount(target.closingBalance + entry.amount, currency);
+            target.lines.push({
+                date: entry.createdAt,
+                type: entry.type,
+                description: entry.transaction.description,
+                reference: entry.transaction.orderId ?? entry.transaction.payoutRequestId,
+                amount: entry.amount,
+                balance: target.closingBalance,
+            });
+        }
+
+        const grouped = [...sections.values()].sort((a, b) => {
+            if (!a.eventId !== !b.eventId) return a.eventId ? -1 : 1; // unattached lines last
+            return a.title.localeCompare(b.title);
+        });
+
+        return {
+            organizer: { name: organizer.displayName || organizer.username || organizer.email, email: organizer.email },
+            currency,
+            from,
+            to,
+            openingBalance: ledgerBalance(opening),
+            closingBalance: ledgerBalance(closing),
+            availableBalance: closing.netAmount,
+            period: {
+                grossRevenue: roundAmount(closing.grossRevenue - opening.grossRevenue, currency),
+                absorbedFees: roundAmount(closing.absorbedFees - opening.absorbedFees, currency),
+                refundsTotal: roundAmount(closing.refundsTotal - opening.refundsTotal, currency),
+                payouts: roundAmount(closing.previousPayouts - opening.previousPayouts, currency),
+                adjustments: roundAmount(closing.adjustments - opening.adjustments, currency),
+            },
+            opening,
+            closing,
+            events: grouped,
+        };
+    }
+
+    /** The statement as a file: CSV for spreadsheets and accounting tools, or a printable PDF. */
+    static async export(organizerId: string, query: StatementExportQuery, format: 'csv' | 'pdf') {
+        const statement = await this.build(organizerId, query);
+        const name = `statement-${statement.currency}-${statement.from.toISOString().slice(0, 10)}-to-${statement.to.toISOString().slice(0, 10)}`;
+        return format === 'pdf'
+            ? { filename: `${name}.pdf`, contentType: 'application/pdf', content: this.renderPdf(statement) }
+            : { filename: `${name}.csv`, contentType: 'text/csv', content: this.renderCsv(statement) };
+    }
+
+    // ─── Rendering ────────────────────────────────────────────────────────────
+
+    /** One row per line, with each event opened and closed by its balance rows, then the summary. */
+    private static renderCsv(statement: Statement) {
+        const { currency } = statement;
+        const headers = ['Event', 'Event ID', 'Date', 'Type', 'Description', 'Reference', 'Amount', 'Balance', 'Currency'];
+        const row = (cells: unknown[]) => cells.map(csvCell).join(',');
+
+        const rows: string[] = [];
+        for (const event of statement.events) {
+            rows.push(row([event.title, event.eventId, statement.from.toISOString(), 'Opening balance', '', '', '', event.openingBalance, currency]));
+            for (const line of event.lines) {
+                rows.push(row([event.title, event.eventId, line.date.toISOString(), TYPE_LABELS[line.type], line.description, line.reference, line.amount, line.balance, currency]));
+            }
+            rows.push(row([event.title, event.eventId, statement.to.toISOString(), 'Closing balance', '', '', '', event.closingBalance, currency]));
+        }
+
+        const summary: [string, number][] = [
+            ['Opening balance', statement.openingBalance],
+            ['Ticket sales', statement.period.grossRevenue],
+            ['Fees absorbed', -statement.period.absorbedFees],
+            ['Refunds and chargebacks', -statement.period.refundsTotal],
+            ['Payouts', -statement.period.payouts],
+            ['Adjustments', statement.period.adjustments],
+            ['Closing balance', statement.closingBalance],
+            ['Available for payout', statement.availableBalance],
+        ];
+        for (const [label, amount] of summary) {
+            rows.push(row(['All events', '', statement.to.toISOString(), label, '', '', '', amount, currency]));
+        }
+
+        return [headers.join(','), ...rows].join('\n');
+    }
+
+    private static renderPdf(statement: Statement): Buffer {
+        const { currency } = statement;
+        const left = PdfDocument.margin;
+        const right = PdfDocument.width - PdfDocument.margin;
+        const amountX = right - 100;
+        const descriptionX = left + 80;
+        const doc = new PdfDocument();
+
+        doc.text(left, 'EventFi', { size: 20, bold: true });
+        doc.text(right, 'STATEMENT', { size: 14, bold: true, align: 'right' });
+        doc.down(16).text(right, `${formatDate(statement.from)} - ${formatDate(statement.to)}`, { align: 'right' });
+        doc.down().text(right, `Currency: ${currency}`, { align: 'right' });
+        doc.down(10).rule().down(20);
+
+        doc.text(left, statement.organizer.name, { bold: true, maxWidth: right - left });
+        doc.down().text(left, statement.organizer.email, { maxWidth: right - left });
+        doc.down(24);
+
+        const labelX = left + 250;
+        const summaryLine = (label: string, amount: number, bold = false) => {
+            doc.text(labelX, label, { bold }).text(right, money(amount, currency), { bold, align: 'right' }).down(16);
+        };
+        doc.text(left, 'Summary', { size: 12, bold: true }).down(18);
+        summaryLine('Opening balance', statement.openingBalance);
+        summaryLine('Ticket sales', statement.period.grossRevenue);
+        summaryLine('Fees absorbed', -statement.period.absorbedFees);
+        summaryLine('Refunds and chargebacks', -statement.period.refundsTotal);
+        summaryLine('Payouts', -statement.period.payouts);
+        summaryLine('Adjustments', statement.period.adjustments);
+        summaryLine('Closing balance', statement.closingBalance, true);
+        summaryLine('Available for payout', statement.availableBalance);
+        doc.down(12);
+
+        if (statement.events.length === 0) {
+            doc.text(left, 'Nothing was booked to your balance in this period.');
+        }
+
+        for (const event of statement.events) {
+            doc.text(left, event.title, { size: 12, bold: true, maxWidth: right - left }).down(18);
+            doc.text(left, 'Date', { bold: true })
+                .text(descriptionX, 'Description', { bold: true })
+                .text(amountX, 'Amount', { bold: true, align: 'right' })
+                .text(right, 'Balance', { bold: true, align: 'right' });
+            doc.down(6).rule().down(16);
+
+            doc.text(descriptionX, 'Opening balance').text(right, money(event.openingBalance, currency), { align: 'right' }).down(16);
+            for (const line of event.lines) {
+                doc.text(left, formatDate(line.date))
+                    .text(descriptionX, `${TYPE_LABELS[line.type]}: ${line.description}`, { maxWidth: amountX - descriptionX - 80 })
+                    .text(amountX, money(line.amount, currency), { align: 'right' })
+                    .text(right, money(line.balance, currency), { align: 'right' })
+                    .down(16);
+            }
+            doc.text(descriptionX, 'Closing balance', { bold: true })
+                .text(right, money(event.closingBalance, currency), { bold: true, align: 'right' });
+            doc.down(8).rule().down(24);
+        }
+
+        return doc.toBuffer();
+    }
+}
@@ -42,6 +42,8 @@ export class TeamService {
             orderBy: { createdAt: 'asc' }
         });
 
+        const sharedPercent = teamMembers.reduce((sum, m) => sum + m.revenueSharePercent, 0);
+
         // Format response
         const members = [
             // Organizer as first member
@@ -54,7 +56,8 @@ export class TeamService {
                 role: 'organizer',
                 addedDate: event.createdAt.toISOString(),
                 status: 'active',
-                permissions: ROLE_PERMISSIONS.ORGANIZER
+                permissions: ROLE_PERMISSIONS.ORGANIZER,
+                revenueSharePercent: Math.round((100 - sharedPercent) * 100) / 100
             },
             // Team members
             ...teamMembers.map(m => ({
@@ -66,7 +69,8 @@ export class TeamService {
                 role: m.role.toLowerCase().replace('_', '-'),
                 addedDate: m.createdAt.toISOString(),
                 status: m.status.toLowerCase(),
-                permissions: ROLE_PERMISSIONS[m.role] || ROLE_PERMISSIONS.ASSISTANT
+                permissions: ROLE_PERMISSIONS[m.role] || ROLE_PERMISSIONS.ASSISTANT,
+                revenueSharePercent: m.revenueSharePercent
             }))
         ];
 
@@ -175,7 +179,8 @@ export class TeamService {
                 role: member.role.toLowerCase().replace('_', '-'),
                 addedDate: member.createdAt.toISOString(),
                 status: member.status.toLowerCase(),
-                permissions: ROLE_PERMISSIONS[member.role]
+                permissions: ROLE_PERMISSIONS[member.role],
+                revenueSharePercent: member.revenueSharePercent
             },
             invitationSent
         };
@@ -212,10 +217,51 @@ export class TeamService {
             role: updated.role.toLowerCase().replace('_', '-'),
             addedDate: updated.createdAt.toISOString(),
             status: updated.status.toLowerCase(),
-            permissions: ROLE_PERMISSIONS[updated.role]
+            permissions: ROLE_PERMISSIONS[updated.role],
+            revenueSharePercent: updated.revenueSharePercent
         };
     }
 
+    /**
+     * Set how the event's revenue is split. Replaces every share at once: members not
+     * listed go back to 0%, and the organizer keeps whatever the shares don't add up to.
+     * Only active members can hold a share, since it's paid into their own payout account.
+     * New shares apply to sales booked from now on; earlier sales keep the split they had.
+     */
+    static async setRevenueShares(eventId: string, userId: string, shares: { memberId: string; percent: number }[]) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageTeam');
+
+        const memberIds = shares.map(s => s.memberId);
+        if (new Set(memberIds).size !== memberIds.length) throw new Error('Each team member can only be listed once');
+
+        const members = await prisma.eventTeamMember.findMany({ where: { id: { in: memberIds } } });
+        const membersById = new Map(members.map(m => [m.id, m]));
+        for (const share of shares) {
+            const member = membersById.get(share.memberId);
+            if (!member) throw new Error('Team member not found');
+            if (member.eventId !== eventId) throw new Error('Team member does not belong to this event');
+            if (share.percent > 0 && (member.status !== 'ACTIVE' || !member.userId)) {
+                throw new Error('Pending invitations cannot receive a revenue share until accepted');
+            }
+        }
+
+        const total = shares.reduce((sum, s) => sum + s.percent, 0);
+        if (total > 100) throw new Error('Revenue shares cannot add up to more than 100%');
+
+        await prisma.$transaction([
+            prisma.eventTeamMember.updateMany({
+                where: { eventId, id: { notIn: memberIds } },
+                data: { revenueSharePercent: 0 }
+            }),
+            ...shares.map(share => prisma.eventTeamMember.update({
+                where: { id: share.memberId },
+                data: { revenueSharePercent: share.percent }
+            }))
+        ]);
+
+        return this.getTeamMembers(eventId, userId);
+    }
+
     /**
      * Remove team member
      */
@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+const PAYLOAD_PREFIX = 'EVF1';
+const VALID_AFTER_EVENT_HOURS = 24; // a ticket's QR keeps verifying this long after the event ends
+const API_URL = process.env.API_URL || 'http://localhost:8000';
+
+export interface TicketClaims {
+    attendeeId: string;
+    eventId: string;
+    ticketId: string;
+    ticketCode: string;
+    expiresAt: Date;
+}
+
+let signingKey: crypto.KeyObject | null = null;
+
+/**
+ * Ed25519 key used to sign ticket payloads. Scanner apps only ever get the public half,
+ * so they can verify a ticket offline without being able to mint one.
+ */
+function getSigningKey() {
+    if (signingKey) return signingKey;
+
+    const pem = process.env.TICKET_SIGNING_PRIVATE_KEY;
+    if (pem) {
+        signingKey = crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+    } else {
+        console.warn('[TicketQR] TICKET_SIGNING_PRIVATE_KEY is not set — using a temporary key; issued QR codes stop verifying on restart');
+        signingKey = crypto.generateKeyPairSync('ed25519').privateKey;
+    }
+    return signingKey;
+}
+
+function getPublicKey() {
+    return crypto.createPublicKey(getSigningKey());
+}
+
+export class TicketQrService {
+    /**
+     * Sign a ticket into a compact QR payload: `EVF1.<claims>.<signature>`, both parts base64url.
+     * The ticket code is part of the claims, so re-issuing it (e.g. on transfer) revokes old QR codes.
+     */
+    static sign(claims: TicketClaims) {
+        const body = Buffer.from(JSON.stringify({
+            a: claims.attendeeId,
+            e: claims.eventId,
+            t: claims.ticketId,
+            c: claims.ticketCode,
+            x: Math.floor(claims.expiresAt.getTime() / 1000),
+        })).toString('base64url');
+
+        const signed = `${PAYLOAD_PREFIX}.${body}`;
+        const signature = crypto.sign(null, Buffer.from(signed), getSigningKey()).toString('base64url');
+        return `${signed}.${signature}`;
+    }
+
+    /**
+     * Check a scanned payload's signature and expiry and return its claims. `at` is when it
+     * was scanned, which for offline scans synced later is not now.
+     */
+    static verify(payload: string, at: Date = new Date()): TicketClaims {
+        const parts = payload.trim().split('.');
+        if (parts.length !== 3 || parts[0] !== PAYLOAD_PREFIX) throw new Error('Invalid ticket QR code');
+
+        const [prefix, body, signature] = parts;
+        const valid = crypto.verify(null, Buffer.from(`${prefix}.${body}`), getPublicKey(), Buffer.from(signature, 'base64url'));
+        if (!valid) throw new Error('Invalid ticket QR code signature');
+
+        let raw: any;
+        try {
+            raw = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+        } catch {
+            throw new Error('Invalid ticket QR code');
+        }
+
+        const claims: TicketClaims = {
+            attendeeId: raw.a,
+            eventId: raw.e,
+            ticketId: raw.t,
+            ticketCode: raw.c,
+            expiresAt: new Date(raw.x * 1000),
+        };
+        if (claims.expiresAt <= at) throw new Error('This ticket QR code has expired');
+
+        return claims;
+    }
+
+    /**
+     * Signed payload for an attendee ticket, valid until a day after the event ends.
+     */
+    static payloadFor(attendee: { id: string; ticketId: string; ticketCode: string }, event: { id: string; endDate: Date }) {
+        return this.sign({
+            attendeeId: attendee.id,
+            eventId: event.id,
+            ticketId: attendee.ticketId,
+            ticketCode: attendee.ticketCode,
+            expiresAt: new Date(event.endDate.getTime() + VALID_AFTER_EVENT_HOURS * 60 * 60 * 1000),
+        });
+    }
+
+    /**
+     * Publicly reachable image URL for a payload — used where a bearer token can't be sent, like emails.
+     */
+    static imageUrl(payload: string, format: 'png' | 'svg' = 'png') {
+        return `${API_URL}/api/v1/tickets/qr?format=${format}&payload=${encodeURIComponent(payload)}`;
+    }
+
+    static async render(payload: string, format: 'png' | 'svg') {
+        const options = { errorCorrectionLevel: 'M' as const, margin: 2, width: 320 };
+        return format === 'svg'
+            ? QRCode.toString(payload, { ...options, type: 'svg' })
+            : QRCode.toBuffer(payload, { ...options, type: 'png' });
+    }
+
+    /**
+     * Verification key for scanner apps.
+     */
+    static getVerificationKey() {
+        const publicKey = getPublicKey();
+        return {
+            algorithm: 'Ed25519',
+            format: PAYLOAD_PREFIX,
+            keyId: crypto.createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16),
+            publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+        };
+    }
+}
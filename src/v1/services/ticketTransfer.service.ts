@@ -0,0 +1,377 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../config/database';
+import { NotificationService } from './notification.service';
+import { emailQueue } from '../jobs/email.queue';
+
+const TRANSFER_WINDOW_HOURS = 72; // how long the recipient has to accept before the offer lapses
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://eventfi.live';
+
+const transferInclude = {
+    attendee: {
+        include: {
+            ticket: { select: { name: true, allowTransfers: true, transferCutoffHours: true } },
+            order: {
+                select: {
+                    userId: true,
+                    status: true,
+                    refundRequest: { select: { status: true } },
+                    event: { select: { id: true, title: true, startDate: true, status: true, organizerId: true } },
+                },
+            },
+        },
+    },
+    fromUser: { select: { displayName: true, email: true } },
+} as const;
+
+type TransferableAttendee = {
+    status: string;
+    checkedIn: boolean;
+    ticket: { allowTransfers: boolean; transferCutoffHours: number };
+    order: {
+        status: string;
+        refundRequest: { status: string } | null;
+        event: { startDate: Date; status: string };
+    };
+};
+
+/** The attendee ticket's owner: whoever it was last transferred to, otherwise the buyer. */
+function holderOf(attendee: { holderId: string | null; order: { userId: string } }) {
+    return attendee.holderId ?? attendee.order.userId;
+}
+
+/** When transfers close for this ticket type — the event start minus the organizer's cutoff. */
+function transferCutoff(attendee: TransferableAttendee) {
+    const cutoffMs = attendee.ticket.transferCutoffHours * 60 * 60 * 1000;
+    return new Date(attendee.order.event.startDate.getTime() - cutoffMs);
+}
+
+function assertTransferable(attendee: TransferableAttendee) {
+    if (attendee.order.status !== 'CONFIRMED') throw new Error('Only tickets from confirmed orders can be transferred');
+    if (attendee.order.event.status === 'CANCELLED') throw new Error('Tickets for a cancelled event cannot be transferred');
+    if (attendee.status !== 'valid' || attendee.checkedIn) throw new Error('This ticket cannot be transferred');
+    if (!attendee.ticket.allowTransfers) throw new Error('The organizer does not allow transfers for this ticket type');
+    if (transferCutoff(attendee) <= new Date()) throw new Error('Transfers for this event are closed');
+
+    const refundStatus = attendee.order.refundRequest?.status;
+    if (refundStatus === 'PENDING' || refundStatus === 'PROCESSING') {
+        throw new Error('This ticket cannot be transferred while a refund is in progress');
+    }
+}
+
+export class TicketTransferService {
+    /**
+     * Offer an attendee ticket to someone else by email. The ticket stays with the
+     * current holder until the recipient accepts; starting a new transfer replaces
+     * any pending one.
+     */
+    static async initiate(attendeeId: string, userId: string, toEmail: string, toName?: string) {
+        const attendee = await prisma.attendee.findUnique({
+            where: { id: attendeeId },
+            include: transferInclude.attendee.include,
+        });
+
+        if (!attendee) throw new Error('Ticket not found');
+        if (holderOf(attendee) !== userId) throw new Error('Unauthorized');
+        assertTransferable(attendee);
+
+        const sender = await prisma.user.findUniqueOrThrow({
+            where: { id: userId },
+            select: { email: true, displayName: true },
+        });
+
+        const email = toEmail.trim().toLowerCase();
+        if (email === sender.email.toLowerCase()) throw new Error('You cannot transfer a ticket to yourself');
+
+        const now = new Date();
+        const windowEnd = new Date(now.getTime() + TRANSFER_WINDOW_HOURS * 60 * 60 * 1000);
+        const cutoff = transferCutoff(attendee);
+
+        const transfer = await prisma.$transaction(async (tx) => {
+            await tx.ticketTransfer.updateMany({
+                where: { attendeeId, status: 'PENDING' },
+                data: { status: 'CANCELLED' },
+            });
+
+            return tx.ticketTransfer.create({
+                data: {
+                    attendeeId,
+                    eventId: attendee.order.event.id,
+                    fromUserId: userId,
+                    toEmail: email,
+                    toName: toName?.trim() || null,
+                    token: crypto.randomBytes(24).toString('hex'),
+                    expiresAt: cutoff < windowEnd ? cutoff : windowEnd,
+                    oldTicketCode: attendee.ticketCode,
+                },
+            });
+        });
+
+        const senderName = sender.displayName || sender.email;
+        const acceptPath = `/tickets/transfers/${transfer.token}`;
+        const recipient = await prisma.user.findFirst({
+            where: { email: { equals: email, mode: 'insensitive' } },
+            select: { id: true },
+        });
+
+        if (recipient) {
+            NotificationService.create({
+                userId: recipient.id,
+                type: 'TICKET_TRANSFER',
+                title: 'Someone sent you a ticket',
+                message: `${senderName} wants to transfer their "${attendee.ticket.name}" ticket for "${attendee.order.event.title}" to you.`,
+                actionUrl: acceptPath,
+                metadata: { eventId: attendee.order.event.id, transferId: transfer.id },
+            }).catch(() => {});
+        }
+
+        emailQueue.add('ticket-transfer-offer', {
+            type: 'ticket-transfer-offer',
+            to: email,
+            name: transfer.toName,
+            eventTitle: attendee.order.event.title,
+            ticketName: attendee.ticket.name,
+            senderName,
+            acceptUrl: `${FRONTEND_URL}${acceptPath}`,
+            expiresAt: transfer.expiresAt.toUTCString(),
+        }).catch(err => console.error('Failed to queue ticket-transfer-offer email:', err));
+
+        return this.formatTransfer(transfer);
+    }
+
+    /**
+     * Withdraw the pending transfer on a ticket.
+     */
+    static async cancel(attendeeId: string, userId: string) {
+        const cancelled = await prisma.ticketTransfer.updateMany({
+            where: { attendeeId, fromUserId: userId, status: 'PENDING' },
+            data: { status: 'CANCELLED' },
+        });
+        if (cancelled.count === 0) throw new Error('No pending transfer found for this ticket');
+
+        return { attendeeId, status: 'cancelled' };
+    }
+
+    /**
+     * Pending transfers the caller has sent, and those waiting for them to accept.
+     */
+    static async listForUser(userId: string) {
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+        const now = new Date();
+
+        const [sent, received] = await prisma.$transaction([
+            prisma.ticketTransfer.findMany({
+                where: { fromUserId: userId, status: 'PENDING', expiresAt: { gt: now } },
+                include: transferInclude,
+                orderBy: { createdAt: 'desc' },
+            }),
+            prisma.ticketTransfer.findMany({
+                where: { toEmail: user.email.toLowerCase(), status: 'PENDING', expiresAt: { gt: now } },
+                include: transferInclude,
+                orderBy: { createdAt: 'desc' },
+            }),
+        ]);
+
+        return {
+            sent: sent.map(t => this.formatTransfer(t)),
+            received: received.map(t => ({ ...this.formatTransfer(t), token: t.token })),
+        };
+    }
+
+    /**
+     * What the recipient sees before accepting. Only the sender or the addressee can view it.
+     */
+    static async getByToken(token: string, userId: string) {
+        const transfer = await prisma.ticketTransfer.findUnique({ where: { token }, include: transferInclude });
+        if (!transfer) throw new Error('Transfer not found');
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+        if (transfer.fromUserId !== userId && transfer.toEmail !== user.email.toLowerCase()) {
+            throw new Error('Unauthorized');
+        }
+
+        return this.formatTransfer(transfer);
+    }
+
+    /**
+     * Accept a transfer: the ticket moves to the recipient under a new ticket code, so the
+     * code the sender holds stops working at the door.
+     */
+    static async accept(token: string, userId: string) {
+        const transfer = await prisma.ticketTransfer.findUnique({ where: { token }, include: transferInclude });
+        if (!transfer) throw new Error('Transfer not found');
+
+        const recipient = await prisma.user.findUniqueOrThrow({
+            where: { id: userId },
+            select: { email: true, displayName: true },
+        });
+        if (transfer.toEmail !== recipient.email.toLowerCase()) {
+            throw new Error('This transfer was sent to a different email address');
+        }
+        if (transfer.status !== 'PENDING') throw new Error(`This transfer has already been ${transfer.status.toLowerCase()}`);
+        if (transfer.expiresAt <= new Date()) {
+            await this.expire(transfer.id);
+            throw new Error('This transfer has expired');
+        }
+
+        assertTransferable(transfer.attendee);
+
+        const now = new Date();
+        const newTicketCode = `EVF-TKT-${uuidv4().substring(0, 8).toUpperCase()}`;
+        const recipientName = recipient.displayName || transfer.toName || recipient.email;
+
+        await prisma.$transaction(async (tx) => {
+            const claimed = await tx.ticketTransfer.updateMany({
+                where: { id: transfer.id, status: 'PENDING' },
+                data: { status: 'ACCEPTED', toUserId: userId, acceptedAt: now, newTicketCode },
+            });
+            if (claimed.count === 0) throw new Error('This transfer was just changed — please refresh');
+
+            // Guarded on the code the transfer was offered against, so a ticket that was
+            // checked in, voided or re-issued in the meantime cannot change hands
+            const moved = await tx.attendee.updateMany({
+                where: { id: transfer.attendeeId, ticketCode: transfer.oldTicketCode, status: 'valid', checkedIn: false },
+                data: {
+                    ticketCode: newTicketCode,
+                    holderId: userId,
+                    name: recipientName,
+                    email: recipient.email,
+                    transferredAt: now,
+                },
+            });
+            if (moved.count === 0) throw new Error('This ticket can no longer be transferred');
+        });
+
+        this.notifyCompleted(transfer, { id: userId, email: recipient.email, name: recipientName }, newTicketCode);
+
+        return {
+            ...this.formatTransfer({ ...transfer, status: 'ACCEPTED', acceptedAt: now }),
+            ticketId: transfer.attendeeId,
+            ticketCode: newTicketCode,
+        };
+    }
+
+    /**
+     * Turn a transfer down. The ticket stays with the sender.
+     */
+    static async decline(token: string, userId: string) {
+        const transfer = await prisma.ticketTransfer.findUnique({ where: { token }, include: transferInclude });
+        if (!transfer) throw new Error('Transfer not found');
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+        if (transfer.toEmail !== user.email.toLowerCase()) {
+            throw new Error('This transfer was sent to a different email address');
+        }
+
+        const declined = await prisma.ticketTransfer.updateMany({
+            where: { id: transfer.id, status: 'PENDING' },
+            data: { status: 'DECLINED' },
+        });
+        if (declined.count === 0) throw new Error(`This transfer has already been ${transfer.status.toLowerCase()}`);
+
+        NotificationService.create({
+            userId: transfer.fromUserId,
+            type: 'TICKET_TRANSFER',
+            title: 'Ticket transfer declined',
+            message: `${transfer.toEmail} declined your "${transfer.attendee.ticket.name}" ticket for "${transfer.attendee.order.event.title}". It's still yours.`,
+            actionUrl: `/tickets/${transfer.attendeeId}`,
+            metadata: { eventId: transfer.eventId, transferId: transfer.id },
+        }).catch(() => {});
+
+        return this.formatTransfer({ ...transfer, status: 'DECLINED' });
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async expire(transferId: string) {
+        await prisma.ticketTransfer.updateMany({
+            where: { id: transferId, status: 'PENDING' },
+            data: { status: 'EXPIRED' },
+        });
+    }
+
+    private static notifyCompleted(
+        transfer: {
+            id: string;
+            eventId: string;
+            fromUserId: string;
+            attendeeId: string;
+            fromUser: { displayName: string | null; email: string };
+            attendee: { ticket: { name: string }; order: { event: { title: string; organizerId: string } } };
+        },
+        recipient: { id: string; email: string; name: string },
+        newTicketCode: string
+    ) {
+        const senderName = transfer.fromUser.displayName || transfer.fromUser.email;
+        const ticketName = transfer.attendee.ticket.name;
+        const event = transfer.attendee.order.event;
+        const metadata = { eventId: transfer.eventId, transferId: transfer.id, attendeeId: transfer.attendeeId };
+
+        NotificationService.create({
+            userId: transfer.fromUserId,
+            type: 'TICKET_TRANSFER',
+            title: 'Ticket transferred',
+            message: `${recipient.name} accepted your "${ticketName}" ticket for "${event.title}".`,
+            metadata,
+        }).catch(() => {});
+
+        NotificationService.create({
+            userId: recipient.id,
+            type: 'TICKET_TRANSFER',
+            title: 'Ticket received',
+            message: `Your "${ticketName}" ticket for "${event.title}" from ${senderName} is ready.`,
+            actionUrl: `/tickets/${transfer.attendeeId}`,
+            metadata,
+        }).catch(() => {});
+
+        NotificationService.create({
+            userId: event.organizerId,
+            type: 'TICKET_TRANSFER',
+            title: 'Ticket transferred',
+            message: `A "${ticketName}" ticket for "${event.title}" was transferred from ${senderName} to ${recipient.name}.`,
+            actionUrl: `/manage/events/${transfer.eventId}/attendees`,
+            metadata,
+        }).catch(() => {});
+
+        emailQueue.add('ticket-transfer-completed', {
+            type: 'ticket-transfer-completed',
+            to: transfer.fromUser.email,
+            name: transfer.fromUser.displayName,
+            eventTitle: event.title,
+            ticketName,
+            counterpartName: recipient.name,
+        }).catch(err => console.error('Failed to queue ticket-transfer-completed email:', err));
+
+        emailQueue.add('ticket-transfer-completed', {
+            type: 'ticket-transfer-completed',
+            to: recipient.email,
+            name: recipient.name,
+            eventTitle: event.title,
+            ticketName,
+            counterpartName: senderName,
+            ticketCode: newTicketCode,
+        }).catch(err => console.error('Failed to queue ticket-transfer-completed email:', err));
+    }
+
+    private static formatTransfer(transfer: any) {
+        const expired = transfer.status === 'PENDING' && transfer.expiresAt <= new Date();
+        return {
+            id: transfer.id,
+            ticketId: transfer.attendeeId,
+            eventId: transfer.eventId,
+            event: transfer.attendee ? {
+                id: transfer.attendee.order.event.id,
+                title: transfer.attendee.order.event.title,
+                startDate: transfer.attendee.order.event.startDate,
+            } : undefined,
+            ticketType: transfer.attendee?.ticket.name,
+            from: transfer.fromUser ? { name: transfer.fromUser.displayName } : undefined,
+            toEmail: transfer.toEmail,
+            toName: transfer.toName,
+            status: (expired ? 'EXPIRED' : transfer.status).toLowerCase(),
+            expiresAt: transfer.expiresAt.toISOString(),
+            acceptedAt: transfer.acceptedAt?.toISOString() ?? null,
+            createdAt: transfer.createdAt.toISOString(),
+        };
+    }
+}
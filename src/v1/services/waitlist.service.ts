@@ -0,0 +1,416 @@
+import crypto from 'crypto';
+import { Prisma, WaitlistStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ManageService } from './manage.service';
+import { NotificationService } from './notification.service';
+import { emailQueue } from '../jobs/email.queue';
+
+const OFFER_WINDOW_HOURS = 6; // how long released tickets are held for the person at the front of the queue
+const DEFAULT_MAX_PER_ENTRY = 10;
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://eventfi.live';
+
+export interface WaitlistOffer {
+    entryId: string;
+    ticketId: string;
+    quantity: number;
+}
+
+export class WaitlistService {
+    /**
+     * Get the caller's place on a ticket type's waitlist, or null if they never joined.
+     */
+    static async getStatus(eventId: string, ticketId: string, userId: string) {
+        const entry = await prisma.waitlistEntry.findUnique({
+            where: { ticketId_userId: { ticketId, userId } }
+        });
+        if (!entry || entry.eventId !== eventId) return null;
+
+        return {
+            ...this.formatEntry(entry, await this.positionOf(entry)),
+            // Lets the app offer an in-page claim button as well as the emailed link
+            offerToken: entry.status === 'OFFERED' ? entry.offerToken : null,
+        };
+    }
+
+    /**
+     * Join the waitlist for a sold-out ticket type. Users who previously left or let
+     * an offer lapse rejoin at the back of the queue.
+     */
+    static async join(eventId: string, ticketId: string, userId: string, quantity: number) {
+        const ticket = await prisma.ticket.findUnique({
+            where: { id: ticketId },
+            include: { event: { select: { status: true, endDate: true } } }
+        });
+        if (!ticket || ticket.eventId !== eventId) throw new Error('Ticket not found');
+        if (ticket.event.status === 'CANCELLED' || ticket.event.endDate.getTime() < Date.now()) {
+            throw new Error('This event is no longer accepting waitlist entries');
+        }
+
+        const maxPerEntry = ticket.maxPerUser || DEFAULT_MAX_PER_ENTRY;
+        if (quantity > maxPerEntry) throw new Error(`Maximum ${maxPerEntry} tickets per waitlist entry for ${ticket.name}`);
+        if (ticket.remaining >= quantity) throw new Error('Tickets are still available — book them directly');
+
+        const existing = await prisma.waitlistEntry.findUnique({
+            where: { ticketId_userId: { ticketId, userId } }
+        });
+        if (existing && (existing.status === 'WAITING' || existing.status === 'OFFERED')) {
+            throw new Error('You are already on the waitlist for this ticket');
+        }
+
+        try {
+            const entry = existing
+                ? await prisma.waitlistEntry.update({
+                    where: { id: existing.id },
+                    data: {
+                        quantity,
+                        status: 'WAITING',
+                        joinedAt: new Date(),
+                        offerToken: null,
+                        offeredAt: null,
+                        offerExpiresAt: null,
+                        claimedOrderId: null,
+                    }
+                })
+                : await prisma.waitlistEntry.create({
+                    data: { eventId, ticketId, userId, quantity }
+                });
+
+            return this.formatEntry(entry, await this.positionOf(entry));
+        } catch (error: any) {
+            if (error.code === 'P2002') throw new Error('You are already on the waitlist for this ticket');
+            throw error;
+        }
+    }
+
+    /**
+     * Leave a waitlist. Leaving while holding an offer hands the held tickets to the
+     * next person in line.
+     */
+    static async leave(eventId: string, ticketId: string, userId: string) {
+        const entry = await prisma.waitlistEntry.findUnique({
+            where: { ticketId_userId: { ticketId, userId } }
+        });
+        if (!entry || entry.eventId !== eventId || (entry.status !== 'WAITING' && entry.status !== 'OFFERED')) {
+            throw new Error('You are not on the waitlist for this ticket');
+        }
+
+        await this.cancelEntry(entry.id, entry.status);
+        return { message: 'You have left the waitlist' };
+    }
+
+    /**
+     * Hand released inventory to the front of each ticket type's queue: every entry
+     * that fits in the remaining stock gets its tickets held and a time-boxed claim link.
+     * Called whenever inventory goes back into the pool (cancellation, expiry, refund,
+     * organizer raising quantity, lapsed offers). Safe to call when nobody is waiting.
+     */
+    static async offerReleasedTickets(ticketIds: string[]) {
+        let offered = 0;
+        for (const ticketId of new Set(ticketIds)) {
+            offered += await this.offerForTicket(ticketId);
+        }
+        return offered;
+    }
+
+    /**
+     * Validate a claim link before an order is created from it. The offer is only
+     * consumed later, inside the order transaction, via markClaimed.
+     */
+    static async getClaimableOffer(eventId: string, ticketId: string, userId: string, token: string): Promise<WaitlistOffer> {
+        const entry = await prisma.waitlistEntry.findUnique({ where: { offerToken: token } });
+        if (!entry || entry.eventId !== eventId || entry.ticketId !== ticketId) throw new Error('Waitlist offer not found');
+        if (entry.userId !== userId) throw new Error('Unauthorized');
+        if (entry.status !== 'OFFERED' || !entry.offerExpiresAt || entry.offerExpiresAt.getTime() <= Date.now()) {
+            throw new Error('This waitlist offer has expired');
+        }
+
+        return { entryId: entry.id, ticketId: entry.ticketId, quantity: entry.quantity };
+    }
+
+    /**
+     * Consume an offer as part of the order-creation transaction. The conditional
+     * update guarantees an offer is turned into at most one order, and never after
+     * the expiry sweep has handed its tickets to someone else.
+     */
+    static async markClaimed(tx: Prisma.TransactionClient, entryId: string, orderId: string) {
+        const claimed = await tx.waitlistEntry.updateMany({
+            where: { id: entryId, status: 'OFFERED', offerExpiresAt: { gt: new Date() } },
+            data: { status: 'CLAIMED', claimedOrderId: orderId, offerToken: null }
+        });
+        if (claimed.count === 0) throw new Error('This waitlist offer has expired');
+    }
+
+    /**
+     * Expire lapsed offers, return their held tickets to the pool and pass them on to
+     * the next person in line. Called by the waitlist scheduler.
+     */
+    static async expireOffers() {
+        const lapsed = await prisma.waitlistEntry.findMany({
+            where: { status: 'OFFERED', offerExpiresAt: { lt: new Date() } },
+            select: { id: true, ticketId: true, quantity: true },
+            take: 200,
+        });
+
+        const released: string[] = [];
+        for (const entry of lapsed) {
+            const expired = await prisma.$transaction(async (tx) => {
+                const updated = await tx.waitlistEntry.updateMany({
+                    where: { id: entry.id, status: 'OFFERED', offerExpiresAt: { lt: new Date() } },
+                    data: { status: 'EXPIRED', offerToken: null }
+                });
+                if (updated.count === 0) return false;
+
+                await tx.ticket.update({
+                    where: { id: entry.ticketId },
+                    data: { remaining: { increment: entry.quantity } }
+                });
+                return true;
+            });
+            if (expired) released.push(entry.ticketId);
+        }
+
+        if (released.length > 0) await this.offerReleasedTickets(released);
+        return released.length;
+    }
+
+    // ─── Organizer management ─────────────────────────────────────────────────
+
+    /**
+     * List an event's waitlist, optionally filtered by ticket type or status, with
+     * per-ticket queue totals.
+     */
+    static async listForEvent(eventId: string, userId: string, filters: { ticketId?: string; status?: WaitlistStatus } = {}) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        const entries = await prisma.waitlistEntry.findMany({
+            where: {
+                eventId,
+                ...(filters.ticketId ? { ticketId: filters.ticketId } : {}),
+                ...(filters.status ? { status: filters.status } : {}),
+            },
+            include: {
+                user: { select: { id: true, displayName: true, email: true, avatar: true } },
+                ticket: { select: { id: true, name: true, remaining: true } },
+            },
+            orderBy: [{ ticketId: 'asc' }, { joinedAt: 'asc' }],
+        });
+
+        const grouped = await prisma.waitlistEntry.groupBy({
+            by: ['ticketId', 'status'],
+            where: { eventId, status: { in: ['WAITING', 'OFFERED'] } },
+            _sum: { quantity: true },
+            _count: { _all: true },
+        });
+
+        const summary: Record<string, { waiting: number; waitingQuantity: number; offered: number; offeredQuantity: number }> = {};
+        for (const row of grouped) {
+            const s = summary[row.ticketId] ??= { waiting: 0, waitingQuantity: 0, offered: 0, offeredQuantity: 0 };
+            if (row.status === 'WAITING') {
+                s.waiting = row._count._all;
+                s.waitingQuantity = row._sum.quantity ?? 0;
+            } else {
+                s.offered = row._count._all;
+                s.offeredQuantity = row._sum.quantity ?? 0;
+            }
+        }
+
+        // Positions are only meaningful for WAITING entries, counted per ticket type
+        const positions = new Map<string, number>();
+        const counters = new Map<string, number>();
+        for (const e of entries) {
+            if (e.status !== 'WAITING') continue;
+            const next = (counters.get(e.ticketId) ?? 0) + 1;
+            counters.set(e.ticketId, next);
+            positions.set(e.id, next);
+        }
+
+        return {
+            summary,
+            entries: entries.map(e => ({
+                ...this.formatEntry(e, filters.status && filters.status !== 'WAITING' ? null : positions.get(e.id) ?? null),
+                user: e.user,
+                ticketName: e.ticket.name,
+            })),
+        };
+    }
+
+    /**
+     * Remove someone from the waitlist. Any tickets held for them go to the next in line.
+     */
+    static async removeEntry(eventId: string, entryId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId } });
+        if (!entry || entry.eventId !== eventId) throw new Error('Waitlist entry not found');
+        if (entry.status !== 'WAITING' && entry.status !== 'OFFERED') {
+            throw new Error('Only waiting or offered entries can be removed');
+        }
+
+        await this.cancelEntry(entry.id, entry.status);
+        return { message: 'Waitlist entry removed' };
+    }
+
+    /**
+     * Send a claim offer to a specific entry out of queue order, e.g. for a VIP.
+     * Requires enough unreserved stock to hold the entry's tickets.
+     */
+    static async offerEntry(eventId: string, entryId: string, userId: string) {
+        await ManageService.checkEventAccess(userId, eventId, 'canManageAttendees');
+
+        const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId } });
+        if (!entry || entry.eventId !== eventId) throw new Error('Waitlist entry not found');
+        if (entry.status !== 'WAITING') throw new Error('Only waiting entries can be sent an offer');
+
+        const offered = await this.tryOffer(entry.id, entry.ticketId, entry.quantity);
+        if (!offered) throw new Error('Not enough tickets available to make this offer');
+
+        return this.formatEntry(offered, null);
+    }
+
+    // ─── Internals ────────────────────────────────────────────────────────────
+
+    private static async offerForTicket(ticketId: string) {
+        const ticket = await prisma.ticket.findUnique({
+            where: { id: ticketId },
+            select: { remaining: true, event: { select: { status: true, startDate: true } } }
+        });
+        if (!ticket || ticket.remaining <= 0) return 0;
+        // No point holding tickets for an event that has started or been called off
+        if (ticket.event.status === 'CANCELLED' || ticket.event.startDate.getTime() <= Date.now()) return 0;
+
+        const candidates = await prisma.waitlistEntry.findMany({
+            where: { ticketId, status: 'WAITING', quantity: { lte: ticket.remaining } },
+            orderBy: { joinedAt: 'asc' },
+            take: ticket.remaining,
+        });
+
+        let offered = 0;
+        for (const candidate of candidates) {
+            const entry = await this.tryOffer(candidate.id, ticketId, candidate.quantity);
+            if (entry) offered++;
+        }
+        return offered;
+    }
+
+    /**
+     * Hold `quantity` tickets for an entry and mark it OFFERED, as one transaction.
+     * Returns null (and changes nothing) if the stock or the entry moved underneath us.
+     */
+    private static async tryOffer(entryId: string, ticketId: string, quantity: number) {
+        const offerToken = crypto.randomBytes(32).toString('hex');
+        const offeredAt = new Date();
+        const offerExpiresAt = new Date(offeredAt.getTime() + OFFER_WINDOW_HOURS * 60 * 60 * 1000);
+
+        const entry = await prisma.$transaction(async (tx) => {
+            const held = await tx.ticket.updateMany({
+                where: { id: ticketId, remaining: { gte: quantity } },
+                data: { remaining: { decrement: quantity } }
+            });
+            if (held.count === 0) return null;
+
+            const marked = await tx.waitlistEntry.updateMany({
+                where: { id: entryId, status: 'WAITING' },
+                data: { status: 'OFFERED', offerToken, offeredAt, offerExpiresAt }
+            });
+            if (marked.count === 0) {
+                await tx.ticket.update({
+                    where: { id: ticketId },
+                    data: { remaining: { increment: quantity } }
+                });
+                return null;
+            }
+
+            return tx.waitlistEntry.findUnique({
+                where: { id: entryId },
+                include: {
+                    user: { select: { email: true, displayName: true } },
+                    ticket: { select: { name: true } },
+                    event: { select: { id: true, title: true } },
+                }
+            });
+        });
+
+        if (entry) this.notifyOffer(entry);
+        return entry;
+    }
+
+    private static async cancelEntry(entryId: string, currentStatus: WaitlistStatus) {
+        const released = await prisma.$transaction(async (tx) => {
+            const updated = await tx.waitlistEntry.updateMany({
+                where: { id: entryId, status: currentStatus },
+                data: { status: 'CANCELLED', offerToken: null }
+            });
+            if (updated.count === 0) throw new Error('This waitlist entry has just changed — please try again');
+
+            if (currentStatus !== 'OFFERED') return null;
+            const entry = await tx.waitlistEntry.findUniqueOrThrow({ where: { id: entryId } });
+            await tx.ticket.update({
+                where: { id: entry.ticketId },
+                data: { remaining: { increment: entry.quantity } }
+            });
+            return entry.ticketId;
+        });
+
+        if (released) {
+            this.offerReleasedTickets([released])
+                .catch(err => console.error('[Waitlist] Failed to pass on released offer:', err));
+        }
+    }
+
+    private static notifyOffer(entry: {
+        id: string;
+        userId: string;
+        ticketId: string;
+        quantity: number;
+        offerToken: string | null;
+        offerExpiresAt: Date | null;
+        user: { email: string; displayName: string | null };
+        ticket: { name: string };
+        event: { id: string; title: string };
+    }) {
+        const claimPath = `/events/${entry.event.id}/waitlist/claim?ticketId=${entry.ticketId}&token=${entry.offerToken}`;
+        const ticketLabel = `${entry.quantity} "${entry.ticket.name}" ticket${entry.quantity > 1 ? 's' : ''}`;
+
+        NotificationService.create({
+            userId: entry.userId,
+            type: 'WAITLIST_OFFER',
+            title: 'Tickets are available for you',
+            message: `${ticketLabel} for "${entry.event.title}" are being held for you for ${OFFER_WINDOW_HOURS} hours. Claim them before they go to the next person in line.`,
+            actionUrl: claimPath,
+            metadata: { eventId: entry.event.id, ticketId: entry.ticketId, waitlistEntryId: entry.id },
+        }).catch(() => {});
+
+        emailQueue.add('waitlist-offer', {
+            type: 'waitlist-offer',
+            to: entry.user.email,
+            name: entry.user.displayName,
+            eventTitle: entry.event.title,
+            ticketName: entry.ticket.name,
+            quantity: entry.quantity,
+            claimUrl: `${FRONTEND_URL}${claimPath}`,
+            expiresAt: entry.offerExpiresAt?.toUTCString(),
+        }).catch(err => console.error('Failed to queue waitlist-offer email:', err));
+    }
+
+    private static async positionOf(entry: { ticketId: string; status: WaitlistStatus; joinedAt: Date }) {
+        if (entry.status !== 'WAITING') return null;
+        const ahead = await prisma.waitlistEntry.count({
+            where: { ticketId: entry.ticketId, status: 'WAITING', joinedAt: { lt: entry.joinedAt } }
+        });
+        return ahead + 1;
+    }
+
+    private static formatEntry(entry: any, position: number | null) {
+        return {
+            id: entry.id,
+            eventId: entry.eventId,
+            ticketId: entry.ticketId,
+            quantity: entry.quantity,
+            status: entry.status.toLowerCase(),
+            position,
+            joinedAt: entry.joinedAt.toISOString(),
+            offerExpiresAt: entry.status === 'OFFERED' ? entry.offerExpiresAt?.toISOString() ?? null : null,
+            claimedOrderId: entry.claimedOrderId,
+        };
+    }
+}
@@ -0,0 +1,166 @@
+import { Prisma, WebhookEventStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { PaymentService, PaymentProvider, PaymentProviderName, PaymentWebhookEvent } from './payment.service';
+import { BookingService } from './booking.service';
+import { PayoutService } from './payout.service';
+
+// A run still PROCESSING after this long is assumed to have died with its process
+const STALE_PROCESSING_MINUTES = 5;
+
+export class WebhookService {
+    /**
+     * Log a verified provider webhook and process it — once. Redeliveries of an event that
+     * was already processed (or is being processed right now) are counted and acknowledged
+     * without touching the booking flow; redeliveries of a failed event retry it.
+     */
+    static async receive(provider: PaymentProvider, body: any) {
+        return this.log(provider.name, 'webhook', provider.parseWebhook(body), body);
+    }
+
+    /**
+     * Apply a charge outcome found by verifying a reference directly with the provider, through
+     * the same log and handlers as a webhook. Used by reconciliation when a webhook went missing.
+     */
+    static async applyVerified(provider: PaymentProviderName, charge: PaymentWebhookEvent) {
+        return this.log(provider, 'reconciliation', charge, charge);
+    }
+
+    /**
+     * Re-run a stored webhook through the booking flow, whatever its status. The handlers
+     * are idempotent, so replaying an event that did go through is harmless.
+     */
+    static async replay(id: string, adminId: string) {
+        const record = await prisma.webhookEvent.findUnique({ where: { id } });
+        if (!record) throw new Error('Webhook event not found');
+
+        await prisma.webhookEvent.update({
+            where: { id },
+            data: { lastReplayedById: adminId, lastReplayedAt: new Date() },
+        });
+
+        try {
+            await this.process(id, ['RECEIVED', 'FAILED', 'PROCESSED', 'IGNORED'], true);
+        } catch {
+            // Recorded on the event as lastError — returned to the admin below
+        }
+        return prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+    }
+
+    static async list(filters: { status?: string; provider?: string; reference?: string; page?: number; limit?: number } = {}) {
+        const page = filters.page || 1;
+        const limit = filters.limit || 20;
+        const status = filters.status?.toUpperCase();
+        if (status && !(status in WebhookEventStatus)) throw new Error(`Invalid status: ${filters.status}`);
+
+        const where: Prisma.WebhookEventWhereInput = {
+            ...(status && { status: status as WebhookEventStatus }),
+            ...(filters.provider && { provider: filters.provider }),
+            ...(filters.reference && { reference: filters.reference }),
+        };
+
+        const [total, events, counts] = await Promise.all([
+            prisma.webhookEvent.count({ where }),
+            prisma.webhookEvent.findMany({
+                where,
+                skip: (page - 1) * limit,
+                take: limit,
+                orderBy: { receivedAt: 'desc' },
+                select: {
+                    id: true, provider: true, source: true, eventType: true, reference: true, status: true,
+                    attempts: true, deliveries: true, lastError: true,
+                    receivedAt: true, lastReceivedAt: true, processedAt: true, lastReplayedAt: true,
+                },
+            }),
+            prisma.webhookEvent.groupBy({ by: ['status'], _count: { _all: true } }),
+        ]);
+
+        return {
+            meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+            summary: Object.fromEntries(counts.map(c => [c.status, c._count._all])),
+            data: events,
+        };
+    }
+
+    static async get(id: string) {
+        const record = await prisma.webhookEvent.findUnique({ where: { id } });
+        if (!record) throw new Error('Webhook event not found');
+        return record;
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private static async log(provider: PaymentProviderName, source: 'webhook' | 'reconciliation', event: PaymentWebhookEvent, payload: any) {
+        const ignored = event.type === 'ignored';
+
+        let record;
+        try {
+            record = await prisma.webhookEvent.create({
+                data: {
+                    provider,
+                    source,
+                    eventKey: event.eventKey,
+                    eventType: event.providerEvent,
+                    reference: event.reference ?? null,
+                    payload,
+                    status: ignored ? 'IGNORED' : 'RECEIVED',
+                    processedAt: ignored ? new Date() : null,
+                },
+            });
+        } catch (error: any) {
+            if (error.code !== 'P2002') throw error;
+            record = await prisma.webhookEvent.update({
+                where: { provider_eventKey: { provider, eventKey: event.eventKey } },
+                data: { deliveries: { increment: 1 }, lastReceivedAt: new Date() },
+            });
+        }
+
+        if (record.status === 'IGNORED') return { received: true };
+        return this.process(record.id, ['RECEIVED', 'FAILED']);
+    }
+
+    /**
+     * Claim the event (a conditional status flip, so concurrent deliveries can't both run it),
+     * hand it to the booking flow (or the payout flow, for transfers), and record the outcome.
+     */
+    private static async process(id: string, from: WebhookEventStatus[], replay = false) {
+        const staleBefore = new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000);
+        const claimed = await prisma.webhookEvent.updateMany({
+            where: {
+                id,
+                OR: [
+                    { status: { in: from } },
+                    { status: 'PROCESSING', startedAt: { lt: staleBefore } },
+                ],
+            },
+            data: { status: 'PROCESSING', startedAt: new Date(), attempts: { increment: 1 } },
+        });
+        if (claimed.count === 0) {
+            if (replay) throw new Error('Webhook event is already being processed');
+            return { received: true, duplicate: true };
+        }
+
+        const record = await prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+        try {
+            const provider = PaymentService.provider(record.provider);
+            // Reconciliation stores the already-normalized event; webhooks store the provider's body
+            const charge = record.source === 'reconciliation'
+                ? record.payload as unknown as PaymentWebhookEvent
+                : provider.parseWebhook(record.payload);
+            const result = charge.type === 'transfer.success' || charge.type === 'transfer.failed'
+                ? await PayoutService.handleTransferWebhook(provider.name, charge)
+                : await BookingService.handlePaymentWebhook(provider.name, charge);
+
+            await prisma.webhookEvent.update({
+                where: { id },
+                data: { status: 'PROCESSED', processedAt: new Date(), lastError: null, result },
+            });
+            return result;
+        } catch (error: any) {
+            await prisma.webhookEvent.update({
+                where: { id },
+                data: { status: 'FAILED', lastError: error.message || 'Processing failed' },
+            });
+            throw error;
+        }
+    }
+}
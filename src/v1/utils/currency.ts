@@ -0,0 +1,81 @@
+/**
+ * Currencies tickets can be priced in, and how each one is charged.
+ * Amounts are stored in major units (naira, cedis, ...) everywhere in the app; the
+ * payment provider works in minor units, so convert only at that boundary.
+ */
+export const SUPPORTED_CURRENCIES = ['NGN', 'GHS', 'KES', 'ZAR', 'USD'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+export const BASE_CURRENCY: CurrencyCode = 'NGN';
+
+interface CurrencyConfig {
+    symbol: string;
+    minorUnits: number; // minor units per major unit (kobo per naira, cents per dollar)
+    priceDecimals: number; // precision fees, discounts, refunds and installments are rounded to
+    serviceFeeFlat: number; // flat part of the platform fee — covers the provider's per-transaction charge
+    vatRate: number; // VAT the platform charges on its service fee, shown on receipts
+}
+
+const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
+    NGN: { symbol: '₦', minorUnits: 100, priceDecimals: 0, serviceFeeFlat: 200, vatRate: 0.075 },
+    GHS: { symbol: 'GH₵', minorUnits: 100, priceDecimals: 2, serviceFeeFlat: 2, vatRate: 0.15 },
+    KES: { symbol: 'KSh', minorUnits: 100, priceDecimals: 0, serviceFeeFlat: 20, vatRate: 0.16 },
+    ZAR: { symbol: 'R', minorUnits: 100, priceDecimals: 2, serviceFeeFlat: 3, vatRate: 0.15 },
+    USD: { symbol: '$', minorUnits: 100, priceDecimals: 2, serviceFeeFlat: 0.3, vatRate: 0 },
+};
+
+export function isSupportedCurrency(value: string): value is CurrencyCode {
+    return (SUPPORTED_CURRENCIES as readonly string[]).includes(value);
+}
+
+function configFor(currency: string): CurrencyConfig {
+    if (!isSupportedCurrency(currency)) throw new Error(`Unsupported currency: ${currency}`);
+    return CURRENCIES[currency];
+}
+
+/** Rounding never throws, so orders recorded before a currency was validated can still be refunded. */
+function decimalsFor(currency: string): number {
+    return isSupportedCurrency(currency) ? CURRENCIES[currency].priceDecimals : 2;
+}
+
+/** Major → minor units, e.g. ₦1,500.50 → 150050 kobo. */
+export function toMinorUnits(amount: number, currency: string): number {
+    return Math.round(amount * configFor(currency).minorUnits);
+}
+
+/** Minor → major units, e.g. 150050 kobo → ₦1,500.50. */
+export function fromMinorUnits(amount: number, currency: string): number {
+    return amount / configFor(currency).minorUnits;
+}
+
+export function serviceFeeFlat(currency: string): number {
+    return configFor(currency).serviceFeeFlat;
+}
+
+/** VAT rate (a fraction) included in the platform's service fee in this currency's market. */
+export function vatRate(currency: string): number {
+    return isSupportedCurrency(currency) ? CURRENCIES[currency].vatRate : 0;
+}
+
+/**
+ * Round a derived amount (percentage fee, discount, refund, installment share) to the precision
+ * the platform charges in: whole units for NGN and KES, cents for the rest.
+ */
+export function roundAmount(amount: number, currency: string): number {
+    const factor = 10 ** decimalsFor(currency);
+    return Math.round(amount * factor) / factor;
+}
+
+/** Like roundAmount, but always rounds down — for splitting a total into equal shares. */
+export function floorAmount(amount: number, currency: string): number {
+    const factor = 10 ** decimalsFor(currency);
+    return Math.floor(amount * factor + 1e-9) / factor;
+}
+
+/** Human-readable amount for messages and emails, e.g. "₦5,000" or "$12.50". */
+export function formatMoney(amount: number, currency: string): string {
+    const config = isSupportedCurrency(currency) ? CURRENCIES[currency] : null;
+    const value = amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+    return config ? `${config.symbol}${value}` : `${currency} ${value}`;
+}
@@ -188,7 +188,7 @@ export const EmailTemplates = {
     /**
      * Ticket Confirmation Template
      */
-    ticketConfirmation: (data: { eventTitle: string, userTitle: string, qrCodeUrl?: string, startDate: string, venue: string, eventImageUrl?: string, eventUrl?: string, organizerName?: string, organizerAvatarUrl?: string, organizerProfileUrl?: string }) => ({
+    ticketConfirmation: (data: { eventTitle: string, userTitle: string, qrCodeUrl?: string, startDate: string, venue: string, eventImageUrl?: string, eventUrl?: string, organizerName?: string, organizerAvatarUrl?: string, organizerProfileUrl?: string, receiptNumber?: string }) => ({
         subject: `Your Ticket for ${data.eventTitle} 🎫`,
         html: renderLayout({
             contextTitle: data.eventTitle,
@@ -212,6 +212,7 @@ export const EmailTemplates = {
                     <img src="${data.qrCodeUrl}" alt="Ticket QR Code" style="width:200px; height:200px;" />
                 </div>
                 ` : ''}
+                ${data.receiptNumber ? `<p>Your receipt (${data.receiptNumber}) is attached.</p>` : ''}
                 <p>Enjoy the event!</p>
                 <p>The EventFi Team</p>
             `,
@@ -473,6 +474,171 @@ export const EmailTemplates = {
         };
     },
 
+    waitlistOffer: (data: { eventTitle: string; ticketName: string; quantity: number; claimUrl: string; expiresAt: string; recipientName?: string }) => ({
+        subject: `Tickets are available for ${data.eventTitle}`,
+        html: renderLayout({
+            heading: "You're off the waitlist",
+            bodyHtml: `
+                <p>Hi ${data.recipientName || 'there'},</p>
+                <p>Good news — tickets for <strong>${data.eventTitle}</strong> have opened up and we're holding them for you.</p>
+                <table style="width:100%; border-collapse:collapse; margin:16px 0;">
+                    <tr><td style="padding:8px; color:#666;">Ticket</td><td style="padding:8px; font-weight:bold;">${data.quantity} × ${data.ticketName}</td></tr>
+                    <tr style="background-color:#f9f9f9"><td style="padding:8px; color:#666;">Held until</td><td style="padding:8px;">${data.expiresAt}</td></tr>
+                </table>
+                <p>Claim them before then — after that they'll go to the next person in line.</p>
+                <p>The EventFi Team</p>
+            `,
+            ctaLabel: 'Claim tickets',
+            ctaUrl: data.claimUrl,
+        }),
+        text: `Hi ${data.recipientName || 'there'}, ${data.quantity} × ${data.ticketName} ticket(s) for ${data.eventTitle} are being held for you until ${data.expiresAt}. Claim them at: ${data.claimUrl}`
+    }),
+
+    refundApproved: (data: { eventTitle: string; currency: string; amount: number; recipientName?: string; eventCancelled?: boolean }) => ({
+        subject: `Your refund for ${data.eventTitle} is on its way`,
+        html: renderLayout({
+            heading: data.eventCancelled ? 'Refund issued' : 'Refund approved',
+            bodyHtml: `
+                <p>Hi ${data.recipientName || 'there'},</p>
+                <p>${data.eventCancelled
+                    ? `<strong>${data.eventTitle}</strong> has been cancelled, so we've refunded your order.`
+                    : `The organizer of <strong>${data.eventTitle}</strong> approved your refund request.`}</p>
+                <table style="width:100%; border-collapse:collapse; margin:16px 0;">
+                    <tr><td style="padding:8px; color:#666;">Refund amount</td><td style="padding:8px; font-weight:bold;">${data.currency} ${data.amount.toLocaleString()}</td></tr>
+                </table>
+                <p>It will be returned to your original payment method — banks usually take 5–10 working days. Your tickets for this order have been cancelled.</p>
+                <p>The EventFi Team</p>
+            `,
+        }),
+        text: `Hi ${data.recipientName || 'there'}, your ${data.currency} ${data.amount.toLocaleString()} refund for ${data.eventTitle} was ${data.eventCancelled ? 'issued' : 'approved'} and will reach your original payment method in 5-10 working days. Your tickets for this order have been cancelled.`
+    }),
+
+    refundDenied: (data: { eventTitle: string; note: string; recipientName?: string }) => ({
+        subject: `Your refund request for ${data.eventTitle}`,
+        html: renderLayout({
+            heading: 'Refund request declined',
+            bodyHtml: `
+                <p>Hi ${data.recipientName || 'there'},</p>
+                <p>The organizer of <strong>${data.eventTitle}</strong> declined your refund request.</p>
+                <p style="padding:12px; background-color:#f9f9f9; border-radius:6px;">${data.note}</p>
+                <p>Your tickets are still valid — we look forward to seeing you there.</p>
+                <p>The EventFi Team</p>
+            `,
+        }),
+        text: `Hi ${data.recipientName || 'there'}, your refund request for ${data.eventTitle} was declined: ${data.note}. Your tickets are still valid.`
+    }),
+
+    ticketTransferOffer: (data: { eventTitle: string; ticketName: string; senderName: string; acceptUrl: string; expiresAt: string; recipientName?: string }) => ({
+        subject: `${data.senderName} sent you a ticket to ${data.eventTitle}`,
+        html: renderLayout({
+            heading: 'A ticket is waiting for you',
+            bodyHtml: `
+                <p>Hi ${data.recipientName || 'there'},</p>
+                <p><strong>${data.senderName}</strong> wants to transfer their ticket for <strong>${data.eventTitle}</strong> to you.</p>
+                <table style="width:100%; border-collapse:collapse; margin:16px 0;">
+                    <tr><td style="padding:8px; color:#666;">Ticket</td><td style="padding:8px; font-weight:bold;">${data.ticketName}</td></tr>
+                    <tr style="background-color:#f9f9f9"><td style="padding:8px; color:#666;">Accept by</td><td style="padding:8px;">${data.expiresAt}</td></tr>
+                </table>
+                <p>Sign in with this email address to accept it. Once you do, a new ticket code is issued in your name.</p>
+                <p>If you weren't expecting this, you can safely ignore this email.</p>
+                <p>The EventFi Team</p>
+            `,
+            ctaLabel: 'Accept ticket',
+            ctaUrl: data.acceptUrl,
+        }),
+        text: `Hi ${data.recipientName || 'there'}, ${data.senderName} wants to transfer their ${data.ticketName} ticket for ${data.eventTitle} to you. Accept it by ${data.expiresAt} at: ${data.acceptUrl}`
+    }),
+
+    groupBookingInvite: (data: { eventTitle: string; eventDate: string; ticketName: string; initiatorName: string; amount: string; payUrl: string; deadline: string; recipientName?: string }) => ({
+        subject: `${data.initiatorName} saved you a seat at ${data.eventTitle}`,
+        html: renderLayout({
+            heading: 'Your seat is being held',
+            bodyHtml: `
+                <p>Hi ${data.recipientName || 'there'},</p>
+                <p><strong>${data.initiatorName}</strong> booked a group of tickets for <strong>${data.eventTitle}</strong> on ${data.eventDate} and is holding one for you.</p>
+                <table style="width:100%; border-collapse:collapse; margin:16px 0;">
+                    <tr><td style="padding:8px; color:#666;">Ticket</td><td style="padding:8px; font-weight:bold;">${data.ticketName}</td></tr>
+                    <tr style="background-color:#f9f9f9"><td style="padding:8px; color:#666;">Your share</td><td style="padding:8px; font-weight:bold;">${data.amount}</td></tr>
+                    <tr><td style="padding:8px; color:#666;">Pay by</td><td style="padding:8px;">${data.deadline}</td></tr>
+                </table>
+                <p>Your ticket is issued as soon as you pay. If your share isn't paid by the deadline, the seat is released.</p>
+                <p>The EventFi Team</p>
+            `,
+            ctaLabel: 'Pay my share',
+            ctaUrl: data.payUrl,
+        }),
+        text: `Hi ${data.recipientName || 'there'}, ${data.initiatorName} is holding a ${data.ticketName} ticket for you at ${data.eventTitle} (${data.eventDate}). Pay your share of ${data.amount} by ${data.deadline} at: ${data.payUrl}`
+    }),
+
+    paymentReceipt: (data: { eventTitle: string; invoiceNumber: string; amount: string; installment?: string; recipientName?: string }) => ({
+        subject: `Your receipt for ${data.eventTitle}`,
+        html: renderLayout({
+            heading: 'Payment received',
+            bodyHtml: `
+                <p>Hi ${data.recipientName || 'there'},</p>
+                <p>Thanks for your payment${data.installment ? ` of installment ${data.installment}` : ''} for <strong>${data.eventTitle}</strong>. Your receipt is attached.</p>
+                <table style="width:100%; border-collapse:collapse; margin:16px 0;">
+                    <tr><td style="padding:8px; color:#666;">Receipt number</td><td style="padding:8px; font-weight:bold;">${data.invoiceNumber}</td></tr>
+                    <tr style="background-color:#f9f9f9"><td style="padding:8px; color:#666;">Amount paid</td><td style="padding:8px; font-weight:bold;">${data.amount}</td></tr>
+                </table>
+                <p>You can download your receipts at any time from your orders.</p>
+                <p>The EventFi Team</p>
+            `,
+            ctaLabel: 'View My Orders',
+            ctaUrl: `${WEBSITE_URL}/profile?tab=payments`,
+        }),
+        text: `Hi ${data.recipientName || 'there'}, thanks for your payment${data.installment ? ` of installment ${data.installment}` : ''} of ${data.amount} for ${data.eventTitle}. Your receipt ${data.invoiceNumber} is attached.`
+    }),
+
+    ticketTransferCompleted: (data: { eventTitle: string; ticketName: string; counterpartName: string; ticketCode?: string; recipientName?: string }) => ({
+        subject: data.ticketCode ? `Your ticket to ${data.eventTitle}` : `Your ticket to ${data.eventTitle} was transferred`,
+        html: renderLayout({
+            heading: data.ticketCode ? 'Ticket received' : 'Ticket transferred',
+            bodyHtml: `
+                <p>Hi ${data.recipientName || 'there'},</p>
+                <p>${data.ticketCode
+                    ? `You accepted the <strong>${data.ticketName}</strong> ticket for <strong>${data.eventTitle}</strong> from ${data.counterpartName}. It's now in your name.`
+                    : `${data.counterpartName} accepted your <strong>${data.ticketName}</strong> ticket for <strong>${data.eventTitle}</strong>. Your old ticket code no longer works.`}</p>
+                ${data.ticketCode ? `
+                <table style="width:100%; border-collapse:collapse; margin:16px 0;">
+                    <tr><td style="padding:8px; color:#666;">Ticket code</td><td style="padding:8px; font-weight:bold;">${data.ticketCode}</td></tr>
+                </table>` : ''}
+                <p>The EventFi Team</p>
+            `,
+        }),
+        text: data.ticketCode
+            ? `Hi ${data.recipientName || 'there'}, your ${data.ticketName} ticket for ${data.eventTitle} from ${data.counterpartName} is now in your name. Ticket code: ${data.ticketCode}`
+            : `Hi ${data.recipientName || 'there'}, ${data.counterpartName} accepted your ${data.ticketName} ticket for ${data.eventTitle}. Your old ticket code no longer works.`
+    }),
+
+    // ─── Admin emails ──────────────────────────────────────────────────────────
+
+    reconciliationReport: (data: {
+        date: string;
+        byType: Record<string, number>;
+        unresolved: number;
+        items: { type: string; reference: string; eventTitle: string | null; amount: string | null; details: string }[];
+    }) => ({
+        subject: `Payment reconciliation report — ${data.date}`,
+        html: renderLayout({
+            heading: `Payment reconciliation — ${data.date}`,
+            bodyHtml: `
+                <table style="width:100%; border-collapse:collapse; margin:16px 0;">
+                    ${Object.entries(data.byType).map(([type, count], i) => `
+                    <tr${i % 2 ? ' style="background-color:#f9f9f9"' : ''}><td style="padding:8px; color:#666;">${type}</td><td style="padding:8px; font-weight:bold;">${count}</td></tr>`).join('')}
+                    <tr><td style="padding:8px; color:#666;">Unresolved (all time)</td><td style="padding:8px; font-weight:bold;">${data.unresolved}</td></tr>
+                </table>
+                ${data.items.length ? `
+                <table style="width:100%; border-collapse:collapse; margin:16px 0; font-size:13px;">
+                    ${data.items.map(item => `
+                    <tr><td style="padding:6px; border-top:1px solid #eee;"><strong>${item.type}</strong> · ${item.reference}${item.eventTitle ? ` · ${item.eventTitle}` : ''}${item.amount ? ` · ${item.amount}` : ''}<br/><span style="color:#666;">${item.details}</span></td></tr>`).join('')}
+                </table>` : ''}
+                <p>Review and resolve these in the admin dashboard.</p>
+            `,
+        }),
+        text: `Payment reconciliation ${data.date}: ${Object.entries(data.byType).map(([type, count]) => `${type} ${count}`).join(', ')}. Unresolved: ${data.unresolved}.`
+    }),
+
     // ─── Community emails ──────────────────────────────────────────────────────
 
     /**
@@ -0,0 +1,147 @@
+/**
+ * Minimal PDF writer for plain documents like receipts: text in the standard Helvetica
+ * faces, horizontal rules, and automatic page breaks. The standard fonts need no
+ * embedding, so output stays a few KB. Text is WinAnsi (Latin-1) encoded — characters
+ * outside it print as "?", so callers should prefer currency codes over symbols.
+ */
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// Advance widths (per 1000 units of font size) for printable ASCII, from the Helvetica AFMs
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+export interface TextOptions {
+    size?: number;
+    bold?: boolean;
+    align?: 'left' | 'right';
+    maxWidth?: number; // truncate with "..." to fit
+}
+
+/** Keep Latin-1, replace anything else — the standard fonts can't draw it. */
+function toLatin1(text: string): string {
+    return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escape(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+/** An amount with its currency code and two decimals — the standard fonts have no ₦ or ₵ to print. */
+export function money(amount: number, currency: string): string {
+    return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+    for (const char of text) {
+        const code = char.charCodeAt(0);
+        units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return (units * size) / 1000;
+}
+
+function truncate(text: string, size: number, bold: boolean, maxWidth: number): string {
+    if (textWidth(text, size, bold) <= maxWidth) return text;
+    let cut = text;
+    while (cut.length > 0 && textWidth(`${cut}...`, size, bold) > maxWidth) cut = cut.slice(0, -1);
+    return `${cut}...`;
+}
+
+/**
+ * A document built top to bottom: `y` is the current baseline, measured from the top of
+ * the page like a layout engine rather than from the bottom like PDF itself.
+ */
+export class PdfDocument {
+    static readonly width = PAGE_WIDTH;
+    static readonly margin = MARGIN;
+    static readonly contentWidth = PAGE_WIDTH - 2 * MARGIN;
+
+    private pages: string[][] = [[]];
+    y = MARGIN;
+
+    private get current() {
+        return this.pages[this.pages.length - 1];
+    }
+
+    text(x: number, text: string, options: TextOptions = {}) {
+        const size = options.size ?? 10;
+        const bold = options.bold ?? false;
+        let value = toLatin1(text);
+        if (options.maxWidth) value = truncate(value, size, bold, options.maxWidth);
+        const left = options.align === 'right' ? x - textWidth(value, size, bold) : x;
+
+        this.current.push(
+            `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - this.y).toFixed(2)} Td (${escape(value)}) Tj ET`
+        );
+        return this;
+    }
+
+    /** Horizontal rule across the content width at the current baseline. */
+    rule(width = 0.5) {
+        const y = (PAGE_HEIGHT - this.y).toFixed(2);
+        this.current.push(`${width} w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`);
+        return this;
+    }
+
+    /** Move down by `lines` of `lineHeight`, starting a new page when the bottom margin is reached. */
+    down(lineHeight = 14, lines = 1) {
+        this.y += lineHeight * lines;
+        if (this.y > PAGE_HEIGHT - MARGIN) {
+            this.pages.push([]);
+            this.y = MARGIN;
+        }
+        return this;
+    }
+
+    toBuffer(): Buffer {
+        const objects: string[] = [];
+        const pageRefs: number[] = [];
+        // 1 catalog, 2 page tree, 3–4 fonts, then a page and content stream per page
+        this.pages.forEach((ops, index) => {
+            const pageNumber = 5 + index * 2;
+            const stream = ops.join('\n');
+            pageRefs.push(pageNumber);
+            objects[pageNumber] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageNumber + 1} 0 R >>`;
+            objects[pageNumber + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+        });
+        objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+        objects[2] = `<< /Type /Pages /Kids [${pageRefs.map(n => `${n} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+        objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+        objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+        let output = '%PDF-1.4\n';
+        const offsets: number[] = [];
+        for (let n = 1; n < objects.length; n++) {
+            offsets[n] = Buffer.byteLength(output, 'latin1');
+            output += `${n} 0 obj\n${objects[n]}\nendobj\n`;
+        }
+
+        const xrefOffset = Buffer.byteLength(output, 'latin1');
+        output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+        for (let n = 1; n < objects.length; n++) {
+            output += `${String(offsets[n]).padStart(10, '0')} 00000 n \n`;
+        }
+        output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(output, 'latin1');
+    }
+}
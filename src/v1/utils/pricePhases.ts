@@ -0,0 +1,78 @@
+/**
+ * Price phases let one ticket type change price over time (early bird until a date) or with
+ * demand (first 100 sold at one price). Phases are checked in `position` order and the first
+ * one that is open wins; when none is, the ticket's own `price` applies.
+ */
+export interface PricePhase {
+    id: string;
+    name: string;
+    price: number;
+    startsAt: Date | null;
+    endsAt: Date | null;
+    soldLimit: number | null; // phase closes once this many of the ticket type have sold
+    position: number;
+}
+
+export interface PhasedTicket {
+    price: number;
+    quantity: number;
+    remaining: number;
+    pricePhases?: PricePhase[];
+}
+
+function isOpen(phase: PricePhase, sold: number, at: Date): boolean {
+    return (!phase.startsAt || phase.startsAt <= at) &&
+        (!phase.endsAt || phase.endsAt > at) &&
+        (phase.soldLimit === null || sold < phase.soldLimit);
+}
+
+function phaseAt(phases: PricePhase[], sold: number, at: Date): PricePhase | null {
+    return [...phases].sort((a, b) => a.position - b.position).find(p => isOpen(p, sold, at)) ?? null;
+}
+
+/**
+ * The price a ticket sells at right now, the phase that set it, and the next scheduled or
+ * sell-through change. `nextPriceChange.at` is when the price changes by date;
+ * `ticketsLeft` is how many more sales at this price trigger it — whichever comes first.
+ */
+export function resolveTicketPrice(ticket: PhasedTicket, now = new Date()) {
+    const phases = ticket.pricePhases ?? [];
+    const sold = ticket.quantity - ticket.remaining;
+    const active = phaseAt(phases, sold, now);
+    const price = active?.price ?? ticket.price;
+
+    // Dates are the only thing that changes the price without a sale, so the next
+    // date-driven change is at the earliest phase boundary where the price differs
+    const boundaries = phases
+        .flatMap(p => [p.startsAt, p.endsAt])
+        .filter((d): d is Date => !!d && d > now)
+        .sort((a, b) => a.getTime() - b.getTime());
+    const byDate = boundaries
+        .map(at => ({ at, price: phaseAt(phases, sold, at)?.price ?? ticket.price }))
+        .find(change => change.price !== price);
+
+    let bySales: { ticketsLeft: number; price: number } | undefined;
+    if (active?.soldLimit !== null && active?.soldLimit !== undefined) {
+        const nextPrice = phaseAt(phases, active.soldLimit, now)?.price ?? ticket.price;
+        if (nextPrice !== price) bySales = { ticketsLeft: active.soldLimit - sold, price: nextPrice };
+    }
+
+    const nextPriceChange = byDate || bySales
+        ? {
+            at: byDate?.at.toISOString() ?? null,
+            ticketsLeft: bySales?.ticketsLeft ?? null,
+            price: byDate?.price ?? bySales!.price,
+        }
+        : null;
+
+    return {
+        price,
+        activePhase: active && {
+            id: active.id,
+            name: active.name,
+            endsAt: active.endsAt?.toISOString() ?? null,
+            ticketsLeft: active.soldLimit !== null ? active.soldLimit - sold : null,
+        },
+        nextPriceChange,
+    };
+}
@@ -1,16 +1,31 @@
 import { z } from 'zod';
 
+// Answers to the event's registration questions, keyed by question id
+const answersSchema = z.record(
+    z.string().uuid('Invalid question ID'),
+    z.union([z.string().max(2000), z.array(z.string().max(100)).max(50), z.boolean()])
+).optional();
+
 export const initiateBookingSchema = z.object({
     eventId: z.string().uuid('Invalid event ID'),
     items: z.array(z.object({
         ticketTypeId: z.string().uuid('Invalid ticket type ID'),
         quantity: z.number().int().min(1, 'Quantity must be at least 1').max(50, 'Maximum 50 tickets per item'),
+        amount: z.number().min(0, 'Amount cannot be negative').optional(), // per ticket, donation tickets only
     })).min(1, 'At least one item is required'),
     guestEmail: z.string().email('Invalid guest email').optional(),
     installmentPlan: z.object({
         installmentCount: z.number().int().min(2, 'An installment plan needs at least 2 payments').max(12),
         downPaymentPercent: z.number().min(0.2).max(0.8).optional(),
     }).optional(),
+    groupBooking: z.object({
+        deadline: z.string().datetime('Invalid deadline').optional(),
+        shares: z.array(z.object({
+            ticketTypeId: z.string().uuid('Invalid ticket type ID'),
+            email: z.string().email('Invalid email address'),
+            name: z.string().min(1).max(100).optional(),
+        })).min(2, 'A group booking needs at least 2 shares').max(50, 'Maximum 50 shares per group booking'),
+    }).optional(),
 });
 
 export const updateAttendeesSchema = z.object({
@@ -19,6 +34,7 @@ export const updateAttendeesSchema = z.object({
         name: z.string().min(1, 'Name is required').max(100),
         email: z.string().email('Invalid email address'),
         phone: z.string().optional(),
+        answers: answersSchema,
     })).min(1, 'At least one attendee is required'),
 });
 
@@ -35,11 +51,16 @@ export const payInstallmentSchema = z.object({
     callbackUrl: z.string().url('Invalid callback URL'),
 });
 
+export const payGroupShareSchema = z.object({
+    callbackUrl: z.string().url('Invalid callback URL'),
+});
+
 export const confirmOrderSchema = z.object({
     attendees: z.array(z.object({
         ticketTypeId: z.string().uuid('Invalid ticket type ID'),
         name: z.string().min(1, 'Name is required').max(100),
         email: z.string().email('Invalid email address'),
         phone: z.string().optional(),
+        answers: answersSchema,
     })).optional(),
 });
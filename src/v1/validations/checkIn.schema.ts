@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+const offlineScanSchema = z.object({
+    clientScanId: z.string().min(1, 'clientScanId is required').max(100),
+    ticketCode: z.string().min(1).optional(),
+    qrPayload: z.string().min(1).optional(),
+    scannedAt: z.string().datetime('scannedAt must be an ISO timestamp'),
+}).refine(scan => scan.ticketCode || scan.qrPayload, {
+    message: 'Each scan needs a ticketCode or qrPayload',
+    path: ['ticketCode'],
+});
+
+export const checkInSyncSchema = z.object({
+    deviceId: z.string().min(1, 'deviceId is required').max(100),
+    deviceName: z.string().max(100).optional(),
+    scans: z.array(offlineScanSchema).min(1, 'No scans to sync').max(500, 'Sync at most 500 scans per request'),
+});
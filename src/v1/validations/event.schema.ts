@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
 
 const locationSchema = z.object({
     type: z.enum(['PHYSICAL', 'ONLINE', 'HYBRID']),
@@ -24,19 +25,47 @@ const scheduleSchema = z.object({
     timezone: z.string().optional(),
 });
 
+const pricePhaseSchema = z.object({
+    name: z.string().min(1, 'Phase name is required').max(60),
+    price: z.number().min(0, 'Price cannot be negative'),
+    startsAt: z.string().datetime().nullable().optional(),
+    endsAt: z.string().datetime().nullable().optional(),
+    soldLimit: z.number().int().min(1).nullable().optional(),
+}).superRefine((phase, ctx) => {
+    if (!phase.startsAt && !phase.endsAt && !phase.soldLimit) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'A price phase needs a start date, an end date or a sold limit',
+            path: ['endsAt'],
+        });
+    }
+    if (phase.startsAt && phase.endsAt && new Date(phase.endsAt) <= new Date(phase.startsAt)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'endsAt must be after startsAt',
+            path: ['endsAt'],
+        });
+    }
+});
+
 const ticketSchema = z.object({
     id: z.string().optional(),
     name: z.string().min(1, 'Ticket name is required'),
     description: z.string().optional(),
     type: z.enum(['FREE', 'PAID', 'DONATION']),
     price: z.number().min(0, 'Price cannot be negative'),
-    currency: z.string().default('NGN'),
+    currency: z.enum(SUPPORTED_CURRENCIES).default('NGN'),
     quantity: z.number().int().min(1, 'Quantity must be at least 1'),
     maxPerUser: z.number().int().min(1).optional(),
     salesStart: z.string().optional(),
     salesEnd: z.string().optional(),
     allowInstallments: z.boolean().optional(),
     maxInstallments: z.number().int().min(2).max(12).optional(),
+    allowTransfers: z.boolean().optional(),
+    transferCutoffHours: z.number().int().min(0).max(720).optional(),
+    minDonation: z.number().min(0).nullable().optional(),
+    suggestedAmounts: z.array(z.number().positive()).max(6, 'At most 6 suggested amounts').optional(),
+    pricePhases: z.array(pricePhaseSchema).max(10, 'At most 10 price phases per ticket').optional(),
 });
 
 const mediaSchema = z.object({
@@ -69,6 +98,8 @@ export const createEventSchema = z.object({
     scheduleItems: z.array(scheduleItemSchema).optional(),
     communityId: z.string().uuid().optional(),
     chapterId: z.string().uuid().optional(),
+    paymentProvider: z.enum(['paystack', 'flutterwave']).nullable().optional(),
+    serviceFeeMode: z.enum(['PASS_ON', 'ABSORB', 'SPLIT']).optional(),
 });
 
 export const updateEventSchema = createEventSchema.partial();
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const payoutScheduleSchema = z.object({
+    enabled: z.boolean().optional(),
+    frequency: z.enum(['AFTER_EVENT', 'WEEKLY']).optional(),
+    delayDays: z.number().int().min(1, 'Payouts start at least 1 day after an event ends').max(30).optional(),
+    weekday: z.number().int().min(0).max(6, 'weekday is 0 (Sunday) to 6 (Saturday)').optional(),
+    reservePercent: z.number()
+        .min(0.05, 'At least 5% is held in reserve')
+        .max(0.5, 'At most 50% can be held in reserve')
+        .optional(),
+});
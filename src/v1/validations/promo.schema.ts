@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+const promoCodeFields = z.object({
+    code: z.string().min(3, 'Code must be at least 3 characters').max(30)
+        .regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, dashes and underscores'),
+    discountType: z.enum(['PERCENTAGE', 'FIXED']),
+    discountValue: z.number().positive('Discount must be greater than 0'),
+    maxUses: z.number().int().min(1).nullable().optional(),
+    maxUsesPerUser: z.number().int().min(1).nullable().optional(),
+    validFrom: z.string().datetime().nullable().optional(),
+    validUntil: z.string().datetime().nullable().optional(),
+    minOrderAmount: z.number().min(0).nullable().optional(),
+    ticketIds: z.array(z.string().uuid('Invalid ticket type ID')).optional(),
+    appliesToAllEvents: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+});
+
+const promoRefinement = (data: { discountType?: string; discountValue?: number; validFrom?: string | null; validUntil?: string | null }, ctx: z.RefinementCtx) => {
+    if (data.discountType === 'PERCENTAGE' && data.discountValue !== undefined && data.discountValue > 100) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'A percentage discount cannot exceed 100',
+            path: ['discountValue'],
+        });
+    }
+    if (data.validFrom && data.validUntil && new Date(data.validUntil) <= new Date(data.validFrom)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'validUntil must be after validFrom',
+            path: ['validUntil'],
+        });
+    }
+};
+
+export const createPromoCodeSchema = promoCodeFields.superRefine(promoRefinement);
+
+export const updatePromoCodeSchema = promoCodeFields.omit({ appliesToAllEvents: true }).partial().superRefine(promoRefinement);
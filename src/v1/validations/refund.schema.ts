@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const refundPolicySchema = z.object({
+    refundPolicy: z.enum(['NONE', 'FULL', 'PARTIAL']),
+    refundDeadlineDays: z.number().int().min(0, 'Deadline cannot be negative').max(365).optional(),
+    refundPercent: z.number().int().min(1, 'Refund percentage must be at least 1').max(99, 'Use a FULL policy for 100% refunds').nullable().optional(),
+}).superRefine((data, ctx) => {
+    if (data.refundPolicy === 'PARTIAL' && data.refundPercent == null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['refundPercent'], message: 'refundPercent is required for a PARTIAL policy' });
+    }
+});
+
+export const requestRefundSchema = z.object({
+    reason: z.string().max(1000).optional(),
+});
+
+export const approveRefundSchema = z.object({
+    note: z.string().max(1000).optional(),
+});
+
+export const denyRefundSchema = z.object({
+    note: z.string().min(1, 'Please tell the attendee why the refund was declined').max(1000),
+});
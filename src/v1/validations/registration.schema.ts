@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+const questionFields = z.object({
+    label: z.string().min(1, 'Question label is required').max(200),
+    helpText: z.string().max(500).nullable().optional(),
+    type: z.enum(['TEXT', 'SELECT', 'MULTI_SELECT', 'CHECKBOX', 'DATE']),
+    options: z.array(z.string().min(1).max(100)).max(50, 'At most 50 options').optional(),
+    required: z.boolean().optional(),
+    maxLength: z.number().int().min(1).max(2000).nullable().optional(),
+    ticketIds: z.array(z.string().uuid('Invalid ticket type ID')).optional(),
+    position: z.number().int().min(0).optional(),
+});
+
+const questionRefinement = (data: { type?: string; options?: string[] }, ctx: z.RefinementCtx) => {
+    const hasChoices = data.type === 'SELECT' || data.type === 'MULTI_SELECT';
+    if (hasChoices && (!data.options || data.options.length < 2)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Select questions need at least 2 options',
+            path: ['options'],
+        });
+    }
+    if (data.options && new Set(data.options).size !== data.options.length) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Options must be unique',
+            path: ['options'],
+        });
+    }
+};
+
+export const createQuestionSchema = questionFields.superRefine(questionRefinement);
+
+export const updateQuestionSchema = questionFields.partial().superRefine(questionRefinement);
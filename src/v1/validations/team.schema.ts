@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const revenueSharesSchema = z.object({
+    shares: z.array(z.object({
+        memberId: z.string().uuid('Invalid team member ID'),
+        percent: z.number().min(0).max(100, 'A share is at most 100%'),
+    })).max(50),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+export const initiateTransferSchema = z.object({
+    email: z.string().email('A valid recipient email is required'),
+    name: z.string().max(100).optional(),
+});
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const joinWaitlistSchema = z.object({
+    quantity: z.number().int().min(1, 'Quantity must be at least 1').max(50, 'Maximum 50 tickets per entry').default(1),
+});
+
+export const claimWaitlistSchema = z.object({
+    token: z.string().min(1, 'Claim token is required'),
+});